@@ -3,7 +3,7 @@ module.exports = {
   testEnvironment: 'node',
   roots: ['<rootDir>/src'],
   testMatch: ['**/__tests__/**/*.ts', '**/*.test.ts'],
-  testPathIgnorePatterns: ['/node_modules/', '/__tests__/setup.ts'],
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/setup.ts', '/__tests__/helpers.ts'],
   collectCoverageFrom: [
     'src/**/*.ts',
     '!src/**/*.test.ts',
@@ -0,0 +1,182 @@
+/**
+ * Admin API tests
+ * Serves the admin routes from a local express app backed by ioredis-mock
+ */
+
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import RedisMock from 'ioredis-mock';
+import pino from 'pino';
+import { loadConfig } from '../config';
+import { ServiceContainer } from '../services/container';
+import { registerAdminRoutes } from '../handlers/admin';
+
+jest.mock('@langchain/openai');
+
+describe('Admin API', () => {
+  const TOKEN = 'admin-secret';
+  let redis: InstanceType<typeof RedisMock>;
+  let services: ServiceContainer;
+  let server: Server;
+  let baseUrl: string;
+
+  const request = (path: string, init: RequestInit = {}, token = TOKEN): Promise<globalThis.Response> =>
+    fetch(`${baseUrl}${path}`, { ...init, headers: { Authorization: `Bearer ${token}` } });
+
+  beforeEach(async () => {
+    redis = new RedisMock();
+    services = new ServiceContainer({ config: loadConfig(), logger: pino({ level: 'silent' }), redis: redis as never });
+
+    const app = express();
+    const router = express.Router();
+    registerAdminRoutes(router, services, pino({ level: 'silent' }), TOKEN);
+    app.use('/admin', router);
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, '127.0.0.1', resolve);
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/admin`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const missing = await fetch(`${baseUrl}/health`);
+    const wrong = await request('/health', {}, 'guess');
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+  });
+
+  it('should report health with queue depth', async () => {
+    const res = await request('/health');
+
+    expect(res.status).toBe(200);
+    await expect(res.json()).resolves.toEqual({
+      status: 'ok',
+      redis: true,
+      queue: { waiting: 0, active: 0, dead: 0 },
+    });
+  });
+
+  it('should page through audit logs filtered by repository', async () => {
+    const now = Date.now();
+    for (let i = 0; i < 3; i++) {
+      await services.cache.logAudit({
+        timestamp: now - i,
+        correlationId: `c${i}`,
+        actor: 'bot',
+        action: 'pr_summarized',
+        resource: `owner/repo#${i}`,
+      });
+    }
+    await services.cache.logAudit({
+      timestamp: now,
+      correlationId: 'other',
+      actor: 'bot',
+      action: 'pr_summarized',
+      resource: 'owner/other#1',
+    });
+
+    type AuditPage = { data: { resource: string }[]; pagination: { limit: number; nextCursor: string | null } };
+    const first = (await (await request(`/audit?repo=owner/repo&from=${now - 1000}&limit=2`)).json()) as AuditPage;
+    const cursor = encodeURIComponent(first.pagination.nextCursor as string);
+    const second = (await (await request(`/audit?repo=owner/repo&limit=2&cursor=${cursor}`)).json()) as AuditPage;
+
+    expect(first.data.map((e) => e.resource)).toEqual(['owner/repo#0', 'owner/repo#1']);
+    expect(first.pagination).toEqual({ limit: 2, nextCursor: expect.any(String) });
+    expect(second.data.map((e) => e.resource)).toEqual(['owner/repo#2']);
+    expect(second.pagination.nextCursor).toBeNull();
+  });
+
+  it('should export audit logs as CSV and audit the export', async () => {
+    const now = Date.now();
+    await services.cache.logAudit({
+      timestamp: now,
+      correlationId: 'c1',
+      actor: 'bot',
+      action: 'pr_summarized',
+      resource: 'owner/repo#1',
+    });
+
+    const res = await request(`/audit/export?format=csv&from=${now - 1000}&action=pr_summarized`);
+    const rows = (await res.text()).trim().split('\n');
+
+    expect(res.headers.get('content-type')).toBe('text/csv; charset=utf-8');
+    expect(rows).toEqual([
+      'time,timestamp,correlationId,actor,action,resource,details',
+      `${new Date(now).toISOString()},${now},c1,bot,pr_summarized,owner/repo#1,`,
+    ]);
+    const exported = await services.cache.queryAuditLogs({ action: 'admin_audit_exported' });
+    expect(exported.entries[0].details).toMatchObject({ format: 'csv', from: now - 1000 });
+  });
+
+  it('should reject invalid query parameters', async () => {
+    const badTime = await request('/audit?from=yesterday-ish');
+    const badLimit = await request('/audit?limit=5000');
+    const badCursor = await request('/audit?cursor=bogus');
+    const badFormat = await request('/audit/export?format=xlsx');
+
+    expect(badTime.status).toBe(400);
+    expect(badLimit.status).toBe(400);
+    expect(badCursor.status).toBe(400);
+    expect(badFormat.status).toBe(400);
+  });
+
+  it('should reset a repository rate limit and audit it', async () => {
+    const reset = jest.spyOn(services.rateLimiter, 'reset');
+    const logAudit = jest.spyOn(services.cache, 'logAudit');
+
+    const res = await request('/rate-limit/owner/repo', { method: 'DELETE' });
+
+    expect(res.status).toBe(200);
+    expect(reset).toHaveBeenCalledWith('repo', 'owner/repo');
+    expect(logAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ actor: 'admin', action: 'admin_rate_limit_reset', resource: 'owner/repo' })
+    );
+  });
+
+  it('should delete the cached summaries of a PR', async () => {
+    const summary = { what: 'What', why: 'Why', impact: 'Impact' };
+    await services.cache.cacheSummary('owner', 'repo', 1, 'sha1', summary);
+    await services.cache.cacheSummary('owner', 'repo', 1, 'sha2', summary);
+    await services.cache.cacheSummary('owner', 'repo', 2, 'sha1', summary);
+
+    const res = await request('/cache/owner/repo/1', { method: 'DELETE' });
+
+    await expect(res.json()).resolves.toEqual({ deleted: 2 });
+    await expect(services.cache.getSummary('owner', 'repo', 2, 'sha1')).resolves.toEqual(summary);
+  });
+
+  it('should report monthly usage for an installation', async () => {
+    await services.budget.record({ installationId: 9, owner: 'owner', repo: 'repo' }, [
+      { model: 'gpt-4o', inputTokens: 10, outputTokens: 5 },
+    ]);
+
+    const res = await request('/usage/9');
+
+    await expect(res.json()).resolves.toMatchObject({ tokens: 15, repos: { 'owner/repo': { tokens: 15 } } });
+  });
+
+  it('should list and replay dead-lettered jobs', async () => {
+    const job = { kind: 'explain' as const, installationId: 1, owner: 'o', repo: 'r', pullNumber: 1, file: 'a.ts' };
+    await services.redis.lpush(
+      'queue:dead',
+      JSON.stringify({ id: 'o/r#1:explain:5', payload: job, attempts: 5, enqueuedAt: 0, failedAt: 0 })
+    );
+
+    const list = await request('/dead-letters');
+    const replay = await request(`/dead-letters/${encodeURIComponent('o/r#1:explain:5')}/replay`, { method: 'POST' });
+    const missing = await request('/dead-letters/unknown/replay', { method: 'POST' });
+
+    await expect(list.json()).resolves.toMatchObject({ data: [{ id: 'o/r#1:explain:5' }], pagination: { nextOffset: null } });
+    expect(replay.status).toBe(200);
+    expect(missing.status).toBe(404);
+    await expect(services.queue.getCounts()).resolves.toEqual({ waiting: 1, active: 0, dead: 0 });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Audit export tests
+ * Uses ioredis-mock to simulate Redis
+ */
+
+import RedisMock from 'ioredis-mock';
+import pino from 'pino';
+import { CacheService } from '../services/cache';
+import { exportAuditLogs } from '../services/auditExport';
+import { AuditLogEntry } from '../types';
+
+describe('exportAuditLogs', () => {
+  let redis: InstanceType<typeof RedisMock>;
+  let cache: CacheService;
+  const now = Date.UTC(2024, 4, 15, 12);
+
+  const collect = async (stream: AsyncGenerator<string>): Promise<string> => {
+    let output = '';
+    for await (const chunk of stream) {
+      output += chunk;
+    }
+    return output;
+  };
+
+  const log = (overrides: Partial<AuditLogEntry>): Promise<void> =>
+    cache.logAudit({
+      timestamp: now,
+      correlationId: 'corr',
+      actor: 'octocat',
+      action: 'pr_summarized',
+      resource: 'owner/repo#1',
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    redis = new RedisMock();
+    cache = new CacheService({ redis: redis as never, logger: pino({ level: 'silent' }) });
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should write one JSON entry per line for the date range', async () => {
+    await log({ timestamp: now - 2000, correlationId: 'before' });
+    await log({ timestamp: now - 1000, correlationId: 'first' });
+    await log({ timestamp: now, correlationId: 'second', details: { model: 'gpt-4o' } });
+
+    const output = await collect(exportAuditLogs(cache, { from: now - 1500, to: now }, 'jsonl'));
+    const entries = output
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as AuditLogEntry);
+
+    expect(entries.map((e) => e.correlationId)).toEqual(['second', 'first']);
+    expect(entries[0].details).toEqual({ model: 'gpt-4o' });
+  });
+
+  it('should write CSV with a header row and escaped fields', async () => {
+    await log({ resource: 'owner/repo#1', details: { note: 'said "hi", twice' } });
+    await log({ timestamp: now - 1, actor: '=HYPERLINK("evil")', resource: 'owner/repo' });
+
+    const output = await collect(exportAuditLogs(cache, { repo: 'owner/repo' }, 'csv'));
+
+    expect(output.split('\n')).toEqual([
+      'time,timestamp,correlationId,actor,action,resource,details',
+      `2024-05-15T12:00:00.000Z,${now},corr,octocat,pr_summarized,owner/repo#1,"{""note"":""said \\""hi\\"", twice""}"`,
+      `2024-05-15T11:59:59.999Z,${now - 1},corr,"'=HYPERLINK(""evil"")",pr_summarized,owner/repo,`,
+      '',
+    ]);
+  });
+
+  it('should follow cursors until the range is exhausted', async () => {
+    const stored = (correlationId: string): AuditLogEntry => ({
+      timestamp: now,
+      correlationId,
+      actor: 'x',
+      action: 'y',
+      resource: 'z',
+    });
+    const query = jest
+      .spyOn(cache, 'queryAuditLogs')
+      .mockResolvedValueOnce({ entries: [stored('a')], nextCursor: 'next' })
+      .mockResolvedValueOnce({ entries: [stored('b')], nextCursor: null });
+
+    const output = await collect(exportAuditLogs(cache, { actor: 'x' }, 'jsonl'));
+
+    expect(output.trim().split('\n')).toHaveLength(2);
+    expect(query).toHaveBeenNthCalledWith(2, { actor: 'x', cursor: 'next', limit: 500 });
+  });
+});
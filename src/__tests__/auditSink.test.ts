@@ -0,0 +1,183 @@
+/**
+ * Audit sink tests
+ * Delivers to a temporary file and to a local HTTP server standing in for a log collector
+ */
+
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import pino from 'pino';
+import { AuditSink, AuditSinkConfig, AuditTransport, FileAuditTransport, HttpAuditTransport } from '../services/auditSink';
+import { AuditLogEntry } from '../types';
+
+describe('AuditSink', () => {
+  const logger = pino({ level: 'silent' });
+  const entry = (correlationId: string): AuditLogEntry => ({
+    timestamp: 1_700_000_000_000,
+    correlationId,
+    actor: 'bot',
+    action: 'pr_summarized',
+    resource: 'owner/repo#1',
+  });
+
+  // Fails the first `failures` sends, then records each delivered batch's correlation ids
+  const recorder = (failures = 0): AuditTransport & { batches: string[][]; attempts: number } => {
+    const transport = {
+      name: 'test',
+      batches: [] as string[][],
+      attempts: 0,
+      send: (entries: AuditLogEntry[]): Promise<void> => {
+        transport.attempts++;
+        if (transport.attempts <= failures) {
+          return Promise.reject(new Error('Collector unavailable'));
+        }
+        transport.batches.push(entries.map((e) => e.correlationId));
+        return Promise.resolve();
+      },
+    };
+    return transport;
+  };
+
+  const createSink = (transport: AuditTransport, overrides: Partial<AuditSinkConfig> = {}): AuditSink =>
+    new AuditSink({
+      transport,
+      logger,
+      batchSize: 2,
+      flushIntervalMs: 60_000,
+      maxRetries: 2,
+      retryDelayMs: 1,
+      ...overrides,
+    });
+
+  it('should send a batch as soon as it is full', async () => {
+    const transport = recorder();
+    const sink = createSink(transport);
+
+    sink.write(entry('a'));
+    expect(transport.attempts).toBe(0);
+
+    sink.write(entry('b'));
+    sink.write(entry('c'));
+    await sink.flush();
+
+    expect(transport.batches).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('should send a partial batch after the flush interval', async () => {
+    const transport = recorder();
+    const sink = createSink(transport, { flushIntervalMs: 5 });
+
+    sink.write(entry('a'));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(transport.batches).toEqual([['a']]);
+  });
+
+  it('should retry a failed batch and keep batches in order', async () => {
+    const transport = recorder(2);
+    const sink = createSink(transport);
+
+    sink.write(entry('a'));
+    sink.write(entry('b'));
+    sink.write(entry('c'));
+    await sink.flush();
+
+    expect(transport.attempts).toBe(4);
+    expect(transport.batches).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('should drop a batch once retries are exhausted without failing the caller', async () => {
+    const transport = recorder(3);
+    const sink = createSink(transport);
+
+    sink.write(entry('a'));
+    sink.write(entry('b'));
+    sink.write(entry('c'));
+    await expect(sink.flush()).resolves.toBeUndefined();
+
+    expect(transport.batches).toEqual([['c']]);
+  });
+
+  it('should drop the oldest entries when the buffer is full', async () => {
+    const transport = recorder();
+    const sink = createSink(transport, { batchSize: 10, maxBufferedEntries: 2 });
+
+    ['a', 'b', 'c'].forEach((id) => sink.write(entry(id)));
+    await sink.flush();
+
+    expect(transport.batches).toEqual([['b', 'c']]);
+  });
+
+  describe('FileAuditTransport', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'audit-sink-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should append entries as JSON lines', async () => {
+      const path = join(dir, 'audit.jsonl');
+      const transport = new FileAuditTransport(path);
+
+      await transport.send([entry('a')]);
+      await transport.send([entry('b'), entry('c')]);
+
+      const lines = (await readFile(path, 'utf8')).trim().split('\n');
+      expect(lines.map((line) => (JSON.parse(line) as AuditLogEntry).correlationId)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('HttpAuditTransport', () => {
+    let server: Server;
+    let url: string;
+    let statuses: number[];
+    const received: { headers: Record<string, unknown>; body: { entries: AuditLogEntry[] } }[] = [];
+
+    beforeEach(async () => {
+      statuses = [];
+      received.length = 0;
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          received.push({ headers: req.headers, body: JSON.parse(body) });
+          res.statusCode = statuses.shift() ?? 204;
+          res.end();
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/ingest`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should POST batches with the configured headers', async () => {
+      const transport = new HttpAuditTransport({ url, headers: { Authorization: 'Splunk abc' } });
+
+      await transport.send([entry('a'), entry('b')]);
+
+      expect(received).toHaveLength(1);
+      expect(received[0].headers.authorization).toBe('Splunk abc');
+      expect(received[0].body.entries.map((e) => e.correlationId)).toEqual(['a', 'b']);
+    });
+
+    it('should redeliver through the sink after an error response', async () => {
+      statuses.push(503);
+      const sink = createSink(new HttpAuditTransport({ url }));
+
+      sink.write(entry('a'));
+      await sink.flush();
+
+      expect(received).toHaveLength(2);
+      expect(received[1].body.entries.map((e) => e.correlationId)).toEqual(['a']);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Budget service tests
+ * Uses ioredis-mock to simulate Redis
+ */
+
+import RedisMock from 'ioredis-mock';
+import pino from 'pino';
+import { BudgetService, BudgetLimits } from '../services/budget';
+
+describe('BudgetService', () => {
+  let redis: InstanceType<typeof RedisMock>;
+  let now: number;
+  const logger = pino({ level: 'silent' });
+  const subject = { installationId: 7, owner: 'owner', repo: 'repo' };
+  const noLimits: BudgetLimits = { softLimitTokens: 0, hardLimitTokens: 0, softLimitUsd: 0, hardLimitUsd: 0 };
+
+  const createBudget = (limits: Partial<BudgetLimits> = {}, pricing = {}): BudgetService =>
+    new BudgetService({ redis: redis as never, logger, limits: { ...noLimits, ...limits }, pricing });
+
+  beforeEach(() => {
+    redis = new RedisMock();
+    now = Date.UTC(2024, 4, 15);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should price usage per model from the price table', async () => {
+    const budget = createBudget();
+
+    const cost = await budget.record(subject, [
+      { model: 'gpt-4o', inputTokens: 1_000_000, outputTokens: 100_000 },
+      { model: 'claude-3-5-sonnet-20241022', inputTokens: 10_000, outputTokens: 0 },
+    ]);
+
+    expect(cost).toBeCloseTo(3.53);
+  });
+
+  it('should count tokens but no cost for unpriced models', async () => {
+    const budget = createBudget();
+
+    await expect(budget.record(subject, [{ model: 'llama3.1', inputTokens: 50, outputTokens: 50 }])).resolves.toBe(0);
+    await expect(budget.getUsage(7)).resolves.toMatchObject({ tokens: 100, costUsd: 0 });
+  });
+
+  it('should apply price overrides', async () => {
+    const budget = createBudget({}, { 'llama3.1': { input: 1, output: 1 } });
+
+    await expect(
+      budget.record(subject, [{ model: 'llama3.1', inputTokens: 500_000, outputTokens: 500_000 }])
+    ).resolves.toBeCloseTo(1);
+  });
+
+  it('should total usage per installation and repository for the month', async () => {
+    const budget = createBudget();
+
+    await budget.record(subject, [{ model: 'gpt-4o', inputTokens: 100, outputTokens: 10 }]);
+    await budget.record({ ...subject, repo: 'other' }, [{ model: 'gpt-4o', inputTokens: 200, outputTokens: 20 }]);
+
+    const usage = await budget.getUsage(7);
+
+    expect(usage.month).toBe('2024-05');
+    expect(usage.tokens).toBe(330);
+    expect(usage.repos).toEqual({
+      'owner/repo': { tokens: 110, costUsd: 0.00035 },
+      'owner/other': { tokens: 220, costUsd: 0.0007 },
+    });
+  });
+
+  it('should start a fresh budget each month', async () => {
+    const budget = createBudget({ hardLimitTokens: 100 });
+    await budget.record(subject, [{ model: 'gpt-4o', inputTokens: 100, outputTokens: 0 }]);
+
+    now = Date.UTC(2024, 5, 1);
+
+    await expect(budget.check(7)).resolves.toMatchObject({ level: 'ok', month: '2024-06', tokens: 0 });
+  });
+
+  it('should report the soft level once a soft limit is reached', async () => {
+    const budget = createBudget({ softLimitTokens: 100, hardLimitTokens: 1000 });
+
+    await budget.record(subject, [{ model: 'gpt-4o', inputTokens: 90, outputTokens: 10 }]);
+
+    await expect(budget.check(7)).resolves.toMatchObject({ level: 'soft', tokens: 100 });
+  });
+
+  it('should report the hard level once the cost limit is reached', async () => {
+    const budget = createBudget({ softLimitUsd: 1, hardLimitUsd: 2 });
+
+    await budget.record(subject, [{ model: 'gpt-4o', inputTokens: 0, outputTokens: 200_000 }]);
+
+    await expect(budget.check(7)).resolves.toMatchObject({ level: 'hard', costUsd: 2 });
+  });
+
+  it('should keep installations separate', async () => {
+    const budget = createBudget({ hardLimitTokens: 10 });
+
+    await budget.record(subject, [{ model: 'gpt-4o', inputTokens: 10, outputTokens: 0 }]);
+
+    await expect(budget.check(8)).resolves.toMatchObject({ level: 'ok' });
+  });
+
+  it('should allow requests when Redis is unavailable', async () => {
+    const budget = createBudget({ hardLimitTokens: 1 });
+    jest.spyOn(redis, 'hmget').mockRejectedValue(new Error('Connection refused'));
+
+    await expect(budget.check(7)).resolves.toMatchObject({ level: 'ok' });
+  });
+});
@@ -5,8 +5,9 @@
 
 import RedisMock from 'ioredis-mock';
 import pino from 'pino';
-import { CacheService } from '../services/cache';
-import { PRSummary, AuditLogEntry } from '../types';
+import { CacheService, InvalidAuditCursorError } from '../services/cache';
+import { metrics, summaryCacheLookups } from '../services/metrics';
+import { PRSummary, AuditLogEntry, BotConfig } from '../types';
 
 describe('CacheService', () => {
   let cacheService: CacheService;
@@ -45,6 +46,90 @@ describe('CacheService', () => {
 
       expect(retrieved).toBeNull();
     });
+
+    it('should expire summaries after the configured TTL', async () => {
+      const shortLived = new CacheService({ redis: redis as never, logger, summaryTtlSeconds: 600 });
+
+      await shortLived.cacheSummary('owner', 'repo', 1, 'hash', { what: 'What', why: 'Why', impact: 'Impact' });
+
+      await expect(redis.ttl('summary:owner:repo:1:hash')).resolves.toBe(600);
+    });
+
+    it('should count cache hits and misses', async () => {
+      metrics.reset();
+      await cacheService.cacheSummary('owner', 'repo', 1, 'abc123', { what: 'What', why: 'Why', impact: 'Impact' });
+
+      await cacheService.getSummary('owner', 'repo', 1, 'abc123');
+      await cacheService.getSummary('owner', 'repo', 1, 'def456');
+
+      expect(summaryCacheLookups.get({ result: 'hit' })).toBe(1);
+      expect(summaryCacheLookups.get({ result: 'miss' })).toBe(1);
+    });
+  });
+
+  describe('cacheRepoConfig and getRepoConfig', () => {
+    it('should cache and retrieve repository config by ref', async () => {
+      const botConfig: BotConfig = {
+        enabled: false,
+        autoSummarizeOn: ['opened'],
+        ignoreLabels: ['wip'],
+        maxDiffSize: 100,
+        output: 'check',
+        incremental: false,
+        includeFiles: [],
+        excludeFiles: ['docs/**'],
+      };
+
+      await cacheService.cacheRepoConfig('owner', 'repo', 'sha1', botConfig);
+
+      expect(await cacheService.getRepoConfig('owner', 'repo', 'sha1')).toEqual(botConfig);
+      expect(await cacheService.getRepoConfig('owner', 'repo', 'sha2')).toBeNull();
+    });
+  });
+
+  describe('recordHeadSha and isSuperseded', () => {
+    it('should report older SHAs as superseded', async () => {
+      await cacheService.recordHeadSha('owner', 'repo', 1, 'sha1', '2024-05-01T12:00:00Z');
+      await cacheService.recordHeadSha('owner', 'repo', 1, 'sha2', '2024-05-01T12:01:00Z');
+
+      expect(await cacheService.isSuperseded('owner', 'repo', 1, 'sha1')).toBe(true);
+      expect(await cacheService.isSuperseded('owner', 'repo', 1, 'sha2')).toBe(false);
+    });
+
+    it('should ignore head SHAs delivered out of order', async () => {
+      await cacheService.recordHeadSha('owner', 'repo', 1, 'sha2', '2024-05-01T12:01:00Z');
+      await cacheService.recordHeadSha('owner', 'repo', 1, 'sha1', '2024-05-01T12:00:00Z');
+
+      expect(await cacheService.isSuperseded('owner', 'repo', 1, 'sha2')).toBe(false);
+    });
+
+    it('should not treat untracked PRs as superseded', async () => {
+      expect(await cacheService.isSuperseded('owner', 'repo', 2, 'sha1')).toBe(false);
+    });
+  });
+
+  describe('recordLastSummary and getLastSummary', () => {
+    const record = {
+      sha: 'sha2',
+      overall: { what: 'What', why: 'Why', impact: 'Impact' },
+      overallSha: 'sha1',
+      incrementalRuns: 1,
+    };
+
+    it('should round-trip the last published summary', async () => {
+      await cacheService.recordLastSummary('owner', 'repo', 1, record);
+
+      expect(await cacheService.getLastSummary('owner', 'repo', 1)).toEqual(record);
+      expect(await cacheService.getLastSummary('owner', 'repo', 2)).toBeNull();
+    });
+
+    it('should be cleared with the PR summaries', async () => {
+      await cacheService.recordLastSummary('owner', 'repo', 1, record);
+
+      await cacheService.clearSummaries('owner', 'repo', 1);
+
+      expect(await cacheService.getLastSummary('owner', 'repo', 1)).toBeNull();
+    });
   });
 
   describe('logAudit', () => {
@@ -60,81 +145,107 @@ describe('CacheService', () => {
 
       await expect(cacheService.logAudit(entry)).resolves.not.toThrow();
     });
-  });
 
-  describe('checkRateLimit', () => {
-    it('should allow requests within rate limit', async () => {
-      const result = await cacheService.checkRateLimit('owner', 'repo', 10);
+    it('should forward entries to the audit sink even when Redis is unavailable', async () => {
+      const sink = { write: jest.fn() };
+      const forwarding = new CacheService({ redis: redis as never, logger, auditSink: sink as never });
+      const entry: AuditLogEntry = {
+        timestamp: Date.now(),
+        correlationId: 'corr-456',
+        actor: 'test-bot',
+        action: 'pr_summarized',
+        resource: 'owner/repo#1',
+      };
+      jest.spyOn(redis, 'multi').mockImplementation(() => {
+        throw new Error('Connection refused');
+      });
 
-      expect(result.isLimited).toBe(false);
-      expect(result.remaining).toBeGreaterThan(0);
+      await forwarding.logAudit(entry);
+
+      expect(sink.write).toHaveBeenCalledWith(entry);
     });
+  });
 
-    it('should enforce rate limit after threshold', async () => {
-      // Exhaust limit
-      for (let i = 0; i < 10; i++) {
-        await cacheService.checkRateLimit('owner', 'repo', 10);
-      }
+  describe('queryAuditLogs', () => {
+    const now = Date.now();
+    const entry = (overrides: Partial<AuditLogEntry>): AuditLogEntry => ({
+      timestamp: now,
+      correlationId: 'corr',
+      actor: 'test-bot',
+      action: 'pr_summarized',
+      resource: 'owner/repo#1',
+      ...overrides,
+    });
+
+    it('should retrieve audit logs within time range, newest first', async () => {
+      await cacheService.logAudit(entry({ timestamp: now - 5000, correlationId: 'too-old' }));
+      await cacheService.logAudit(entry({ timestamp: now - 1000, correlationId: 'corr-1' }));
+      await cacheService.logAudit(entry({ timestamp: now, correlationId: 'corr-2' }));
 
-      const result = await cacheService.checkRateLimit('owner', 'repo', 10);
+      const page = await cacheService.queryAuditLogs({ from: now - 2000, to: now + 1000 });
 
-      expect(result.isLimited).toBe(true);
-      expect(result.remaining).toBe(0);
+      expect(page.entries.map((e) => e.correlationId)).toEqual(['corr-2', 'corr-1']);
+      expect(page.nextCursor).toBeNull();
     });
 
-    it('should track rate limits per repository', async () => {
-      // Exhaust limit for repo1
-      for (let i = 0; i < 10; i++) {
-        await cacheService.checkRateLimit('owner', 'repo1', 10);
+    it('should page with cursors, including entries sharing a timestamp', async () => {
+      for (let i = 0; i < 5; i++) {
+        await cacheService.logAudit(entry({ timestamp: now - (i < 3 ? 0 : i), correlationId: `corr-${i}` }));
       }
 
-      // repo2 should still have capacity
-      const result = await cacheService.checkRateLimit('owner', 'repo2', 10);
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+      do {
+        const page = await cacheService.queryAuditLogs({ limit: 2, cursor });
+        seen.push(...page.entries.map((e) => e.correlationId));
+        cursor = page.nextCursor ?? undefined;
+        pages++;
+      } while (cursor);
 
-      expect(result.isLimited).toBe(false);
+      expect(seen.sort()).toEqual(['corr-0', 'corr-1', 'corr-2', 'corr-3', 'corr-4']);
+      expect(pages).toBe(3);
     });
-  });
 
-  describe('resetRateLimit', () => {
-    it('should reset rate limit for repository', async () => {
-      // Exhaust limit
-      for (let i = 0; i < 10; i++) {
-        await cacheService.checkRateLimit('owner', 'repo', 10);
-      }
+    it('should filter by repository, actor and action', async () => {
+      await cacheService.logAudit(entry({ correlationId: 'a', resource: 'owner/repo#1' }));
+      await cacheService.logAudit(entry({ correlationId: 'b', resource: 'owner/other#2' }));
+      await cacheService.logAudit(entry({ correlationId: 'c', resource: 'owner/repo', actor: 'admin' }));
+      await cacheService.logAudit(entry({ correlationId: 'd', resource: 'llm:openai:gpt-4o', action: 'breaker' }));
 
-      await cacheService.resetRateLimit('owner', 'repo');
+      const byRepo = await cacheService.queryAuditLogs({ repo: 'owner/repo' });
+      const byActor = await cacheService.queryAuditLogs({ actor: 'admin' });
+      const byAction = await cacheService.queryAuditLogs({ action: 'breaker' });
+      const combined = await cacheService.queryAuditLogs({ repo: 'owner/repo', actor: 'test-bot' });
 
-      const result = await cacheService.checkRateLimit('owner', 'repo', 10);
-      expect(result.isLimited).toBe(false);
+      expect(byRepo.entries.map((e) => e.correlationId).sort()).toEqual(['a', 'c']);
+      expect(byActor.entries.map((e) => e.correlationId)).toEqual(['c']);
+      expect(byAction.entries.map((e) => e.correlationId)).toEqual(['d']);
+      expect(combined.entries.map((e) => e.correlationId)).toEqual(['a']);
     });
-  });
 
-  describe('getAuditLogs', () => {
-    it('should retrieve audit logs within time range', async () => {
-      const now = Date.now();
+    it('should fill pages past entries that do not match the filters', async () => {
+      for (let i = 0; i < 4; i++) {
+        await cacheService.logAudit(entry({ timestamp: now - i, correlationId: `c${i}`, actor: i % 2 ? 'x' : 'y' }));
+      }
 
-      const entry1: AuditLogEntry = {
-        timestamp: now - 1000,
-        correlationId: 'corr-1',
-        actor: 'test-bot',
-        action: 'action1',
-        resource: 'owner/repo/1',
-      };
+      const page = await cacheService.queryAuditLogs({ repo: 'owner/repo', actor: 'x', limit: 2 });
 
-      const entry2: AuditLogEntry = {
-        timestamp: now,
-        correlationId: 'corr-2',
-        actor: 'test-bot',
-        action: 'action2',
-        resource: 'owner/repo/2',
-      };
+      expect(page.entries.map((e) => e.correlationId)).toEqual(['c1', 'c3']);
+    });
+
+    it('should exclude entries older than the retention period', async () => {
+      const shortLived = new CacheService({ redis: redis as never, logger, auditLogRetentionDays: 1 });
+      await shortLived.logAudit(entry({ timestamp: now - 2 * 24 * 60 * 60 * 1000, correlationId: 'expired' }));
+      await shortLived.logAudit(entry({ correlationId: 'kept' }));
 
-      await cacheService.logAudit(entry1);
-      await cacheService.logAudit(entry2);
+      const page = await shortLived.queryAuditLogs();
 
-      const logs = await cacheService.getAuditLogs(now - 2000, now + 1000);
+      expect(page.entries.map((e) => e.correlationId)).toEqual(['kept']);
+    });
 
-      expect(logs.length).toBeGreaterThanOrEqual(2);
+    it('should reject cursors it did not issue', async () => {
+      await expect(cacheService.queryAuditLogs({ cursor: 'not-a-cursor' })).rejects.toThrow(InvalidAuditCursorError);
     });
   });
 
@@ -0,0 +1,134 @@
+/**
+ * Circuit breaker tests
+ * Uses ioredis-mock to simulate Redis shared between instances
+ */
+
+import RedisMock from 'ioredis-mock';
+import pino from 'pino';
+import { CircuitBreaker, RedisBreakerStore, InMemoryBreakerStore } from '../services/circuitBreaker';
+import { CacheService } from '../services/cache';
+import { AuditLogEntry } from '../types';
+
+describe('CircuitBreaker', () => {
+  const KEY = 'openai:gpt-4o';
+  let redis: InstanceType<typeof RedisMock>;
+  let logger: pino.Logger;
+  let cache: CacheService;
+
+  const createBreaker = (client = redis): CircuitBreaker =>
+    new CircuitBreaker({
+      store: new RedisBreakerStore(client as never),
+      cache,
+      logger,
+      failureThreshold: 3,
+      cooldownSeconds: 30,
+    });
+
+  beforeEach(() => {
+    redis = new RedisMock();
+    logger = pino({ level: 'silent' });
+    cache = new CacheService({ redis: redis as never, logger });
+    jest.spyOn(cache, 'logAudit');
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  const recordFailures = async (breaker: CircuitBreaker, count: number): Promise<void> => {
+    for (let i = 0; i < count; i++) {
+      await breaker.recordFailure(KEY);
+    }
+  };
+
+  it('should stay closed below the failure threshold', async () => {
+    const breaker = createBreaker();
+
+    await recordFailures(breaker, 2);
+
+    await expect(breaker.canRequest(KEY)).resolves.toBe(true);
+  });
+
+  it('should reset consecutive failures on success', async () => {
+    const breaker = createBreaker();
+
+    await recordFailures(breaker, 2);
+    await breaker.recordSuccess(KEY);
+    await recordFailures(breaker, 2);
+
+    await expect(breaker.canRequest(KEY)).resolves.toBe(true);
+  });
+
+  it('should open after the threshold and share state between instances', async () => {
+    const other = new RedisMock();
+    try {
+      await recordFailures(createBreaker(), 3);
+
+      await expect(createBreaker(other).canRequest(KEY)).resolves.toBe(false);
+      await expect(createBreaker().canRequest('anthropic:claude-3-5-sonnet-20241022')).resolves.toBe(true);
+    } finally {
+      other.disconnect();
+    }
+  });
+
+  it('should allow a single half-open probe after the cool-down', async () => {
+    jest.useFakeTimers({ now: 1_000_000, doNotFake: ['nextTick', 'setImmediate'] });
+    const breaker = createBreaker();
+    await recordFailures(breaker, 3);
+
+    jest.setSystemTime(1_000_000 + 30_000);
+
+    await expect(breaker.canRequest(KEY)).resolves.toBe(true);
+    await expect(createBreaker().canRequest(KEY)).resolves.toBe(false);
+  });
+
+  it('should close when the probe succeeds and re-open when it fails', async () => {
+    jest.useFakeTimers({ now: 1_000_000, doNotFake: ['nextTick', 'setImmediate'] });
+    const breaker = createBreaker();
+    await recordFailures(breaker, 3);
+
+    jest.setSystemTime(1_000_000 + 30_000);
+    await breaker.canRequest(KEY);
+    await breaker.recordFailure(KEY);
+    await expect(breaker.canRequest(KEY)).resolves.toBe(false);
+
+    jest.setSystemTime(1_000_000 + 120_000);
+    await breaker.canRequest(KEY);
+    await breaker.recordSuccess(KEY);
+    await expect(breaker.canRequest(KEY)).resolves.toBe(true);
+  });
+
+  it('should write state transitions to the audit log', async () => {
+    jest.useFakeTimers({ now: 1_000_000, doNotFake: ['nextTick', 'setImmediate'] });
+    const breaker = createBreaker();
+    await recordFailures(breaker, 3);
+    jest.setSystemTime(1_000_000 + 30_000);
+    await breaker.canRequest(KEY);
+    await breaker.recordSuccess(KEY);
+
+    const transitions = (cache.logAudit as jest.Mock<Promise<void>, [AuditLogEntry]>).mock.calls.map(([entry]) => [
+      entry.action,
+      entry.resource,
+      entry.details?.from,
+      entry.details?.to,
+    ]);
+
+    expect(transitions).toEqual([
+      ['circuit_breaker_transition', `llm:${KEY}`, 'closed', 'open'],
+      ['circuit_breaker_transition', `llm:${KEY}`, 'open', 'half_open'],
+      ['circuit_breaker_transition', `llm:${KEY}`, 'half_open', 'closed'],
+    ]);
+  });
+
+  it('should allow requests when the store is unavailable', async () => {
+    const store = new InMemoryBreakerStore();
+    jest.spyOn(store, 'get').mockRejectedValue(new Error('Redis down'));
+    const breaker = new CircuitBreaker({ store, logger, failureThreshold: 1, cooldownSeconds: 30 });
+
+    await breaker.recordFailure(KEY);
+
+    await expect(breaker.canRequest(KEY)).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for comment command parsing
+ */
+
+import { parseCommand } from '../utils/commands';
+
+describe('parseCommand', () => {
+  it('should ignore comments that do not mention the bot', () => {
+    expect(parseCommand('Looks good to me')).toBeNull();
+    expect(parseCommand('')).toBeNull();
+  });
+
+  it('should ignore mentions of similarly named accounts', () => {
+    expect(parseCommand('@pr-summarizer-dev summarize')).toBeNull();
+  });
+
+  it('should parse summarize', () => {
+    expect(parseCommand('@pr-summarizer summarize')).toEqual({ name: 'summarize', force: false });
+  });
+
+  it('should parse summarize --force', () => {
+    expect(parseCommand('@pr-summarizer summarize --force')).toEqual({ name: 'summarize', force: true });
+  });
+
+  it('should parse regenerate', () => {
+    expect(parseCommand('@pr-summarizer regenerate')).toEqual({ name: 'regenerate' });
+  });
+
+  it('should parse explain with a file path', () => {
+    expect(parseCommand('@pr-summarizer explain src/index.ts')).toEqual({ name: 'explain', file: 'src/index.ts' });
+    expect(parseCommand('@pr-summarizer explain `src/index.ts`')).toEqual({ name: 'explain', file: 'src/index.ts' });
+  });
+
+  it('should treat a bare mention as help', () => {
+    expect(parseCommand('@pr-summarizer')).toEqual({ name: 'help' });
+    expect(parseCommand('@pr-summarizer help')).toEqual({ name: 'help' });
+  });
+
+  it('should find the command on any line and ignore case', () => {
+    const body = 'Thanks for the update!\n\n@PR-Summarizer Summarize\nmore text';
+
+    expect(parseCommand(body)).toEqual({ name: 'summarize', force: false });
+  });
+
+  it('should report unknown commands and bad arguments', () => {
+    expect(parseCommand('@pr-summarizer deploy now')).toEqual({ name: 'unknown', raw: 'deploy now' });
+    expect(parseCommand('@pr-summarizer summarize --fast')).toEqual({ name: 'unknown', raw: 'summarize --fast' });
+    expect(parseCommand('@pr-summarizer regenerate all')).toEqual({ name: 'unknown', raw: 'regenerate all' });
+    expect(parseCommand('@pr-summarizer explain')).toEqual({ name: 'unknown', raw: 'explain' });
+  });
+});
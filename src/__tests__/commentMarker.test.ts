@@ -0,0 +1,31 @@
+/**
+ * Unit tests for summary comment markers
+ */
+
+import { formatCommentMarker, parseCommentMarker, withCommentMarker, MARKER_VERSION } from '../utils/commentMarker';
+
+describe('comment marker', () => {
+  it('should render an invisible HTML comment with version and SHA', () => {
+    expect(formatCommentMarker('abc123')).toBe(`<!-- pr-summarizer:summary v=${MARKER_VERSION} sha=abc123 -->`);
+  });
+
+  it('should round-trip through a comment body', () => {
+    const body = withCommentMarker('## 🤖 AI-Generated PR Summary', 'deadbeef');
+
+    expect(body.endsWith('## 🤖 AI-Generated PR Summary')).toBe(true);
+    expect(parseCommentMarker(body)).toEqual({ version: MARKER_VERSION, sha: 'deadbeef' });
+  });
+
+  it('should tell notice markers from summary markers', () => {
+    const body = withCommentMarker('Rate limit reached', 'deadbeef', 'notice');
+
+    expect(parseCommentMarker(body, 'notice')).toEqual({ version: MARKER_VERSION, sha: 'deadbeef' });
+    expect(parseCommentMarker(body)).toBeNull();
+  });
+
+  it('should return null for bodies without a marker', () => {
+    expect(parseCommentMarker('Just a comment')).toBeNull();
+    expect(parseCommentMarker(undefined)).toBeNull();
+    expect(parseCommentMarker(null)).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Unit tests for concurrency utilities
+ */
+
+import { mapWithConcurrency } from '../utils/concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('should preserve input order', async () => {
+    const result = await mapWithConcurrency([30, 10, 20], 2, async (ms) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return ms * 2;
+    });
+
+    expect(result).toEqual([60, 20, 40]);
+  });
+
+  it('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should handle empty input', async () => {
+    await expect(mapWithConcurrency([], 3, () => Promise.resolve(1))).resolves.toEqual([]);
+  });
+
+  it('should reject when any call fails', async () => {
+    await expect(
+      mapWithConcurrency([1, 2], 2, (n) => (n === 2 ? Promise.reject(new Error('boom')) : Promise.resolve(n)))
+    ).rejects.toThrow('boom');
+  });
+});
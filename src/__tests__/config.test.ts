@@ -46,4 +46,199 @@ describe('Configuration', () => {
     process.env.OPENAI_API_KEY = originalOpenAIKey;
     process.env.ANTHROPIC_API_KEY = originalAnthropicKey;
   });
+
+  it('should load sliding-window rate limit quotas', () => {
+    process.env.RATE_LIMIT_AUTHOR_MAX_REQUESTS = '0';
+
+    const { rateLimiting } = loadConfig();
+
+    delete process.env.RATE_LIMIT_AUTHOR_MAX_REQUESTS;
+    expect(rateLimiting).toEqual({
+      windowSeconds: 3600,
+      maxRequests: 10,
+      installationMaxRequests: 100,
+      authorMaxRequests: 0,
+    });
+  });
+
+  it('should enable incremental summaries unless turned off', () => {
+    expect(loadConfig().processing).toMatchObject({ incrementalSummaries: true, incrementalRefreshAfter: 5 });
+
+    process.env.INCREMENTAL_SUMMARIES = 'false';
+    process.env.INCREMENTAL_REFRESH_AFTER = '2';
+    const { processing } = loadConfig();
+    delete process.env.INCREMENTAL_SUMMARIES;
+    delete process.env.INCREMENTAL_REFRESH_AFTER;
+
+    expect(processing).toMatchObject({ incrementalSummaries: false, incrementalRefreshAfter: 2 });
+  });
+
+  it('should load monthly budgets and price overrides', () => {
+    process.env.BUDGET_SOFT_LIMIT_USD = '50';
+    process.env.BUDGET_HARD_LIMIT_USD = '100';
+    process.env.BUDGET_ECONOMY_MODEL = 'gpt-4o-mini';
+    process.env.LLM_PRICING = '{"llama3.1":{"input":0,"output":0}}';
+
+    const { budget } = loadConfig();
+
+    delete process.env.BUDGET_SOFT_LIMIT_USD;
+    delete process.env.BUDGET_HARD_LIMIT_USD;
+    delete process.env.BUDGET_ECONOMY_MODEL;
+    delete process.env.LLM_PRICING;
+    expect(budget).toEqual({
+      softLimitTokens: 0,
+      hardLimitTokens: 0,
+      softLimitUsd: 50,
+      hardLimitUsd: 100,
+      economyModel: 'gpt-4o-mini',
+      pricing: { 'llama3.1': { input: 0, output: 0 } },
+    });
+  });
+
+  it('should reject malformed LLM_PRICING', () => {
+    process.env.LLM_PRICING = '{"gpt-4o":{"input":"cheap"}}';
+
+    expect(() => loadConfig()).toThrow('LLM_PRICING must map model names');
+
+    delete process.env.LLM_PRICING;
+  });
+
+  it('should load an HTTP audit sink with headers and batching', () => {
+    process.env.AUDIT_SINK_URL = 'https://siem.example.com/ingest';
+    process.env.AUDIT_SINK_HEADERS = '{"Authorization":"Splunk abc"}';
+    process.env.AUDIT_SINK_BATCH_SIZE = '10';
+
+    const { auditSink } = loadConfig();
+
+    delete process.env.AUDIT_SINK_URL;
+    delete process.env.AUDIT_SINK_HEADERS;
+    delete process.env.AUDIT_SINK_BATCH_SIZE;
+    expect(auditSink).toEqual({
+      file: undefined,
+      url: 'https://siem.example.com/ingest',
+      headers: { Authorization: 'Splunk abc' },
+      batchSize: 10,
+      flushIntervalSeconds: 5,
+      maxRetries: 3,
+    });
+  });
+
+  it('should leave the audit sink off by default and reject two destinations', () => {
+    expect(loadConfig().auditSink).toBeUndefined();
+
+    process.env.AUDIT_SINK_FILE = '/var/log/audit.jsonl';
+    process.env.AUDIT_SINK_URL = 'https://siem.example.com/ingest';
+    expect(() => loadConfig()).toThrow('Set only one of AUDIT_SINK_FILE and AUDIT_SINK_URL');
+
+    delete process.env.AUDIT_SINK_FILE;
+    delete process.env.AUDIT_SINK_URL;
+  });
+
+  describe('LLM provider settings', () => {
+    const keys = [
+      'LLM_PROVIDER',
+      'LLM_MODEL',
+      'LLM_BASE_URL',
+      'LLM_HEADERS',
+      'LLM_API_KEY',
+      'FAKE_LLM_FAILURE',
+      'FAKE_LLM_FAIL_TIMES',
+      'LLM_FALLBACKS',
+    ];
+    let original: Record<string, string | undefined>;
+
+    beforeEach(() => {
+      original = Object.fromEntries(keys.map((k) => [k, process.env[k]]));
+    });
+
+    afterEach(() => {
+      for (const key of keys) {
+        if (original[key] === undefined) {
+          delete process.env[key];
+        } else {
+          process.env[key] = original[key];
+        }
+      }
+    });
+
+    it('should load an OpenAI-compatible endpoint with headers', () => {
+      process.env.LLM_PROVIDER = 'openai-compatible';
+      process.env.LLM_MODEL = 'llama3';
+      process.env.LLM_BASE_URL = 'http://localhost:11434/v1';
+      process.env.LLM_HEADERS = '{"X-Team":"platform"}';
+
+      const config = loadConfig();
+
+      expect(config.llm).toMatchObject({
+        provider: 'openai-compatible',
+        model: 'llama3',
+        baseUrl: 'http://localhost:11434/v1',
+        headers: { 'X-Team': 'platform' },
+      });
+    });
+
+    it('should prefer LLM_API_KEY over the vendor-specific key', () => {
+      process.env.LLM_API_KEY = 'generic-key';
+
+      expect(loadConfig().llm.apiKey).toBe('generic-key');
+    });
+
+    it('should require a base URL and model for openai-compatible', () => {
+      process.env.LLM_PROVIDER = 'openai-compatible';
+      delete process.env.LLM_BASE_URL;
+
+      expect(() => loadConfig()).toThrow('LLM_BASE_URL and LLM_MODEL are required when LLM_PROVIDER=openai-compatible');
+    });
+
+    it('should load fake provider options without an API key', () => {
+      process.env.LLM_PROVIDER = 'fake';
+      process.env.FAKE_LLM_FAILURE = 'rate_limit';
+      process.env.FAKE_LLM_FAIL_TIMES = '2';
+
+      expect(loadConfig().llm.fake).toEqual({
+        fixturesDir: undefined,
+        latencyMs: 0,
+        failure: 'rate_limit',
+        failTimes: 2,
+      });
+    });
+
+    it('should reject unknown fake failure modes', () => {
+      process.env.LLM_PROVIDER = 'fake';
+      process.env.FAKE_LLM_FAILURE = 'explode';
+
+      expect(() => loadConfig()).toThrow('FAKE_LLM_FAILURE must be one of');
+    });
+
+    it('should load fallback providers with vendor API keys', () => {
+      process.env.ANTHROPIC_API_KEY = 'sk-ant-test';
+      process.env.LLM_FALLBACKS = JSON.stringify([
+        { provider: 'anthropic' },
+        { provider: 'openai-compatible', model: 'llama3', baseUrl: 'http://localhost:11434/v1' },
+      ]);
+
+      try {
+        expect(loadConfig().llm.fallbacks).toEqual([
+          { provider: 'anthropic', apiKey: 'sk-ant-test' },
+          { provider: 'openai-compatible', model: 'llama3', baseUrl: 'http://localhost:11434/v1', apiKey: undefined },
+        ]);
+      } finally {
+        delete process.env.ANTHROPIC_API_KEY;
+      }
+    });
+
+    it('should reject malformed LLM_FALLBACKS', () => {
+      process.env.LLM_FALLBACKS = '[{"model":"gpt-4o"}]';
+
+      expect(() => loadConfig()).toThrow('LLM_FALLBACKS must be a JSON array of objects with a provider name');
+    });
+
+    it('should reject LLM_HEADERS that are not a JSON object of strings', () => {
+      process.env.LLM_HEADERS = '["X-Team"]';
+      expect(() => loadConfig()).toThrow('LLM_HEADERS must be a JSON object');
+
+      process.env.LLM_HEADERS = '{not json';
+      expect(() => loadConfig()).toThrow('LLM_HEADERS must be valid JSON');
+    });
+  });
 });
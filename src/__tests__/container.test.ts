@@ -0,0 +1,90 @@
+/**
+ * Service container tests
+ * Uses ioredis-mock in place of the shared Redis connection
+ */
+
+import RedisMock from 'ioredis-mock';
+import pino from 'pino';
+import { loadConfig } from '../config';
+import { ServiceContainer } from '../services/container';
+
+jest.mock('@langchain/openai');
+
+describe('ServiceContainer', () => {
+  let redis: InstanceType<typeof RedisMock>;
+  let services: ServiceContainer;
+
+  beforeEach(() => {
+    redis = new RedisMock();
+    services = new ServiceContainer({ config: loadConfig(), logger: pino({ level: 'silent' }), redis: redis as never });
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should share the injected Redis client between services', async () => {
+    await services.cache.cacheSummary('owner', 'repo', 1, 'abc123', { what: 'What', why: 'Why', impact: 'Impact' });
+
+    expect(services.redis).toBe(redis);
+    await expect(redis.get('summary:owner:repo:1:abc123')).resolves.not.toBeNull();
+  });
+
+  it('should use the primary summarizer past the soft budget without an economy model', () => {
+    expect(services.summarizerFor('soft')).toBe(services.summarizer);
+  });
+
+  it('should switch to the economy model past the soft budget', () => {
+    process.env.BUDGET_ECONOMY_MODEL = 'gpt-4o-mini';
+    const economy = new ServiceContainer({ config: loadConfig(), logger: pino({ level: 'silent' }), redis: redis as never });
+    delete process.env.BUDGET_ECONOMY_MODEL;
+
+    expect(economy.summarizerFor('ok')).toBe(economy.summarizer);
+    expect(economy.summarizerFor('soft')).toBe(economy.economySummarizer);
+    expect(economy.economySummarizer).not.toBe(economy.summarizer);
+  });
+
+  it('should resolve the bot login once and retry a failed lookup', async () => {
+    const resolveBotLogin = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Bad credentials'))
+      .mockResolvedValue('pr-summarizer[bot]');
+    const withLogin = new ServiceContainer({
+      config: loadConfig(),
+      logger: pino({ level: 'silent' }),
+      redis: redis as never,
+      resolveBotLogin,
+    });
+
+    await expect(withLogin.getBotLogin()).resolves.toBeNull();
+    await expect(withLogin.getBotLogin()).resolves.toBe('pr-summarizer[bot]');
+    await expect(withLogin.getBotLogin()).resolves.toBe('pr-summarizer[bot]');
+    expect(resolveBotLogin).toHaveBeenCalledTimes(2);
+    await expect(services.getBotLogin()).resolves.toBeNull();
+  });
+
+  it('should wait for in-flight work before closing Redis', async () => {
+    const quit = jest.spyOn(redis, 'quit');
+    let finish: () => void = () => undefined;
+    const work = services.track(new Promise<void>((resolve) => (finish = resolve)));
+
+    const shutdown = services.shutdown();
+    await Promise.resolve();
+    expect(quit).not.toHaveBeenCalled();
+
+    finish();
+    await work;
+    await shutdown;
+    expect(quit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not wait on failed work or quit twice', async () => {
+    const quit = jest.spyOn(redis, 'quit');
+    await services.track(Promise.reject(new Error('boom'))).catch(() => undefined);
+
+    await Promise.all([services.shutdown(), services.shutdown()]);
+
+    expect(quit).toHaveBeenCalledTimes(1);
+  });
+});
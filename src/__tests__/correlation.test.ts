@@ -0,0 +1,126 @@
+/**
+ * Correlation ID tests
+ */
+
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import pino from 'pino';
+import {
+  correlatedFetch,
+  currentCorrelationId,
+  getCorrelationId,
+  runWithCorrelationId,
+  withCorrelationId,
+} from '../utils/correlation';
+import { providerRegistry } from '../services/llmProviders';
+
+describe('Correlation IDs', () => {
+  it('should expose the ID inside its scope only, across awaits', async () => {
+    const seen = await runWithCorrelationId('delivery-1', async () => {
+      await new Promise((resolve) => setImmediate(resolve));
+      return getCorrelationId();
+    });
+
+    expect(seen).toBe('delivery-1');
+    expect(getCorrelationId()).toBeUndefined();
+  });
+
+  it('should generate an ID when none is given', () => {
+    const id = runWithCorrelationId(undefined, () => getCorrelationId());
+
+    expect(id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(currentCorrelationId()).not.toBe(currentCorrelationId());
+  });
+
+  describe('withCorrelationId', () => {
+    let lines: Record<string, unknown>[];
+    let logger: pino.Logger;
+
+    beforeEach(() => {
+      lines = [];
+      const destination = { write: (line: string) => lines.push(JSON.parse(line) as Record<string, unknown>) };
+      logger = withCorrelationId(pino({ level: 'info' }, destination));
+    });
+
+    it('should add the current ID to every line, including child loggers', () => {
+      runWithCorrelationId('delivery-1', () => {
+        logger.info({ pr: 1 }, 'inside');
+        logger.child({ jobId: 'job-1' }).warn('child');
+      });
+      runWithCorrelationId('delivery-2', () => logger.error('next'));
+
+      expect(lines.map((l) => [l.msg, l.correlationId])).toEqual([
+        ['inside', 'delivery-1'],
+        ['child', 'delivery-1'],
+        ['next', 'delivery-2'],
+      ]);
+      expect(lines[0].pr).toBe(1);
+      expect(lines[1].jobId).toBe('job-1');
+    });
+
+    it('should log without an ID outside a scope', () => {
+      logger.info('outside');
+
+      expect(lines[0]).not.toHaveProperty('correlationId');
+    });
+  });
+
+  describe('correlatedFetch', () => {
+    let server: Server;
+    let url: string;
+    let headers: IncomingHttpHeaders[];
+
+    beforeEach(async () => {
+      headers = [];
+      server = createServer((req, res) => {
+        headers.push(req.headers);
+        res.end('{}');
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/chat/completions`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should send the current ID alongside the request headers', async () => {
+      await runWithCorrelationId('delivery-1', () =>
+        correlatedFetch(url, { method: 'POST', headers: { Authorization: 'Bearer key' }, body: '{}' })
+      );
+      await correlatedFetch(url);
+
+      expect(headers[0]['x-correlation-id']).toBe('delivery-1');
+      expect(headers[0].authorization).toBe('Bearer key');
+      expect(headers[1]).not.toHaveProperty('x-correlation-id');
+    });
+
+    it('should be used by the OpenAI-compatible client', async () => {
+      server.removeAllListeners('request');
+      server.on('request', (req, res) => {
+        headers.push(req.headers);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(
+          JSON.stringify({
+            id: 'chatcmpl-1',
+            object: 'chat.completion',
+            created: 0,
+            model: 'llama3',
+            choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+          })
+        );
+      });
+      const model = providerRegistry.create({
+        provider: 'openai-compatible',
+        model: 'llama3',
+        baseUrl: url.replace('/chat/completions', ''),
+      });
+
+      const completion = await runWithCorrelationId('delivery-2', () => model.invoke('Hello'));
+
+      expect(completion.content).toBe('ok');
+      expect(headers[0]['x-correlation-id']).toBe('delivery-2');
+    });
+  });
+});
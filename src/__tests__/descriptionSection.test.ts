@@ -0,0 +1,57 @@
+/**
+ * Unit tests for the managed PR description section
+ */
+
+import {
+  upsertDescriptionSection,
+  stripDescriptionSection,
+  DESCRIPTION_START,
+  DESCRIPTION_END,
+} from '../utils/descriptionSection';
+
+describe('description section', () => {
+  describe('upsertDescriptionSection', () => {
+    it('should append the section after the author text', () => {
+      const result = upsertDescriptionSection('Author text\n', 'Summary v1');
+
+      expect(result).toBe(`Author text\n\n${DESCRIPTION_START}\nSummary v1\n${DESCRIPTION_END}`);
+    });
+
+    it('should create the section in an empty description', () => {
+      expect(upsertDescriptionSection(null, 'Summary')).toBe(`${DESCRIPTION_START}\nSummary\n${DESCRIPTION_END}`);
+    });
+
+    it('should replace only the managed section', () => {
+      const body = `Intro\n\n${DESCRIPTION_START}\nSummary v1\n${DESCRIPTION_END}\n\nFooter written later`;
+
+      const result = upsertDescriptionSection(body, 'Summary v2');
+
+      expect(result).toBe(`Intro\n\n${DESCRIPTION_START}\nSummary v2\n${DESCRIPTION_END}\n\nFooter written later`);
+    });
+
+    it('should treat a missing end marker as running to the end of the body', () => {
+      const body = `Intro\n\n${DESCRIPTION_START}\nSummary v1 (end marker deleted)`;
+
+      const result = upsertDescriptionSection(body, 'Summary v2');
+
+      expect(result).toBe(`Intro\n\n${DESCRIPTION_START}\nSummary v2\n${DESCRIPTION_END}`);
+    });
+  });
+
+  describe('stripDescriptionSection', () => {
+    it('should remove the managed section and keep author text', () => {
+      const body = `Intro\n\n${DESCRIPTION_START}\nOld summary\n${DESCRIPTION_END}\n\nFooter`;
+
+      expect(stripDescriptionSection(body)).toBe('Intro\n\n\n\nFooter');
+    });
+
+    it('should leave descriptions without a section untouched', () => {
+      expect(stripDescriptionSection('Plain description')).toBe('Plain description');
+      expect(stripDescriptionSection(null)).toBe('');
+    });
+
+    it('should return an empty string when only the section exists', () => {
+      expect(stripDescriptionSection(upsertDescriptionSection('', 'Summary'))).toBe('');
+    });
+  });
+});
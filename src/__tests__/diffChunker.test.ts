@@ -0,0 +1,127 @@
+/**
+ * Unit tests for diff chunking
+ */
+
+import { chunkDiff, formatFileHeader } from '../utils/diffChunker';
+
+describe('chunkDiff', () => {
+  const hunk = (n: number, size: number): string => `@@ -${n},1 +${n},1 @@\n+${'x'.repeat(size)}`;
+
+  it('should pack small files into a single chunk', () => {
+    const result = chunkDiff(
+      [
+        { filename: 'a.ts', patch: hunk(1, 10) },
+        { filename: 'b.ts', patch: hunk(1, 10) },
+      ],
+      1000,
+      10
+    );
+
+    expect(result.chunks).toHaveLength(1);
+    expect(result.chunks[0].files).toEqual(['a.ts', 'b.ts']);
+    expect(result.chunks[0].diff).toContain('--- a.ts');
+    expect(result.chunks[0].diff).toContain('--- b.ts');
+    expect(result.coveredFiles).toEqual(['a.ts', 'b.ts']);
+    expect(result.skippedFiles).toEqual([]);
+  });
+
+  it('should start a new chunk when the limit would be exceeded', () => {
+    const result = chunkDiff(
+      [
+        { filename: 'a.ts', patch: hunk(1, 300) },
+        { filename: 'b.ts', patch: hunk(1, 300) },
+      ],
+      500,
+      10
+    );
+
+    expect(result.chunks.map((c) => c.files)).toEqual([['a.ts'], ['b.ts']]);
+    expect(result.chunks.every((c) => c.diff.length <= 500)).toBe(true);
+  });
+
+  it('should split oversized files on hunk boundaries', () => {
+    const patch = [hunk(1, 200), hunk(10, 200), hunk(20, 200)].join('\n');
+    const result = chunkDiff([{ filename: 'big.ts', patch }], 500, 10);
+
+    expect(result.chunks.length).toBeGreaterThan(1);
+    expect(result.chunks.every((c) => c.diff.startsWith('--- big.ts\n@@'))).toBe(true);
+    expect(result.chunks.every((c) => c.diff.length <= 500)).toBe(true);
+    expect(result.coveredFiles).toEqual(['big.ts']);
+  });
+
+  it('should truncate a single hunk larger than the chunk size', () => {
+    const result = chunkDiff([{ filename: 'huge.ts', patch: hunk(1, 2000) }], 500, 10);
+
+    expect(result.chunks).toHaveLength(1);
+    expect(result.chunks[0].diff.length).toBeLessThanOrEqual(500);
+    expect(result.chunks[0].diff).toContain('(hunk truncated)');
+  });
+
+  it('should skip files without a patch', () => {
+    const result = chunkDiff(
+      [
+        { filename: 'logo.png' },
+        { filename: 'a.ts', patch: hunk(1, 10) },
+      ],
+      1000,
+      10
+    );
+
+    expect(result.coveredFiles).toEqual(['a.ts']);
+    expect(result.skippedFiles).toEqual(['logo.png']);
+  });
+
+  it('should skip files beyond the chunk limit', () => {
+    const result = chunkDiff(
+      [
+        { filename: 'a.ts', patch: hunk(1, 300) },
+        { filename: 'b.ts', patch: hunk(1, 300) },
+        { filename: 'c.ts', patch: hunk(1, 300) },
+      ],
+      500,
+      2
+    );
+
+    expect(result.chunks).toHaveLength(2);
+    expect(result.coveredFiles).toEqual(['a.ts', 'b.ts']);
+    expect(result.skippedFiles).toEqual(['c.ts']);
+  });
+
+  it('should cover binary files, pure renames and empty new files, which have no patch to show', () => {
+    const result = chunkDiff(
+      [
+        { filename: 'logo.png', status: 'added', binary: true },
+        { filename: 'src/new.ts', status: 'renamed', previousFilename: 'src/old.ts', additions: 0, deletions: 0 },
+        { filename: 'data/.gitkeep', status: 'added', additions: 0, deletions: 0 },
+      ],
+      1000,
+      10
+    );
+
+    expect(result.chunks[0].diff).toBe(
+      '--- logo.png (binary, added)\n(binary file - no text diff)\n\n' +
+        '--- src/new.ts (renamed from src/old.ts)\n(renamed without changes)\n\n' +
+        '--- data/.gitkeep (added)\n(empty file)'
+    );
+    expect(result.coveredFiles).toEqual(['logo.png', 'src/new.ts', 'data/.gitkeep']);
+    expect(result.skippedFiles).toEqual([]);
+  });
+
+  it('should still name files whose diff is unavailable, with their line counts', () => {
+    const result = chunkDiff([{ filename: 'db/seed.sql', status: 'added', additions: 2000, deletions: 0 }], 1000, 10);
+
+    expect(result.chunks[0].diff).toBe('--- db/seed.sql (added)\n(diff not available: +2000 / -0 lines)');
+    expect(result.coveredFiles).toEqual([]);
+    expect(result.skippedFiles).toEqual(['db/seed.sql']);
+  });
+});
+
+describe('formatFileHeader', () => {
+  it('should only add a status for files that were not simply modified', () => {
+    expect(formatFileHeader({ filename: 'a.ts', status: 'modified' })).toBe('--- a.ts');
+    expect(formatFileHeader({ filename: 'a.ts', status: 'removed' })).toBe('--- a.ts (removed)');
+    expect(formatFileHeader({ filename: 'b.ts', status: 'copied', previousFilename: 'a.ts' })).toBe(
+      '--- b.ts (copied from a.ts)'
+    );
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Fake LLM provider tests
+ * Exercises the summarizer end to end without network access
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import pino from 'pino';
+import { FakeChatModel, hashPromptDiff } from '../services/fakeLlm';
+import { SummarizerService } from '../services/summarizer';
+import { FakeLLMOptions, PRContext } from '../types';
+
+describe('FakeChatModel', () => {
+  const logger = pino({ level: 'silent' });
+
+  const context: PRContext = {
+    owner: 'test-owner',
+    repo: 'test-repo',
+    pullNumber: 7,
+    sha: 'abc123',
+    diff: '--- src/auth/login.ts\n@@ -1 +1 @@\n-old\n+new\n\n--- README.md\n@@ -1 +1 @@\n-a\n+b',
+    commits: [
+      { sha: 'a1', message: 'feat: add login throttling' },
+      { sha: 'b2', message: 'docs: mention throttling' },
+    ],
+    description: 'Throttle repeated login attempts',
+  };
+
+  const createSummarizer = (fake?: FakeLLMOptions): SummarizerService =>
+    new SummarizerService({ provider: 'fake', fake, logger });
+
+  it('should derive a summary from file names and commit messages', async () => {
+    const result = await createSummarizer().summarize(context);
+
+    expect(result.model).toBe('fake-llm');
+    expect(result.summary.what).toBe('Changes 2 file(s): src/auth/login.ts, README.md.');
+    expect(result.summary.why).toBe('feat: add login throttling; docs: mention throttling');
+    expect(result.summary.impact).toBe('Affects src, (root).');
+    expect(result.tokensUsed).toBeGreaterThan(0);
+  });
+
+  it('should be deterministic for the same prompt', async () => {
+    const first = await createSummarizer().summarize(context);
+    const second = await createSummarizer().summarize(context);
+
+    expect(second).toEqual(first);
+  });
+
+  it('should return fixture responses keyed by the diff hash', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'fake-llm-'));
+    const key = hashPromptDiff(`\nDiff (truncated):\n${context.diff}\n\nProvide a JSON response`);
+    writeFileSync(
+      path.join(dir, `${key}.json`),
+      JSON.stringify({ what: 'From fixture', why: 'Because', impact: 'None' })
+    );
+
+    try {
+      const result = await createSummarizer({ fixturesDir: dir }).summarize(context);
+
+      expect(result.summary.what).toBe('From fixture');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should merge partial summaries for chunked diffs', async () => {
+    const files = ['a.ts', 'b.ts'].map((filename) => ({
+      filename,
+      patch: `@@ -1,1 +1,1 @@\n${'+line of code\n'.repeat(400)}`,
+    }));
+    const diff = files.map((f) => `--- ${f.filename}\n${f.patch}`).join('\n\n');
+
+    const result = await createSummarizer().summarize({ ...context, diff, files });
+
+    expect(result.summary.what).toBe('Changes 1 file(s): a.ts. Changes 1 file(s): b.ts.');
+    expect(result.summary.notes).toBe('Merged from 2 partial summaries by the fake LLM provider.');
+    expect(result.summary.coverage?.filesCovered).toBe(2);
+  });
+
+  it('should explain a single file', async () => {
+    const result = await createSummarizer().explainFile(context, 'src/auth/login.ts', '@@ -1 +1 @@\n-old\n+new');
+
+    expect(result.explanation).toContain('Fake explanation of the changes to `src/auth/login.ts`');
+  });
+
+  it('should surface malformed responses through response parsing', async () => {
+    await expect(createSummarizer({ failure: 'malformed' }).summarize(context)).rejects.toThrow(
+      'Invalid JSON response from LLM'
+    );
+  });
+
+  it('should recover after injected rate limit failures', async () => {
+    const result = await createSummarizer({ failure: 'rate_limit', failTimes: 1 }).summarize(context);
+
+    expect(result.summary.what).toContain('Changes 2 file(s)');
+  });
+
+  it('should inject timeouts shaped like network errors', async () => {
+    const model = new FakeChatModel('fake-llm', { failure: 'timeout' });
+
+    await expect(model.invoke('prompt')).rejects.toMatchObject({ code: 'ETIMEDOUT' });
+  });
+
+  it('should delay responses by the configured latency', async () => {
+    jest.useFakeTimers();
+    try {
+      const model = new FakeChatModel('fake-llm', { latencyMs: 500 });
+      const settled = jest.fn();
+
+      const pending = model.invoke('prompt').then(settled);
+      await jest.advanceTimersByTimeAsync(499);
+      expect(settled).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      await pending;
+      expect(settled).toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
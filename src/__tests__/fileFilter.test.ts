@@ -0,0 +1,108 @@
+/**
+ * Unit tests for changed file classification
+ */
+
+import { classifyFiles, FileFilterRules, globToRegExp } from '../utils/fileFilter';
+
+describe('fileFilter', () => {
+  const noRules: FileFilterRules = { include: [], exclude: [] };
+  const files = (...names: string[]): Array<{ filename: string }> => names.map((filename) => ({ filename }));
+
+  describe('globToRegExp', () => {
+    it('should match file name globs at any depth', () => {
+      const pattern = globToRegExp('*.min.js');
+
+      expect(pattern.test('app.min.js')).toBe(true);
+      expect(pattern.test('public/js/app.min.js')).toBe(true);
+      expect(pattern.test('app.min.jsx')).toBe(false);
+    });
+
+    it('should anchor globs containing a slash at the root', () => {
+      const pattern = globToRegExp('src/*.ts');
+
+      expect(pattern.test('src/index.ts')).toBe(true);
+      expect(pattern.test('src/lib/index.ts')).toBe(false);
+      expect(pattern.test('packages/src/index.ts')).toBe(false);
+    });
+
+    it('should match whole directories with ** and trailing slashes', () => {
+      expect(globToRegExp('docs/**').test('docs/a/b.md')).toBe(true);
+      expect(globToRegExp('**/generated/**').test('generated/a.ts')).toBe(true);
+      expect(globToRegExp('**/generated/**').test('pkg/generated/a.ts')).toBe(true);
+      expect(globToRegExp('fixtures/').test('test/fixtures/a.json')).toBe(true);
+      expect(globToRegExp('fixtures/').test('fixtures.json')).toBe(false);
+    });
+  });
+
+  describe('classifyFiles', () => {
+    it('should filter lockfiles, build output, snapshots and vendored code', () => {
+      const result = classifyFiles(
+        files(
+          'src/index.ts',
+          'package-lock.json',
+          'web/yarn.lock',
+          'dist/index.js',
+          'packages/ui/dist/ui.js',
+          'public/app.min.js',
+          'src/__snapshots__/app.test.ts.snap',
+          'api/v1/service.pb.go',
+          'vendor/github.com/lib/x.go'
+        ),
+        noRules
+      );
+
+      expect(result.analysed).toEqual([{ filename: 'src/index.ts' }]);
+      expect(result.filtered).toEqual([
+        { filename: 'package-lock.json', reason: 'lockfile' },
+        { filename: 'web/yarn.lock', reason: 'lockfile' },
+        { filename: 'dist/index.js', reason: 'generated' },
+        { filename: 'packages/ui/dist/ui.js', reason: 'generated' },
+        { filename: 'public/app.min.js', reason: 'generated' },
+        { filename: 'src/__snapshots__/app.test.ts.snap', reason: 'generated' },
+        { filename: 'api/v1/service.pb.go', reason: 'generated' },
+        { filename: 'vendor/github.com/lib/x.go', reason: 'vendored' },
+      ]);
+    });
+
+    it('should honour linguist attributes in .gitattributes', () => {
+      const gitattributes = [
+        '# generated clients',
+        'src/client/** linguist-generated=true',
+        'third_party/** linguist-vendored',
+        'dist/** -linguist-generated',
+      ].join('\n');
+
+      const result = classifyFiles(
+        files('src/client/api.ts', 'third_party/lib.c', 'dist/cli.js', 'src/index.ts'),
+        { ...noRules, gitattributes }
+      );
+
+      expect(result.analysed.map((f) => f.filename)).toEqual(['dist/cli.js', 'src/index.ts']);
+      expect(result.filtered).toEqual([
+        { filename: 'src/client/api.ts', reason: 'generated' },
+        { filename: 'third_party/lib.c', reason: 'vendored' },
+      ]);
+    });
+
+    it('should let the last matching .gitattributes line win', () => {
+      const gitattributes = '*.ts linguist-generated\nsrc/keep.ts linguist-generated=false\n';
+
+      const result = classifyFiles(files('src/gen.ts', 'src/keep.ts'), { ...noRules, gitattributes });
+
+      expect(result.analysed).toEqual([{ filename: 'src/keep.ts' }]);
+    });
+
+    it('should apply repo exclude globs and let include globs override every rule', () => {
+      const result = classifyFiles(files('docs/guide.md', 'docs/api.md', 'dist/index.d.ts', 'yarn.lock'), {
+        include: ['docs/api.md', 'dist/*.d.ts'],
+        exclude: ['docs/**'],
+      });
+
+      expect(result.analysed.map((f) => f.filename)).toEqual(['docs/api.md', 'dist/index.d.ts']);
+      expect(result.filtered).toEqual([
+        { filename: 'docs/guide.md', reason: 'excluded' },
+        { filename: 'yarn.lock', reason: 'lockfile' },
+      ]);
+    });
+  });
+});
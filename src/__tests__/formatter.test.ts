@@ -2,7 +2,21 @@
  * Unit tests for formatter utilities
  */
 
-import { formatSummaryAsMarkdown, formatNeedsInputMessage, truncate, escapeMarkdown } from '../utils/formatter';
+import {
+  formatSummaryAsMarkdown,
+  formatNeedsInputMessage,
+  formatInvalidConfigMessage,
+  formatCommandHelpMessage,
+  formatPermissionDeniedMessage,
+  formatFileExplanation,
+  formatFileNotInDiffMessage,
+  formatRateLimitedMessage,
+  formatExplainRateLimitedMessage,
+  formatBudgetExceededMessage,
+  formatExplainBudgetExceededMessage,
+  truncate,
+  escapeMarkdown,
+} from '../utils/formatter';
 import { PRSummary } from '../types';
 
 describe('formatter utilities', () => {
@@ -58,6 +72,113 @@ describe('formatter utilities', () => {
     });
   });
 
+  describe('coverage', () => {
+    const summary: PRSummary = { what: 'What', why: 'Why', impact: 'Impact' };
+
+    it('should state how many files were covered', () => {
+      const result = formatSummaryAsMarkdown({
+        ...summary,
+        coverage: { filesTotal: 3, filesCovered: 3, skippedFiles: [] },
+      });
+
+      expect(result).toContain('Summary covers 3 of 3 changed files');
+      expect(result).not.toContain('Not analysed');
+    });
+
+    it('should list skipped files', () => {
+      const result = formatSummaryAsMarkdown({
+        ...summary,
+        coverage: { filesTotal: 3, filesCovered: 1, skippedFiles: ['logo.png', 'dist/app.js'] },
+      });
+
+      expect(result).toContain('Summary covers 1 of 3 changed files');
+      expect(result).toContain('Not analysed (2)');
+      expect(result).toContain('- `logo.png`');
+      expect(result).toContain('- `dist/app.js`');
+    });
+
+    it('should list filtered files with the reason', () => {
+      const result = formatSummaryAsMarkdown({
+        ...summary,
+        coverage: {
+          filesTotal: 3,
+          filesCovered: 1,
+          skippedFiles: ['logo.png'],
+          filteredFiles: [{ filename: 'package-lock.json', reason: 'lockfile' }],
+        },
+      });
+
+      expect(result).toContain('Not analysed (2)');
+      expect(result).toContain('- `logo.png`\n- `package-lock.json` (lockfile)');
+    });
+
+    it('should warn when GitHub listed only part of the PR', () => {
+      const result = formatSummaryAsMarkdown({
+        ...summary,
+        coverage: {
+          filesTotal: 3200,
+          filesCovered: 3000,
+          skippedFiles: [],
+          partial: { files: 3000, totalFiles: 3200, commits: 250, totalCommits: 310 },
+        },
+      });
+
+      expect(result).toContain('Summary covers 3000 of 3200 changed files');
+      expect(result).toContain('⚠️ _Partial data:');
+      expect(result).toContain('based on 3000 of 3200 files and 250 of 310 commits._');
+      expect(result).not.toContain('Not analysed');
+    });
+
+    it('should omit coverage when not provided', () => {
+      expect(formatSummaryAsMarkdown(summary)).not.toContain('Summary covers');
+    });
+  });
+
+  describe('fallback footer', () => {
+    const summary: PRSummary = { what: 'What', why: 'Why', impact: 'Impact' };
+
+    it('should note when a fallback model produced the summary', () => {
+      const result = formatSummaryAsMarkdown({
+        ...summary,
+        fallback: { model: 'claude-3-5-sonnet-20241022', primaryModel: 'gpt-4o' },
+      });
+
+      expect(result).toContain(
+        '_Generated by fallback model `claude-3-5-sonnet-20241022` because `gpt-4o` was unavailable._'
+      );
+    });
+
+    it('should not mention fallbacks for the primary model', () => {
+      expect(formatSummaryAsMarkdown(summary)).not.toContain('fallback');
+    });
+  });
+
+  describe('since last review', () => {
+    const summary: PRSummary = { what: 'Overall what', why: 'Why', impact: 'Overall impact' };
+
+    it('should show the new commits before the overall summary', () => {
+      const result = formatSummaryAsMarkdown({
+        ...summary,
+        sinceLastReview: {
+          fromSha: 'abc1234567',
+          toSha: 'def7654321',
+          commitCount: 2,
+          what: 'Added retries',
+          impact: 'Fewer failed syncs',
+        },
+      });
+
+      expect(result).toContain('### 🔄 Since Last Review\n_2 new commits (`abc1234`..`def7654`)_');
+      expect(result).toContain('**Impact:** Fewer failed syncs');
+      expect(result.indexOf('Added retries')).toBeLessThan(result.indexOf('### What Changed'));
+      expect(result).toContain('Overall what');
+    });
+
+    it('should omit the section for full summaries', () => {
+      expect(formatSummaryAsMarkdown(summary)).not.toContain('Since Last Review');
+    });
+  });
+
   describe('formatNeedsInputMessage', () => {
     it('should return user-friendly message', () => {
       const result = formatNeedsInputMessage();
@@ -67,6 +188,94 @@ describe('formatter utilities', () => {
       expect(result).toContain('commit messages');
       expect(result).toContain('PR description');
     });
+
+    it('should point users at the summarize command', () => {
+      expect(formatNeedsInputMessage()).toContain('`@pr-summarizer summarize`');
+    });
+  });
+
+  describe('command replies', () => {
+    it('should list supported commands in help', () => {
+      const result = formatCommandHelpMessage();
+
+      expect(result).toContain('`@pr-summarizer summarize`');
+      expect(result).toContain('`@pr-summarizer summarize --force`');
+      expect(result).toContain('`@pr-summarizer regenerate`');
+      expect(result).toContain('`@pr-summarizer explain <file>`');
+      expect(result).not.toContain('Unknown command');
+    });
+
+    it('should echo unknown commands in help', () => {
+      expect(formatCommandHelpMessage('deploy now')).toContain('Unknown command `deploy now`');
+    });
+
+    it('should mention the user when permission is denied', () => {
+      expect(formatPermissionDeniedMessage('octocat')).toContain('@octocat');
+    });
+
+    it('should format file explanations', () => {
+      const result = formatFileExplanation({
+        filename: 'src/index.ts',
+        explanation: 'Registers a new handler.',
+        tokensUsed: 10,
+        model: 'gpt-4o',
+        usage: [{ model: 'gpt-4o', inputTokens: 8, outputTokens: 2 }],
+      });
+
+      expect(result).toContain('Changes in `src/index.ts`');
+      expect(result).toContain('Registers a new handler.');
+    });
+
+    it('should explain when a file is not in the diff', () => {
+      expect(formatFileNotInDiffMessage('missing.ts')).toContain('`missing.ts` is not among the files changed');
+    });
+  });
+
+  describe('formatInvalidConfigMessage', () => {
+    it('should name the config file and each offending key', () => {
+      const result = formatInvalidConfigMessage('owner/repo/.github/pr-summarizer.yml', [
+        { key: 'maxDiffSize', message: '"maxDiffSize" must be a positive number' },
+        { key: 'enabled', message: '"enabled" must be a boolean' },
+      ]);
+
+      expect(result).toContain('invalid configuration in `owner/repo/.github/pr-summarizer.yml`');
+      expect(result).toContain('- `maxDiffSize`: "maxDiffSize" must be a positive number');
+      expect(result).toContain('- `enabled`: "enabled" must be a boolean');
+    });
+  });
+
+  describe('rate limit notices', () => {
+    const limit = { scope: 'author' as const, limit: 20, remaining: 0, reset: Date.UTC(2024, 4, 1, 13), isLimited: true };
+
+    it('should name the exhausted quota and when it frees up', () => {
+      const result = formatRateLimitedMessage(limit);
+
+      expect(result).toContain('Summary skipped - rate limit reached');
+      expect(result).toContain('limit of 20 requests for this PR author');
+      expect(result).toContain('2024-05-01T13:00:00.000Z');
+      expect(result).toContain('`@pr-summarizer summarize`');
+    });
+
+    it('should reply briefly to rate-limited explain commands', () => {
+      expect(formatExplainRateLimitedMessage({ ...limit, scope: 'repo' })).toContain(
+        'limit of 20 requests for this repository has been used up'
+      );
+    });
+  });
+
+  describe('budget notices', () => {
+    const budget = { level: 'hard' as const, month: '2024-05', tokens: 1234567, costUsd: 100.5 };
+
+    it('should report the month and spend when the budget is exhausted', () => {
+      const result = formatBudgetExceededMessage(budget);
+
+      expect(result).toContain('monthly LLM budget reached');
+      expect(result).toContain('1,234,567 tokens (about $100.50) in 2024-05');
+    });
+
+    it('should reply briefly to explain commands over budget', () => {
+      expect(formatExplainBudgetExceededMessage(budget)).toContain('LLM budget for 2024-05');
+    });
   });
 
   describe('truncate', () => {
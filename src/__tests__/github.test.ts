@@ -4,28 +4,68 @@
  */
 
 import pino from 'pino';
-import { GitHubService } from '../services/github';
+import { GitHubService, resolveBotLogin } from '../services/github';
+import { githubApiRetries } from '../services/metrics';
+import { pagesOf } from './helpers';
 
 // Create mock Octokit instance
 const createMockOctokit = (): {
+  repos: {
+    getContent: jest.Mock;
+    getCollaboratorPermissionLevel: jest.Mock;
+    compareCommitsWithBasehead: jest.Mock;
+  };
   pulls: {
+    get: jest.Mock;
+    update: jest.Mock;
     listFiles: jest.Mock;
     listCommits: jest.Mock;
   };
+  reactions: {
+    createForIssueComment: jest.Mock;
+  };
   issues: {
     createComment: jest.Mock;
     updateComment: jest.Mock;
-    listComments: jest.Mock;
+  };
+  checks: {
+    create: jest.Mock;
+    update: jest.Mock;
+  };
+  apps: {
+    getAuthenticated: jest.Mock;
+  };
+  paginate: {
+    iterator: jest.Mock;
   };
 } => ({
+  repos: {
+    getContent: jest.fn(),
+    getCollaboratorPermissionLevel: jest.fn(),
+    compareCommitsWithBasehead: jest.fn(),
+  },
   pulls: {
+    get: jest.fn(),
+    update: jest.fn(),
     listFiles: jest.fn(),
     listCommits: jest.fn(),
   },
+  reactions: {
+    createForIssueComment: jest.fn(),
+  },
   issues: {
     createComment: jest.fn(),
     updateComment: jest.fn(),
-    listComments: jest.fn(),
+  },
+  checks: {
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  apps: {
+    getAuthenticated: jest.fn(),
+  },
+  paginate: {
+    iterator: jest.fn(),
   },
 });
 
@@ -42,9 +82,14 @@ describe('GitHubService', () => {
   });
 
   describe('fetchDiff', () => {
+    const pullRequest = (totals: Record<string, number> = {}): { data: Record<string, unknown> } => ({
+      data: { additions: 12, deletions: 6, changed_files: 2, commits: 2, head: { sha: 'head123' }, ...totals },
+    });
+
     it('should fetch PR diff with file changes', async () => {
-      mockOctokit.pulls.listFiles.mockResolvedValue({
-        data: [
+      mockOctokit.pulls.get.mockResolvedValue(pullRequest());
+      mockOctokit.paginate.iterator.mockReturnValue(
+        pagesOf([
           {
             filename: 'src/index.ts',
             status: 'modified',
@@ -61,69 +106,210 @@ describe('GitHubService', () => {
             changes: 3,
             patch: '@@ -1,1 +1,2 @@\n-old readme\n+new readme',
           },
-        ],
-      });
+        ])
+      );
 
       const diff = await githubService.fetchDiff('test-owner', 'test-repo', 123);
 
+      expect(mockOctokit.paginate.iterator).toHaveBeenCalledWith(
+        'GET /repos/{owner}/{repo}/pulls/{pull_number}/files',
+        { owner: 'test-owner', repo: 'test-repo', pull_number: 123, per_page: 100 }
+      );
       expect(diff.additions).toBe(12);
       expect(diff.deletions).toBe(6);
       expect(diff.changes).toBe(18);
       expect(diff.files).toHaveLength(2);
       expect(diff.files[0].filename).toBe('src/index.ts');
       expect(diff.files[0].patch).toContain('new line');
+      expect(diff.partial).toBe(false);
+    });
+
+    it('should collect files from every page and use the PR totals', async () => {
+      const file = (n: number): Record<string, unknown> => ({
+        filename: `src/file${n}.ts`,
+        status: 'added',
+        additions: 1,
+        deletions: 0,
+        changes: 1,
+        patch: '@@ -0,0 +1 @@\n+x',
+      });
+      mockOctokit.pulls.get.mockResolvedValue(pullRequest({ additions: 900, deletions: 40, changed_files: 3 }));
+      mockOctokit.paginate.iterator.mockReturnValue(pagesOf([file(1), file(2)], [file(3)]));
+
+      const diff = await githubService.fetchDiff('test-owner', 'test-repo', 123);
+
+      expect(diff.files.map((f) => f.filename)).toEqual(['src/file1.ts', 'src/file2.ts', 'src/file3.ts']);
+      expect(diff).toMatchObject({ additions: 900, deletions: 40, totalFiles: 3, totalCommits: 2, partial: false });
+    });
+
+    it('should flag partial data when GitHub caps the file or commit listing', async () => {
+      const file = { filename: 'src/a.ts', status: 'modified', additions: 1, deletions: 1, changes: 2, patch: '@@' };
+
+      mockOctokit.pulls.get.mockResolvedValue(pullRequest({ changed_files: 3500 }));
+      mockOctokit.paginate.iterator.mockReturnValue(pagesOf([file]));
+      const manyFiles = await githubService.fetchDiff('test-owner', 'test-repo', 123);
+
+      mockOctokit.pulls.get.mockResolvedValue(pullRequest({ changed_files: 1, commits: 320 }));
+      mockOctokit.paginate.iterator.mockReturnValue(pagesOf([file]));
+      const manyCommits = await githubService.fetchDiff('test-owner', 'test-repo', 123);
+
+      expect(manyFiles).toMatchObject({ totalFiles: 3500, partial: true });
+      expect(manyCommits).toMatchObject({ totalFiles: 1, totalCommits: 320, partial: true });
+    });
+
+    it('should fill patches GitHub left out from the raw diff, marking renames and binaries', async () => {
+      const rawDiff = [
+        'diff --git a/db/schema.sql b/db/schema.sql',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/db/schema.sql',
+        '@@ -0,0 +1,2 @@',
+        '+CREATE TABLE a;',
+        '+CREATE TABLE b;',
+        'diff --git a/logo.png b/logo.png',
+        'index 1234567..89abcde 100644',
+        'Binary files a/logo.png and b/logo.png differ',
+        'diff --git a/data/.gitkeep b/data/.gitkeep',
+        'new file mode 100644',
+        'index 0000000..e69de29',
+        '',
+      ].join('\n');
+      mockOctokit.pulls.get.mockImplementation((params: { mediaType?: unknown }) =>
+        Promise.resolve(params.mediaType ? { data: rawDiff } : pullRequest({ changed_files: 4 }))
+      );
+      mockOctokit.paginate.iterator.mockReturnValue(
+        pagesOf([
+          { filename: 'db/schema.sql', status: 'added', additions: 2, deletions: 0, changes: 2 },
+          { filename: 'logo.png', status: 'modified', additions: 0, deletions: 0, changes: 0 },
+          {
+            filename: 'src/new.ts',
+            previous_filename: 'src/old.ts',
+            status: 'renamed',
+            additions: 0,
+            deletions: 0,
+            changes: 0,
+          },
+          { filename: 'data/.gitkeep', status: 'added', additions: 0, deletions: 0, changes: 0 },
+        ])
+      );
+
+      const diff = await githubService.fetchDiff('test-owner', 'test-repo', 123);
+
+      expect(mockOctokit.pulls.get).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        pull_number: 123,
+        mediaType: { format: 'diff' },
+      });
+      expect(diff.files).toEqual([
+        expect.objectContaining({ filename: 'db/schema.sql', patch: '@@ -0,0 +1,2 @@\n+CREATE TABLE a;\n+CREATE TABLE b;' }),
+        expect.objectContaining({ filename: 'logo.png', binary: true, patch: undefined }),
+        expect.objectContaining({ filename: 'src/new.ts', previousFilename: 'src/old.ts', status: 'renamed' }),
+        expect.objectContaining({ filename: 'data/.gitkeep', patch: undefined }),
+      ]);
+      expect(diff.files[3].binary).toBeUndefined();
+    });
+
+    it('should fall back to file contents when the raw diff is too large', async () => {
+      const tooLarge = Object.assign(new Error('diff exceeded the maximum'), { status: 406 });
+      mockOctokit.pulls.get.mockImplementation((params: { mediaType?: unknown }) =>
+        params.mediaType ? Promise.reject(tooLarge) : Promise.resolve(pullRequest({ changed_files: 3 }))
+      );
+      const contents: Record<string, string> = {
+        'db/schema.sql': 'CREATE TABLE a;\nCREATE TABLE b;\n',
+        'logo.png': '\x89PNG\r\n\x1a\n\0\0',
+        'data/.gitkeep': '',
+      };
+      mockOctokit.repos.getContent.mockImplementation(({ path }: { path: string }) =>
+        Promise.resolve({ data: { type: 'file', content: Buffer.from(contents[path]).toString('base64') } })
+      );
+      mockOctokit.paginate.iterator.mockReturnValue(
+        pagesOf([
+          { filename: 'db/schema.sql', status: 'added', additions: 2, deletions: 0, changes: 2 },
+          { filename: 'logo.png', status: 'added', additions: 0, deletions: 0, changes: 0 },
+          { filename: 'src/huge.ts', status: 'modified', additions: 900, deletions: 800, changes: 1700 },
+          { filename: 'data/.gitkeep', status: 'added', additions: 0, deletions: 0, changes: 0 },
+          { filename: 'icon.ico', status: 'modified', additions: 0, deletions: 0, changes: 0 },
+        ])
+      );
+
+      const diff = await githubService.fetchDiff('test-owner', 'test-repo', 123);
+
+      expect(mockOctokit.repos.getContent).toHaveBeenCalledTimes(3);
+      expect(mockOctokit.repos.getContent).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        path: 'db/schema.sql',
+        ref: 'head123',
+      });
+      expect(diff.files[0].patch).toBe('@@ -0,0 +1,2 @@\n+CREATE TABLE a;\n+CREATE TABLE b;');
+      expect(diff.files[1].binary).toBe(true);
+      expect(diff.files[2].patch).toBeUndefined();
+      expect(diff.files[3]).toMatchObject({ filename: 'data/.gitkeep', patch: undefined });
+      expect(diff.files[3].binary).toBeUndefined();
+      expect(diff.files[4].binary).toBe(true);
     });
 
     it('should retry on 5xx errors', async () => {
       const error = Object.assign(new Error('Server error'), { status: 500 });
-      mockOctokit.pulls.listFiles
-        .mockRejectedValueOnce(error)
-        .mockResolvedValueOnce({ data: [] });
+      mockOctokit.pulls.get.mockRejectedValueOnce(error).mockResolvedValueOnce(pullRequest({ changed_files: 0 }));
+      mockOctokit.paginate.iterator.mockReturnValue(pagesOf([]));
+
+      const retriesBefore = githubApiRetries.get();
 
       await githubService.fetchDiff('test-owner', 'test-repo', 123);
 
-      expect(mockOctokit.pulls.listFiles).toHaveBeenCalledTimes(2);
+      expect(mockOctokit.pulls.get).toHaveBeenCalledTimes(2);
+      expect(githubApiRetries.get()).toBe(retriesBefore + 1);
     });
 
     it('should throw after max retries', async () => {
       const error = Object.assign(new Error('Server error'), { status: 500 });
-      mockOctokit.pulls.listFiles.mockRejectedValue(error);
+      mockOctokit.pulls.get.mockRejectedValue(error);
 
       await expect(githubService.fetchDiff('test-owner', 'test-repo', 123)).rejects.toThrow();
 
-      expect(mockOctokit.pulls.listFiles).toHaveBeenCalledTimes(3);
+      expect(mockOctokit.pulls.get).toHaveBeenCalledTimes(3);
     });
   });
 
   describe('fetchCommits', () => {
-    it('should fetch PR commits with metadata', async () => {
-      mockOctokit.pulls.listCommits.mockResolvedValue({
-        data: [
-          {
-            sha: 'abc123',
-            commit: {
-              message: 'feat: add new feature',
-              author: {
-                name: 'Test User',
-                date: '2024-01-01T00:00:00Z',
+    it('should fetch PR commits with metadata from every page', async () => {
+      mockOctokit.paginate.iterator.mockReturnValue(
+        pagesOf(
+          [
+            {
+              sha: 'abc123',
+              commit: {
+                message: 'feat: add new feature',
+                author: {
+                  name: 'Test User',
+                  date: '2024-01-01T00:00:00Z',
+                },
               },
             },
-          },
-          {
-            sha: 'def456',
-            commit: {
-              message: 'fix: resolve bug',
-              author: {
-                name: 'Test User',
-                date: '2024-01-02T00:00:00Z',
+          ],
+          [
+            {
+              sha: 'def456',
+              commit: {
+                message: 'fix: resolve bug',
+                author: {
+                  name: 'Test User',
+                  date: '2024-01-02T00:00:00Z',
+                },
               },
             },
-          },
-        ],
-      });
+          ]
+        )
+      );
 
       const commits = await githubService.fetchCommits('test-owner', 'test-repo', 123);
 
+      expect(mockOctokit.paginate.iterator).toHaveBeenCalledWith(
+        'GET /repos/{owner}/{repo}/pulls/{pull_number}/commits',
+        { owner: 'test-owner', repo: 'test-repo', pull_number: 123, per_page: 100 }
+      );
       expect(commits).toHaveLength(2);
       expect(commits[0].sha).toBe('abc123');
       expect(commits[0].message).toBe('feat: add new feature');
@@ -132,6 +318,170 @@ describe('GitHubService', () => {
     });
   });
 
+  describe('compareCommits', () => {
+    it('should return the files and commits between two SHAs', async () => {
+      mockOctokit.repos.compareCommitsWithBasehead.mockResolvedValue({
+        data: {
+          status: 'ahead',
+          ahead_by: 1,
+          files: [{ filename: 'src/a.ts', status: 'modified', additions: 4, deletions: 1, changes: 5, patch: '@@' }],
+          commits: [{ sha: 'def456', commit: { message: 'fix: retry', author: null } }],
+        },
+      });
+
+      const comparison = await githubService.compareCommits('test-owner', 'test-repo', 'abc123', 'def456');
+
+      expect(mockOctokit.repos.compareCommitsWithBasehead).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        basehead: 'abc123...def456',
+      });
+      expect(comparison.status).toBe('ahead');
+      expect(comparison.diff).toMatchObject({ additions: 4, deletions: 1, changes: 5, totalFiles: 1, partial: false });
+      expect(comparison.diff.files[0]).toEqual({
+        filename: 'src/a.ts',
+        status: 'modified',
+        additions: 4,
+        deletions: 1,
+        patch: '@@',
+      });
+      expect(comparison.commits[0]).toMatchObject({ sha: 'def456', message: 'fix: retry', author: 'Unknown' });
+    });
+  });
+
+  describe('fetchPullRequest', () => {
+    it('should map PR details', async () => {
+      mockOctokit.pulls.get.mockResolvedValue({
+        data: {
+          number: 123,
+          title: 'Add feature',
+          body: 'Description',
+          state: 'open',
+          head: { sha: 'head-sha' },
+          base: { sha: 'base-sha' },
+          labels: [{ name: 'enhancement' }],
+          user: { login: 'author' },
+          updated_at: '2024-05-01T12:00:00Z',
+        },
+      });
+
+      const pr = await githubService.fetchPullRequest('test-owner', 'test-repo', 123);
+
+      expect(pr).toEqual({
+        number: 123,
+        title: 'Add feature',
+        body: 'Description',
+        state: 'open',
+        headSha: 'head-sha',
+        baseSha: 'base-sha',
+        labels: ['enhancement'],
+        author: 'author',
+        updatedAt: '2024-05-01T12:00:00Z',
+      });
+    });
+  });
+
+  describe('updatePullRequestBody', () => {
+    it('should update the PR description', async () => {
+      mockOctokit.pulls.update.mockResolvedValue({ data: {} });
+
+      await githubService.updatePullRequestBody('test-owner', 'test-repo', 123, 'New body');
+
+      expect(mockOctokit.pulls.update).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        pull_number: 123,
+        body: 'New body',
+      });
+    });
+  });
+
+  describe('getPermissionLevel', () => {
+    it('should return the collaborator permission', async () => {
+      mockOctokit.repos.getCollaboratorPermissionLevel.mockResolvedValue({ data: { permission: 'write' } });
+
+      const permission = await githubService.getPermissionLevel('test-owner', 'test-repo', 'user');
+
+      expect(permission).toBe('write');
+    });
+
+    it('should return none for non-collaborators', async () => {
+      const error = Object.assign(new Error('Not Found'), { status: 404 });
+      mockOctokit.repos.getCollaboratorPermissionLevel.mockRejectedValue(error);
+
+      const permission = await githubService.getPermissionLevel('test-owner', 'test-repo', 'stranger');
+
+      expect(permission).toBe('none');
+    });
+
+    it('should rethrow other errors', async () => {
+      const error = Object.assign(new Error('Forbidden'), { status: 403 });
+      mockOctokit.repos.getCollaboratorPermissionLevel.mockRejectedValue(error);
+
+      await expect(githubService.getPermissionLevel('test-owner', 'test-repo', 'user')).rejects.toThrow('Forbidden');
+    });
+  });
+
+  describe('addReaction', () => {
+    it('should react to the comment', async () => {
+      mockOctokit.reactions.createForIssueComment.mockResolvedValue({ data: {} });
+
+      await githubService.addReaction('test-owner', 'test-repo', 42, 'eyes');
+
+      expect(mockOctokit.reactions.createForIssueComment).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        comment_id: 42,
+        content: 'eyes',
+      });
+    });
+  });
+
+  describe('fetchFileContent', () => {
+    it('should decode base64 file content', async () => {
+      mockOctokit.repos.getContent.mockResolvedValue({
+        data: { type: 'file', content: Buffer.from('enabled: true\n').toString('base64') },
+      });
+
+      const content = await githubService.fetchFileContent('test-owner', 'test-repo', '.github/x.yml', 'abc');
+
+      expect(content).toBe('enabled: true\n');
+      expect(mockOctokit.repos.getContent).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        path: '.github/x.yml',
+        ref: 'abc',
+      });
+    });
+
+    it('should return null when file does not exist', async () => {
+      const error = Object.assign(new Error('Not Found'), { status: 404 });
+      mockOctokit.repos.getContent.mockRejectedValue(error);
+
+      const content = await githubService.fetchFileContent('test-owner', 'test-repo', '.github/x.yml');
+
+      expect(content).toBeNull();
+      expect(mockOctokit.repos.getContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null when path is a directory', async () => {
+      mockOctokit.repos.getContent.mockResolvedValue({ data: [] });
+
+      const content = await githubService.fetchFileContent('test-owner', 'test-repo', '.github');
+
+      expect(content).toBeNull();
+    });
+
+    it('should rethrow non-404 errors', async () => {
+      const error = Object.assign(new Error('Forbidden'), { status: 403 });
+      mockOctokit.repos.getContent.mockRejectedValue(error);
+
+      await expect(githubService.fetchFileContent('test-owner', 'test-repo', '.github/x.yml')).rejects.toThrow(
+        'Forbidden'
+      );
+    });
+  });
+
   describe('postComment', () => {
     it('should post comment to PR', async () => {
       mockOctokit.issues.createComment.mockResolvedValue({
@@ -175,42 +525,142 @@ describe('GitHubService', () => {
     });
   });
 
-  describe('findBotComment', () => {
-    it('should find existing bot comment', async () => {
-      mockOctokit.issues.listComments.mockResolvedValue({
-        data: [
-          {
-            id: 111,
-            body: 'Some other comment',
-            user: { login: 'other-user' },
-          },
-          {
-            id: 222,
-            body: 'Bot comment',
-            user: { login: 'test-bot[bot]' },
-          },
-        ],
-      });
+  describe('createCheckRun', () => {
+    const annotation = (i: number): Record<string, unknown> => ({
+      path: `file${i}.ts`,
+      start_line: 1,
+      end_line: 1,
+      annotation_level: 'notice',
+      message: 'changed',
+    });
 
-      const commentId = await githubService.findBotComment('test-owner', 'test-repo', 123, 'test-bot[bot]');
+    it('should create a completed check run on the head commit', async () => {
+      mockOctokit.checks.create.mockResolvedValue({ data: { id: 555 } });
+
+      const id = await githubService.createCheckRun('test-owner', 'test-repo', {
+        headSha: 'abc123',
+        name: 'PR Summary',
+        conclusion: 'neutral',
+        title: 'Title',
+        summary: 'Summary',
+      });
 
-      expect(commentId).toBe(222);
+      expect(id).toBe(555);
+      expect(mockOctokit.checks.create).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        name: 'PR Summary',
+        head_sha: 'abc123',
+        status: 'completed',
+        conclusion: 'neutral',
+        output: { title: 'Title', summary: 'Summary', annotations: undefined },
+      });
+      expect(mockOctokit.checks.update).not.toHaveBeenCalled();
     });
 
-    it('should return null if no bot comment exists', async () => {
-      mockOctokit.issues.listComments.mockResolvedValue({
-        data: [
-          {
-            id: 111,
-            body: 'Some comment',
-            user: { login: 'other-user' },
-          },
-        ],
+    it('should send annotations in batches of 50', async () => {
+      mockOctokit.checks.create.mockResolvedValue({ data: { id: 555 } });
+      mockOctokit.checks.update.mockResolvedValue({ data: {} });
+
+      await githubService.createCheckRun('test-owner', 'test-repo', {
+        headSha: 'abc123',
+        name: 'PR Summary',
+        conclusion: 'success',
+        title: 'Title',
+        summary: 'Summary',
+        annotations: Array.from({ length: 120 }, (_, i) => annotation(i)) as never,
       });
 
-      const commentId = await githubService.findBotComment('test-owner', 'test-repo', 123, 'test-bot[bot]');
+      const createCall = mockOctokit.checks.create.mock.calls[0][0] as { output: { annotations: unknown[] } };
+      expect(createCall.output.annotations).toHaveLength(50);
+      expect(mockOctokit.checks.update).toHaveBeenCalledTimes(2);
+      const lastUpdate = mockOctokit.checks.update.mock.calls[1][0] as {
+        check_run_id: number;
+        output: { annotations: unknown[] };
+      };
+      expect(lastUpdate.check_run_id).toBe(555);
+      expect(lastUpdate.output.annotations).toHaveLength(20);
+    });
+  });
+
+  describe('resolveBotLogin', () => {
+    it('should derive the bot login from the authenticated app', async () => {
+      mockOctokit.apps.getAuthenticated.mockResolvedValue({ data: { slug: 'pr-summarizer' } });
+
+      expect(await resolveBotLogin(mockOctokit as never)).toBe('pr-summarizer[bot]');
+    });
+
+    it('should return null for an app without a slug', async () => {
+      mockOctokit.apps.getAuthenticated.mockResolvedValue({ data: null });
+
+      expect(await resolveBotLogin(mockOctokit as never)).toBeNull();
+    });
+  });
+
+  describe('findSummaryComment', () => {
+    const marker = '<!-- pr-summarizer:summary v=1 sha=abc123 -->';
+    const bot = { login: 'pr-summarizer[bot]', type: 'Bot' };
+
+    beforeEach(() => {
+      githubService = new GitHubService({ octokit: mockOctokit as never, logger, botLogin: 'pr-summarizer[bot]' });
+    });
+
+    it('should find the marked comment on a later page', async () => {
+      mockOctokit.paginate.iterator.mockReturnValue(
+        pagesOf(
+          [{ id: 111, body: 'Some other comment', user: { login: 'other-user', type: 'User' } }],
+          [{ id: 222, body: `${marker}\n## Summary`, user: bot }]
+        )
+      );
+
+      const comment = await githubService.findSummaryComment('test-owner', 'test-repo', 123);
+
+      expect(comment).toEqual({ id: 222, version: 1, sha: 'abc123' });
+      expect(mockOctokit.paginate.iterator).toHaveBeenCalledWith(
+        'GET /repos/{owner}/{repo}/issues/{issue_number}/comments',
+        { owner: 'test-owner', repo: 'test-repo', issue_number: 123, per_page: 100 }
+      );
+    });
+
+    it('should ignore unmarked comments from the bot', async () => {
+      mockOctokit.paginate.iterator.mockReturnValue(pagesOf([{ id: 222, body: 'Bot comment without marker', user: bot }]));
+
+      expect(await githubService.findSummaryComment('test-owner', 'test-repo', 123)).toBeNull();
+    });
+
+    it('should ignore marked comments from other users', async () => {
+      mockOctokit.paginate.iterator.mockReturnValue(
+        pagesOf([{ id: 333, body: `Quoting: ${marker}`, user: { login: 'other-user', type: 'User' } }])
+      );
+
+      expect(await githubService.findSummaryComment('test-owner', 'test-repo', 123)).toBeNull();
+    });
+
+    it('should tell the skip notice comment from the summary comment', async () => {
+      mockOctokit.paginate.iterator.mockReturnValue(
+        pagesOf([
+          { id: 222, body: `${marker}\n## Summary`, user: bot },
+          { id: 555, body: '<!-- pr-summarizer:notice v=1 sha=abc123 -->\nRate limit reached', user: bot },
+        ])
+      );
+
+      const comment = await githubService.findMarkedComment('test-owner', 'test-repo', 123, 'notice');
+
+      expect(comment).toEqual({ id: 555, version: 1, sha: 'abc123' });
+    });
+
+    it('should match any bot account by marker when the bot login is unknown', async () => {
+      githubService = new GitHubService({ octokit: mockOctokit as never, logger });
+      mockOctokit.paginate.iterator.mockReturnValue(
+        pagesOf([
+          { id: 333, body: marker, user: { login: 'pasted-by-user', type: 'User' } },
+          { id: 444, body: marker, user: { login: 'legacy-bot[bot]', type: 'Bot' } },
+        ])
+      );
+
+      const comment = await githubService.findSummaryComment('test-owner', 'test-repo', 123);
 
-      expect(commentId).toBeNull();
+      expect(comment?.id).toBe(444);
     });
   });
 });
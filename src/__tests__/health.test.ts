@@ -0,0 +1,124 @@
+/**
+ * Health, readiness and metrics endpoint tests
+ * Serves the probes from a local express app and the standalone probe server, backed by ioredis-mock
+ */
+
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import RedisMock from 'ioredis-mock';
+import pino from 'pino';
+import { loadConfig } from '../config';
+import { ServiceContainer } from '../services/container';
+import { createProbeServer, registerHealthRoutes } from '../handlers/health';
+import { metrics, summariesSkipped } from '../services/metrics';
+
+jest.mock('@langchain/openai');
+
+describe('Health endpoints', () => {
+  const logger = pino({ level: 'silent' });
+  let redis: InstanceType<typeof RedisMock>;
+  let services: ServiceContainer;
+  let server: Server;
+  let baseUrl: string;
+
+  const listen = async (target: Server): Promise<string> => {
+    await new Promise<void>((resolve) => target.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(target.address() as AddressInfo).port}`;
+  };
+
+  beforeEach(async () => {
+    metrics.reset();
+    redis = new RedisMock();
+    services = new ServiceContainer({ config: loadConfig(), logger, redis: redis as never });
+
+    const router = express.Router();
+    registerHealthRoutes(router, services, logger);
+    server = new Server(express().use(router));
+    baseUrl = await listen(server);
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should report the process as alive', async () => {
+    const res = await fetch(`${baseUrl}/healthz`);
+
+    expect(res.status).toBe(200);
+    await expect(res.json()).resolves.toMatchObject({ status: 'ok' });
+  });
+
+  it('should be ready with Redis reachable and report breaker state', async () => {
+    await redis.hset('breaker:openai:gpt-4o', { status: 'open', failures: 5, openUntil: Date.now() + 60_000 });
+
+    const res = await fetch(`${baseUrl}/readyz`);
+
+    expect(res.status).toBe(200);
+    await expect(res.json()).resolves.toEqual({
+      status: 'ready',
+      ready: true,
+      redis: true,
+      config: true,
+      breakers: [{ key: 'openai:gpt-4o', status: 'open' }],
+    });
+  });
+
+  it('should not be ready when Redis is unreachable', async () => {
+    jest.spyOn(redis, 'ping').mockRejectedValue(new Error('Connection refused'));
+    jest.spyOn(redis, 'hgetall').mockRejectedValue(new Error('Connection refused'));
+
+    const res = await fetch(`${baseUrl}/readyz`);
+
+    expect(res.status).toBe(503);
+    await expect(res.json()).resolves.toMatchObject({
+      status: 'unavailable',
+      redis: false,
+      breakers: [{ key: 'openai:gpt-4o', status: 'unknown' }],
+    });
+  });
+
+  it('should not be ready when a configured fallback provider is not registered', async () => {
+    services.config.llm.fallbacks = [{ provider: 'mistral' as never }];
+
+    const res = await fetch(`${baseUrl}/readyz`);
+
+    expect(res.status).toBe(503);
+    await expect(res.json()).resolves.toMatchObject({ status: 'unavailable', redis: true, config: false });
+  });
+
+  it('should not be ready when the repository config defaults are invalid', async () => {
+    services.config.processing.maxDiffSizeLines = NaN;
+
+    const res = await fetch(`${baseUrl}/readyz`);
+
+    expect(res.status).toBe(503);
+    await expect(res.json()).resolves.toMatchObject({ redis: true, config: false });
+  });
+
+  it('should expose metrics in the Prometheus text format', async () => {
+    summariesSkipped.inc({ reason: 'rate_limited' });
+
+    const res = await fetch(`${baseUrl}/metrics`);
+
+    expect(res.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+    const body = await res.text();
+    expect(body).toContain('# TYPE pr_summarizer_llm_request_duration_seconds histogram');
+    expect(body).toContain('pr_summarizer_summaries_skipped_total{reason="rate_limited"} 1');
+  });
+
+  it('should serve the probes from the standalone worker server', async () => {
+    const probeServer = createProbeServer(services, logger);
+    const probeUrl = await listen(probeServer);
+
+    const metricsRes = await fetch(`${probeUrl}/metrics?debug=1`);
+    const missing = await fetch(`${probeUrl}/admin`);
+    await new Promise((resolve) => probeServer.close(resolve));
+
+    expect(metricsRes.status).toBe(200);
+    await expect(metricsRes.text()).resolves.toContain('# TYPE pr_summarizer_webhook_events_received_total counter');
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,13 @@
+/**
+ * Shared test helpers
+ */
+
+/**
+ * Simulate octokit.paginate.iterator yielding one response per page
+ * `for await` consumes a sync generator as well, so the pages need no async wrapper.
+ */
+export function* pagesOf(...pages: unknown[][]): Generator<{ data: unknown[] }> {
+  for (const data of pages) {
+    yield { data };
+  }
+}
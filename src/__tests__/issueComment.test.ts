@@ -0,0 +1,190 @@
+/**
+ * Comment command tests
+ * Runs command handling and the explain job against a mocked installation client, ioredis-mock and the
+ * fake LLM provider
+ */
+
+import RedisMock from 'ioredis-mock';
+import pino from 'pino';
+import { loadConfig } from '../config';
+import { ServiceContainer } from '../services/container';
+import { explainFile, handleIssueCommentEvent } from '../handlers/issueComment';
+import { getSummarizeJobId } from '../handlers/jobs';
+import { pagesOf } from './helpers';
+
+const createMockOctokit = (
+  files: Record<string, unknown>[],
+  contents: Record<string, string>
+): {
+  pulls: { get: jest.Mock };
+  repos: { getContent: jest.Mock; getCollaboratorPermissionLevel: jest.Mock };
+  reactions: { createForIssueComment: jest.Mock };
+  issues: { createComment: jest.Mock };
+  paginate: { iterator: jest.Mock };
+} => ({
+  pulls: {
+    get: jest.fn().mockResolvedValue({
+      data: {
+        number: 7,
+        title: 'Add throttling',
+        body: 'Throttle repeated login attempts',
+        state: 'open',
+        head: { sha: 'head123' },
+        base: { sha: 'base123' },
+        labels: [],
+        user: { login: 'dev' },
+        updated_at: '2024-01-01T00:00:00Z',
+        additions: 3,
+        deletions: 1,
+        changed_files: files.length,
+        commits: 1,
+      },
+    }),
+  },
+  repos: {
+    // Files keyed by `repo/path`; anything else is missing
+    getContent: jest.fn(({ repo, path }: { repo: string; path: string }) => {
+      const content = contents[`${repo}/${path}`];
+      return content === undefined
+        ? Promise.reject(Object.assign(new Error('Not Found'), { status: 404 }))
+        : Promise.resolve({ data: { type: 'file', content: Buffer.from(content).toString('base64') } });
+    }),
+    getCollaboratorPermissionLevel: jest.fn().mockResolvedValue({ data: { permission: 'write' } }),
+  },
+  reactions: {
+    createForIssueComment: jest.fn().mockResolvedValue({ data: {} }),
+  },
+  issues: {
+    createComment: jest.fn().mockResolvedValue({ data: { id: 1 } }),
+  },
+  paginate: {
+    iterator: jest.fn(() => pagesOf(files)),
+  },
+});
+
+describe('explainFile', () => {
+  const logger = pino({ level: 'silent' });
+  const files = [
+    { filename: 'src/login.ts', status: 'modified', additions: 2, deletions: 1, changes: 3, patch: '@@ -1 +1,2 @@' },
+    { filename: 'docs/guide.md', status: 'modified', additions: 1, deletions: 0, changes: 1, patch: '@@ -1 +1 @@' },
+  ];
+  let redis: InstanceType<typeof RedisMock>;
+  let services: ServiceContainer;
+
+  const explain = async (filename: string, contents: Record<string, string> = {}): Promise<string[]> => {
+    const octokit = createMockOctokit(files, contents);
+    await explainFile(octokit as never, logger, services, 1, 'test-owner', 'test-repo', 7, filename);
+    return octokit.issues.createComment.mock.calls.map(([params]: [{ body: string }]) => params.body);
+  };
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'fake';
+    redis = new RedisMock();
+    services = new ServiceContainer({ config: loadConfig(), logger, redis: redis as never });
+  });
+
+  afterEach(async () => {
+    process.env.LLM_PROVIDER = 'openai';
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should reply with an explanation of the file', async () => {
+    const comments = await explain('src/login.ts');
+
+    expect(comments).toHaveLength(1);
+    expect(comments[0]).toContain('Fake explanation of the changes to `src/login.ts`');
+  });
+
+  it('should do nothing when the repository disabled the bot', async () => {
+    const summarize = jest.spyOn(services.summarizer, 'explainFile');
+
+    const comments = await explain('src/login.ts', { 'test-repo/.github/pr-summarizer.yml': 'enabled: false' });
+
+    expect(comments).toEqual([]);
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('should not send files excluded by the repository config to the LLM', async () => {
+    const summarize = jest.spyOn(services.summarizer, 'explainFile');
+
+    const comments = await explain('docs/guide.md', {
+      'test-repo/.github/pr-summarizer.yml': 'excludeFiles:\n  - docs/**',
+    });
+
+    expect(summarize).not.toHaveBeenCalled();
+    expect(comments).toEqual([expect.stringContaining('`docs/guide.md` is filtered out of AI summaries')]);
+  });
+
+  it('should report an invalid repository config to the commenter', async () => {
+    const comments = await explain('src/login.ts', { 'test-repo/.github/pr-summarizer.yml': 'enabled: maybe' });
+
+    expect(comments).toEqual([expect.stringContaining('invalid configuration in `test-owner/test-repo/')]);
+  });
+});
+
+describe('handleIssueCommentEvent', () => {
+  const logger = pino({ level: 'silent' });
+  let redis: InstanceType<typeof RedisMock>;
+  let services: ServiceContainer;
+  let octokit: ReturnType<typeof createMockOctokit>;
+
+  const comment = (id: number, body: string): Parameters<typeof handleIssueCommentEvent>[0] =>
+    ({
+      payload: {
+        issue: { number: 7, pull_request: {} },
+        comment: { id, body, user: { login: 'maintainer', type: 'User' } },
+        repository: { owner: { login: 'test-owner' }, name: 'test-repo', full_name: 'test-owner/test-repo' },
+        installation: { id: 1 },
+      },
+      octokit,
+      log: logger,
+    }) as never;
+
+  // The job a push to head123 queued, still held by the synchronize debounce
+  const queuePushJob = (): Promise<boolean> =>
+    services.queue.enqueue(
+      getSummarizeJobId({
+        installationId: 1,
+        owner: 'test-owner',
+        repo: 'test-repo',
+        pr: { number: 7, headSha: 'head123' } as never,
+        trigger: 'synchronize',
+        actor: 'dev',
+      }),
+      { kind: 'summarize', installationId: 1, target: {} as never },
+      20
+    );
+
+  beforeEach(() => {
+    redis = new RedisMock();
+    services = new ServiceContainer({ config: loadConfig(), logger, redis: redis as never });
+    octokit = createMockOctokit([], {});
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should queue a forced run next to a waiting job for the same commit', async () => {
+    await queuePushJob();
+
+    await handleIssueCommentEvent(comment(42, '@pr-summarizer regenerate'), services);
+
+    await expect(services.queue.getCounts()).resolves.toMatchObject({ waiting: 2 });
+    await expect(redis.exists('queue:job:test-owner/test-repo#7@head123:force:42')).resolves.toBe(1);
+    expect(octokit.issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it('should tell the commenter when a summarize command joined a waiting job', async () => {
+    await queuePushJob();
+
+    await handleIssueCommentEvent(comment(43, '@pr-summarizer summarize'), services);
+
+    await expect(services.queue.getCounts()).resolves.toMatchObject({ waiting: 1 });
+    expect(octokit.issues.createComment).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.stringContaining('already queued, so this command was merged into it') })
+    );
+  });
+});
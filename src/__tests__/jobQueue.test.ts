@@ -0,0 +1,260 @@
+/**
+ * Job queue and worker tests
+ * Uses ioredis-mock to simulate Redis
+ */
+
+import RedisMock from 'ioredis-mock';
+import pino from 'pino';
+import { JobQueue } from '../services/jobQueue';
+import { JobWorker } from '../services/jobWorker';
+import { getCorrelationId, runWithCorrelationId } from '../utils/correlation';
+
+describe('JobQueue', () => {
+  let redis: InstanceType<typeof RedisMock>;
+  let queue: JobQueue<{ pr: number }>;
+  let now: number;
+  const logger = pino({ level: 'silent' });
+
+  beforeEach(() => {
+    redis = new RedisMock();
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    queue = new JobQueue({
+      redis: redis as never,
+      logger,
+      maxAttempts: 2,
+      backoffSeconds: 10,
+      visibilityTimeoutSeconds: 60,
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should deduplicate jobs with the same id while queued', async () => {
+    await expect(queue.enqueue('o/r#1@abc', { pr: 1 })).resolves.toBe(true);
+    await expect(queue.enqueue('o/r#1@abc', { pr: 1 })).resolves.toBe(false);
+
+    await expect(queue.getCounts()).resolves.toEqual({ waiting: 1, active: 0, dead: 0 });
+  });
+
+  it('should hold delayed jobs until they are due', async () => {
+    await queue.enqueue('o/r#1@abc', { pr: 1 }, 20);
+
+    await expect(queue.claim()).resolves.toBeNull();
+
+    now += 20_000;
+    await expect(queue.claim()).resolves.toMatchObject({ id: 'o/r#1@abc' });
+  });
+
+  it('should lease a claimed job to a single worker', async () => {
+    await queue.enqueue('o/r#1@abc', { pr: 1 });
+
+    const job = await queue.claim();
+
+    expect(job).toMatchObject({ id: 'o/r#1@abc', payload: { pr: 1 }, attempts: 1 });
+    await expect(queue.claim()).resolves.toBeNull();
+    await expect(queue.getCounts()).resolves.toEqual({ waiting: 0, active: 1, dead: 0 });
+  });
+
+  it('should allow the same id again once completed', async () => {
+    await queue.enqueue('o/r#1@abc', { pr: 1 });
+    await queue.complete((await queue.claim())!);
+
+    await expect(queue.enqueue('o/r#1@abc', { pr: 1 })).resolves.toBe(true);
+  });
+
+  it('should retry failed jobs after a backoff', async () => {
+    await queue.enqueue('o/r#1@abc', { pr: 1 });
+    await queue.fail((await queue.claim())!, new Error('LLM timeout'));
+
+    await expect(queue.claim()).resolves.toBeNull();
+
+    now += 10_000;
+    await expect(queue.claim()).resolves.toMatchObject({ attempts: 2, lastError: 'LLM timeout' });
+  });
+
+  it('should requeue jobs whose worker lost its lease', async () => {
+    await queue.enqueue('o/r#1@abc', { pr: 1 });
+    await queue.claim();
+
+    now += 60_000;
+
+    await expect(queue.claim()).resolves.toMatchObject({ id: 'o/r#1@abc', attempts: 2 });
+  });
+
+  it('should keep a job leased while its lease is renewed', async () => {
+    await queue.enqueue('o/r#1@abc', { pr: 1 });
+    const job = (await queue.claim())!;
+
+    now += 50_000;
+    await expect(queue.extendLease(job)).resolves.toBe(true);
+    now += 50_000;
+
+    await expect(queue.claim()).resolves.toBeNull();
+  });
+
+  it('should not renew a lease another worker took over', async () => {
+    await queue.enqueue('o/r#1@abc', { pr: 1 });
+    const job = (await queue.claim())!;
+    now += 60_000;
+    const reclaimed = (await queue.claim())!;
+
+    await expect(queue.extendLease(job)).resolves.toBe(false);
+    await expect(queue.extendLease(reclaimed)).resolves.toBe(true);
+  });
+
+  it('should not let a worker that lost its lease complete or fail the job', async () => {
+    await queue.enqueue('o/r#1@abc', { pr: 1 });
+    const job = (await queue.claim())!;
+    now += 60_000;
+    const reclaimed = (await queue.claim())!;
+
+    await expect(queue.complete(job)).resolves.toBe(false);
+    await expect(queue.fail(job, new Error('late failure'))).resolves.toBe(false);
+    await expect(queue.getCounts()).resolves.toEqual({ waiting: 0, active: 1, dead: 0 });
+
+    await expect(queue.complete(reclaimed)).resolves.toBe(true);
+    await expect(queue.getCounts()).resolves.toEqual({ waiting: 0, active: 0, dead: 0 });
+  });
+
+  it('should dead-letter a job whose lease keeps expiring', async () => {
+    await queue.enqueue('o/r#1@abc', { pr: 1 });
+    await queue.enqueue('o/r#2@def', { pr: 2 }, 120);
+    await queue.claim();
+    now += 60_000;
+    await queue.claim();
+    now += 60_000;
+
+    await expect(queue.claim()).resolves.toMatchObject({ id: 'o/r#2@def' });
+    await expect(queue.listDeadLetters()).resolves.toEqual([
+      expect.objectContaining({ id: 'o/r#1@abc', attempts: 2, lastError: 'Job lease expired on its last attempt' }),
+    ]);
+    await expect(queue.getCounts()).resolves.toEqual({ waiting: 0, active: 1, dead: 1 });
+  });
+
+  it('should dead-letter jobs that exhaust their attempts and replay them', async () => {
+    await queue.enqueue('o/r#1@abc', { pr: 1 });
+    await queue.fail((await queue.claim())!, new Error('first'));
+    now += 10_000;
+    await queue.fail((await queue.claim())!, new Error('second'));
+
+    const deadLetters = await queue.listDeadLetters();
+    expect(deadLetters).toEqual([expect.objectContaining({ id: 'o/r#1@abc', attempts: 2, lastError: 'second' })]);
+    await expect(queue.getCounts()).resolves.toEqual({ waiting: 0, active: 0, dead: 1 });
+
+    await expect(queue.replayDeadLetter('o/r#1@abc')).resolves.toBe(true);
+    await expect(queue.replayDeadLetter('missing')).resolves.toBe(false);
+    await expect(queue.claim()).resolves.toMatchObject({ id: 'o/r#1@abc', attempts: 1 });
+    await expect(queue.listDeadLetters()).resolves.toEqual([]);
+  });
+
+  describe('JobWorker', () => {
+    const createWorker = (handle: jest.Mock): JobWorker<{ pr: number }> =>
+      new JobWorker({ queue, logger, handle, concurrency: 1, pollIntervalMs: 10 });
+
+    it('should complete jobs that succeed', async () => {
+      const handle = jest.fn().mockResolvedValue(undefined);
+      await queue.enqueue('o/r#1@abc', { pr: 1 });
+
+      await expect(createWorker(handle).runOnce()).resolves.toBe(true);
+
+      expect(handle).toHaveBeenCalledWith(expect.objectContaining({ payload: { pr: 1 } }));
+      await expect(queue.getCounts()).resolves.toEqual({ waiting: 0, active: 0, dead: 0 });
+    });
+
+    it('should report failures back to the queue', async () => {
+      const handle = jest.fn().mockRejectedValue(new Error('boom'));
+      await queue.enqueue('o/r#1@abc', { pr: 1 });
+
+      await createWorker(handle).runOnce();
+
+      await expect(queue.getCounts()).resolves.toEqual({ waiting: 1, active: 0, dead: 0 });
+    });
+
+    it('should run jobs under the correlation ID they were enqueued with', async () => {
+      let seen: string | undefined;
+      const handle = jest.fn().mockImplementation(() => {
+        seen = getCorrelationId();
+        return Promise.resolve();
+      });
+      await runWithCorrelationId('delivery-1', () => queue.enqueue('o/r#1@abc', { pr: 1 }));
+
+      await createWorker(handle).runOnce();
+
+      expect(handle).toHaveBeenCalledWith(expect.objectContaining({ correlationId: 'delivery-1' }));
+      expect(seen).toBe('delivery-1');
+    });
+
+    it('should renew the lease while a job runs', async () => {
+      // A 30ms lease, renewed every 10ms
+      const shortLease = new JobQueue<{ pr: number }>({
+        redis: redis as never,
+        logger,
+        maxAttempts: 2,
+        backoffSeconds: 10,
+        visibilityTimeoutSeconds: 0.03,
+      });
+      let stolen: unknown = 'not checked';
+      const handle = jest.fn(async () => {
+        for (let i = 0; i < 3; i++) {
+          now += 20;
+          await new Promise((resolve) => setTimeout(resolve, 25));
+        }
+        stolen = await shortLease.claim();
+      });
+      await shortLease.enqueue('o/r#1@abc', { pr: 1 });
+
+      await new JobWorker({ queue: shortLease, logger, handle, concurrency: 1, pollIntervalMs: 10 }).runOnce();
+
+      expect(stolen).toBeNull();
+      await expect(shortLease.getCounts()).resolves.toEqual({ waiting: 0, active: 0, dead: 0 });
+    });
+
+    it('should drop the result of a job whose lease was lost', async () => {
+      const shortLease = new JobQueue<{ pr: number }>({
+        redis: redis as never,
+        logger,
+        maxAttempts: 2,
+        backoffSeconds: 10,
+        visibilityTimeoutSeconds: 0.03,
+      });
+      const fail = jest.spyOn(shortLease, 'fail');
+      const handle = jest.fn(async () => {
+        // Stall past the lease, let another worker take the job, then give the heartbeat time to notice
+        now += 100;
+        await shortLease.claim();
+        await new Promise((resolve) => setTimeout(resolve, 25));
+        throw new Error('LLM timeout');
+      });
+      await shortLease.enqueue('o/r#1@abc', { pr: 1 });
+
+      await new JobWorker({ queue: shortLease, logger, handle, concurrency: 1, pollIntervalMs: 10 }).runOnce();
+
+      expect(fail).not.toHaveBeenCalled();
+      await expect(shortLease.getCounts()).resolves.toEqual({ waiting: 0, active: 1, dead: 0 });
+    });
+
+    it('should return false when no job is due', async () => {
+      await expect(createWorker(jest.fn()).runOnce()).resolves.toBe(false);
+    });
+
+    it('should process jobs until stopped', async () => {
+      const handle = jest.fn().mockResolvedValue(undefined);
+      await queue.enqueue('o/r#1@abc', { pr: 1 });
+      await queue.enqueue('o/r#2@def', { pr: 2 });
+      const worker = createWorker(handle);
+
+      worker.start();
+      while (handle.mock.calls.length < 2) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      await worker.stop();
+
+      expect(handle).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * LLM provider registry tests
+ */
+
+import { ProviderRegistry, providerRegistry, ChatModel } from '../services/llmProviders';
+import { correlatedFetch } from '../utils/correlation';
+
+jest.mock('@langchain/openai');
+jest.mock('@langchain/anthropic');
+
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+
+describe('ProviderRegistry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should register the built-in providers', () => {
+    expect(providerRegistry.names()).toEqual(['openai', 'anthropic', 'azure-openai', 'openai-compatible', 'fake']);
+  });
+
+  it('should create custom providers by name', async () => {
+    const model: ChatModel = {
+      model: 'custom-model',
+      invoke: jest.fn().mockResolvedValue({ content: 'ok', tokensUsed: 1 }),
+    };
+    const factory = jest.fn().mockReturnValue(model);
+    const registry = new ProviderRegistry().register('custom', factory);
+
+    const created = registry.create({ provider: 'custom', model: 'custom-model', baseUrl: 'http://llm.internal' });
+
+    expect(registry.has('custom')).toBe(true);
+    expect(factory).toHaveBeenCalledWith({ provider: 'custom', model: 'custom-model', baseUrl: 'http://llm.internal' });
+    await expect(created.invoke('prompt')).resolves.toEqual({ content: 'ok', tokensUsed: 1 });
+  });
+
+  it('should reject unknown providers', () => {
+    const registry = new ProviderRegistry().register('openai', jest.fn());
+
+    expect(() => registry.create({ provider: 'bedrock' })).toThrow("Unknown LLM provider 'bedrock' (registered: openai)");
+  });
+
+  describe('built-in providers', () => {
+    it('should default the OpenAI model and adapt LangChain responses', async () => {
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: jest.fn().mockResolvedValue({
+          content: 'response',
+          response_metadata: { tokenUsage: { promptTokens: 30, completionTokens: 12, totalTokens: 42 } },
+        }),
+      }));
+
+      const model = providerRegistry.create({ provider: 'openai', apiKey: 'test-key' });
+
+      expect(model.model).toBe('gpt-4o');
+      await expect(model.invoke('prompt')).resolves.toEqual({
+        content: 'response',
+        tokensUsed: 42,
+        inputTokens: 30,
+        outputTokens: 12,
+      });
+    });
+
+    it('should read usage_metadata when the integration provides it', async () => {
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: jest.fn().mockResolvedValue({
+          content: 'response',
+          usage_metadata: { input_tokens: 7, output_tokens: 3 },
+        }),
+      }));
+
+      const model = providerRegistry.create({ provider: 'openai', apiKey: 'test-key' });
+
+      await expect(model.invoke('prompt')).resolves.toMatchObject({ tokensUsed: 10 });
+    });
+
+    it('should estimate usage when the integration reports none', async () => {
+      (ChatAnthropic as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: jest.fn().mockResolvedValue({ content: 'x'.repeat(40), response_metadata: {} }),
+      }));
+
+      const model = providerRegistry.create({ provider: 'anthropic', apiKey: 'test-key' });
+
+      await expect(model.invoke('y'.repeat(400))).resolves.toMatchObject({
+        tokensUsed: 110,
+        inputTokens: 100,
+        outputTokens: 10,
+      });
+    });
+
+    it('should pass base URL and headers to Anthropic', () => {
+      providerRegistry.create({
+        provider: 'anthropic',
+        apiKey: 'test-key',
+        baseUrl: 'https://proxy.internal',
+        headers: { 'X-Team': 'platform' },
+      });
+
+      expect(ChatAnthropic).toHaveBeenCalledWith(
+        expect.objectContaining({
+          modelName: 'claude-3-5-sonnet-20241022',
+          clientOptions: {
+            baseURL: 'https://proxy.internal',
+            defaultHeaders: { 'X-Team': 'platform' },
+            fetch: correlatedFetch,
+          },
+        })
+      );
+    });
+
+    it('should point openai-compatible at the configured endpoint without an API key', () => {
+      const model = providerRegistry.create({
+        provider: 'openai-compatible',
+        model: 'llama3',
+        baseUrl: 'http://localhost:11434/v1',
+      });
+
+      expect(model.model).toBe('llama3');
+      expect(ChatOpenAI).toHaveBeenCalledWith(
+        expect.objectContaining({
+          openAIApiKey: 'not-needed',
+          modelName: 'llama3',
+          configuration: { baseURL: 'http://localhost:11434/v1', defaultHeaders: undefined, fetch: correlatedFetch },
+        })
+      );
+    });
+
+    it('should use the model as the Azure deployment name', () => {
+      providerRegistry.create({
+        provider: 'azure-openai',
+        apiKey: 'azure-key',
+        model: 'gpt4o-prod',
+        baseUrl: 'https://acme.openai.azure.com/openai/deployments',
+      });
+
+      expect(ChatOpenAI).toHaveBeenCalledWith(
+        expect.objectContaining({
+          azureOpenAIApiKey: 'azure-key',
+          azureOpenAIApiDeploymentName: 'gpt4o-prod',
+          azureOpenAIBasePath: 'https://acme.openai.azure.com/openai/deployments',
+          azureOpenAIApiVersion: '2024-02-01',
+        })
+      );
+    });
+
+    it('should require a base URL and model for endpoint-based providers', () => {
+      expect(() => providerRegistry.create({ provider: 'openai-compatible', model: 'llama3' })).toThrow(
+        'openai-compatible requires a base URL and a model name'
+      );
+      expect(() => providerRegistry.create({ provider: 'azure-openai', baseUrl: 'https://acme' })).toThrow(
+        'azure-openai requires a base URL and a deployment name as the model'
+      );
+    });
+  });
+});
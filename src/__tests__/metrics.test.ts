@@ -0,0 +1,76 @@
+/**
+ * Metrics registry tests
+ */
+
+import { MetricsRegistry } from '../services/metrics';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should render counters with one series per label set', () => {
+    const counter = registry.counter('events_total', 'Events received');
+
+    counter.inc({ event: 'pull_request', action: 'opened' });
+    counter.inc({ event: 'pull_request', action: 'opened' });
+    counter.inc({ event: 'ping' }, 3);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP events_total Events received',
+        '# TYPE events_total counter',
+        'events_total{event="pull_request",action="opened"} 2',
+        'events_total{event="ping"} 3',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should escape label values', () => {
+    const counter = registry.counter('skips_total', 'Skips');
+
+    counter.inc({ reason: 'say "no"\\\nplease' });
+
+    expect(registry.render()).toContain('skips_total{reason="say \\"no\\"\\\\\\nplease"} 1');
+  });
+
+  it('should render histograms with cumulative buckets, sum and count', () => {
+    const histogram = registry.histogram('latency_seconds', 'Latency', [1, 5]);
+
+    histogram.observe({ model: 'gpt-4o' }, 0.5);
+    histogram.observe({ model: 'gpt-4o' }, 3);
+    histogram.observe({ model: 'gpt-4o' }, 10);
+
+    expect(registry.render().split('\n')).toEqual([
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{model="gpt-4o",le="1"} 1',
+      'latency_seconds_bucket{model="gpt-4o",le="5"} 2',
+      'latency_seconds_bucket{model="gpt-4o",le="+Inf"} 3',
+      'latency_seconds_sum{model="gpt-4o"} 13.5',
+      'latency_seconds_count{model="gpt-4o"} 3',
+      '',
+    ]);
+  });
+
+  it('should reject duplicate metric names', () => {
+    registry.counter('events_total', 'Events');
+
+    expect(() => registry.histogram('events_total', 'Events')).toThrow("Metric 'events_total' is already registered");
+  });
+
+  it('should zero every metric on reset', () => {
+    const counter = registry.counter('events_total', 'Events');
+    const histogram = registry.histogram('latency_seconds', 'Latency');
+    counter.inc();
+    histogram.observe({}, 1);
+
+    registry.reset();
+
+    expect(counter.get()).toBe(0);
+    expect(histogram.getCount()).toBe(0);
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Unit tests for summary publishing (comment / check run)
+ * Uses a mocked GitHub service
+ */
+
+import pino from 'pino';
+import { GitHubService, PRDetails } from '../services/github';
+import { SummaryPublisher, CHECK_RUN_NAME } from '../services/publisher';
+import { PRSummary } from '../types';
+import { parseCommentMarker } from '../utils/commentMarker';
+
+describe('SummaryPublisher', () => {
+  const pr: PRDetails = {
+    number: 7,
+    title: 'Add feature',
+    body: 'Description',
+    state: 'open',
+    headSha: 'head123',
+    baseSha: 'base123',
+    labels: [],
+    author: 'author',
+    updatedAt: '2024-05-01T12:00:00Z',
+  };
+
+  const summary: PRSummary = {
+    what: 'Added a feature',
+    why: 'Users asked for it',
+    impact: 'None',
+    coverage: { filesTotal: 3, filesCovered: 1, skippedFiles: ['logo.png'] },
+  };
+
+  let github: {
+    findSummaryComment: jest.Mock;
+    findMarkedComment: jest.Mock;
+    updateComment: jest.Mock;
+    postComment: jest.Mock;
+    createCheckRun: jest.Mock;
+    fetchPullRequest: jest.Mock;
+    updatePullRequestBody: jest.Mock;
+  };
+  let publisher: SummaryPublisher;
+
+  beforeEach(() => {
+    github = {
+      findSummaryComment: jest.fn().mockResolvedValue(null),
+      findMarkedComment: jest.fn().mockResolvedValue(null),
+      updateComment: jest.fn().mockResolvedValue(undefined),
+      postComment: jest.fn().mockResolvedValue(1),
+      createCheckRun: jest.fn().mockResolvedValue(1),
+      fetchPullRequest: jest.fn().mockResolvedValue(pr),
+      updatePullRequestBody: jest.fn().mockResolvedValue(undefined),
+    };
+    publisher = new SummaryPublisher({
+      github: github as unknown as GitHubService,
+      logger: pino({ level: 'silent' }),
+    });
+  });
+
+  describe('comment mode', () => {
+    it('should post a marked comment when none exists', async () => {
+      await publisher.publish('owner', 'repo', pr, 'comment', { status: 'summary', summary });
+
+      expect(github.postComment).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        7,
+        expect.stringMatching(/^<!-- pr-summarizer:summary v=1 sha=head123 -->\n## 🤖 AI-Generated PR Summary/)
+      );
+      expect(github.createCheckRun).not.toHaveBeenCalled();
+    });
+
+    it('should update the existing marked comment', async () => {
+      github.findSummaryComment.mockResolvedValue({ id: 99, version: 1, sha: 'old' });
+
+      await publisher.publish('owner', 'repo', pr, 'comment', { status: 'needs_input' });
+
+      expect(github.updateComment).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        99,
+        expect.stringContaining('insufficient context')
+      );
+      expect(github.postComment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('check mode', () => {
+    it('should publish a successful check run annotating only files not analysed', async () => {
+      await publisher.publish('owner', 'repo', pr, 'check', {
+        status: 'summary',
+        summary,
+        files: [
+          { filename: 'src/a.ts', status: 'modified', additions: 3, deletions: 1 },
+          { filename: 'logo.png', status: 'added', additions: 0, deletions: 0 },
+          { filename: 'old.ts', status: 'removed', additions: 0, deletions: 10 },
+        ],
+      });
+
+      expect(github.postComment).not.toHaveBeenCalled();
+      expect(github.createCheckRun).toHaveBeenCalledTimes(1);
+
+      const [, , output] = github.createCheckRun.mock.calls[0] as [string, string, Record<string, unknown>];
+      expect(output).toMatchObject({
+        headSha: 'head123',
+        name: CHECK_RUN_NAME,
+        conclusion: 'success',
+        title: 'Added a feature',
+      });
+      expect(output.summary).toContain('Users asked for it');
+      expect(output.summary).not.toContain('Annotations are limited');
+      expect(output.annotations).toEqual([
+        expect.objectContaining({ path: 'logo.png', annotation_level: 'warning', title: 'Not analysed' }),
+      ]);
+    });
+
+    it('should cap annotations and say in the summary how many were left out', async () => {
+      const skippedFiles = Array.from({ length: 60 }, (_, i) => `assets/icon${i}.png`);
+
+      await publisher.publish('owner', 'repo', pr, 'check', {
+        status: 'summary',
+        summary: { ...summary, coverage: { filesTotal: 60, filesCovered: 0, skippedFiles } },
+        files: skippedFiles.map((filename) => ({ filename, status: 'added', additions: 0, deletions: 0 })),
+      });
+
+      const [, , output] = github.createCheckRun.mock.calls[0] as [string, string, Record<string, unknown>];
+      expect(output.annotations).toHaveLength(50);
+      expect(output.summary).toContain('Annotations are limited to 50 files; 10 more not analysed are only listed above.');
+    });
+
+    it('should explain why filtered files were not analysed', async () => {
+      await publisher.publish('owner', 'repo', pr, 'check', {
+        status: 'summary',
+        summary: {
+          ...summary,
+          coverage: {
+            filesTotal: 2,
+            filesCovered: 1,
+            skippedFiles: [],
+            filteredFiles: [{ filename: 'yarn.lock', reason: 'lockfile' }],
+          },
+        },
+        files: [
+          { filename: 'src/a.ts', status: 'modified', additions: 3, deletions: 1 },
+          { filename: 'yarn.lock', status: 'modified', additions: 40, deletions: 12 },
+        ],
+      });
+
+      const [, , output] = github.createCheckRun.mock.calls[0] as [string, string, Record<string, unknown>];
+      expect(output.annotations).toEqual([
+        expect.objectContaining({
+          path: 'yarn.lock',
+          annotation_level: 'warning',
+          message: 'This file (+40 / -12) was filtered out of the AI summary (lockfile).',
+        }),
+      ]);
+    });
+
+    it('should map NEEDS_INPUT to a neutral check without a comment', async () => {
+      await publisher.publish('owner', 'repo', pr, 'both', { status: 'needs_input' });
+
+      expect(github.postComment).not.toHaveBeenCalled();
+      expect(github.createCheckRun).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        expect.objectContaining({ conclusion: 'neutral', title: 'Insufficient context to summarize' })
+      );
+    });
+
+    it('should report invalid config as a neutral check', async () => {
+      await publisher.publish('owner', 'repo', pr, 'check', {
+        status: 'invalid_config',
+        source: 'owner/repo/.github/pr-summarizer.yml',
+        issues: [{ key: 'output', message: '"output" must be one of [comment, check, both]' }],
+      });
+
+      expect(github.createCheckRun).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        expect.objectContaining({ conclusion: 'neutral', summary: expect.stringContaining('`output`') })
+      );
+    });
+  });
+
+  describe('rate limited runs', () => {
+    const limit = { scope: 'repo' as const, limit: 10, remaining: 0, reset: Date.now() + 60_000, isLimited: true };
+    // Notice markers only carry hex SHAs
+    const headPr = { ...pr, headSha: 'abc123' };
+
+    it('should explain the skip in a separate comment, leaving the summary in place', async () => {
+      github.findSummaryComment.mockResolvedValue({ id: 99, version: 1, sha: 'old123' });
+
+      await publisher.publish('owner', 'repo', headPr, 'comment', { status: 'rate_limited', limit });
+
+      expect(github.updateComment).not.toHaveBeenCalled();
+      expect(github.postComment).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        7,
+        expect.stringContaining('rate limit reached')
+      );
+      const [, , , body] = github.postComment.mock.calls[0] as [string, string, number, string];
+      expect(body).not.toContain('pr-summarizer:summary');
+      expect(parseCommentMarker(body, 'notice')).toEqual({ version: 1, sha: 'abc123' });
+    });
+
+    it('should keep a single notice comment across skipped runs', async () => {
+      const comments = new Map<number, string>();
+      github.postComment.mockImplementation((_owner: string, _repo: string, _number: number, body: string) => {
+        comments.set(comments.size + 1, body);
+        return Promise.resolve(comments.size);
+      });
+      github.updateComment.mockImplementation((_owner: string, _repo: string, id: number, body: string) => {
+        comments.set(id, body);
+        return Promise.resolve();
+      });
+      github.findMarkedComment.mockImplementation(() => {
+        const found = [...comments].find(([, body]) => parseCommentMarker(body, 'notice'));
+        return Promise.resolve(found ? { id: found[0], version: 1, sha: 'abc123' } : null);
+      });
+
+      await publisher.publish('owner', 'repo', headPr, 'comment', { status: 'rate_limited', limit });
+      await publisher.publish('owner', 'repo', headPr, 'comment', {
+        status: 'invalid_config',
+        source: 'owner/repo/.github/pr-summarizer.yml',
+        issues: [{ key: 'output', message: '"output" must be one of [comment, check, both, description]' }],
+      });
+
+      expect(comments.size).toBe(1);
+      expect(comments.get(1)).toContain('`output`');
+    });
+
+    it('should not touch the description section in description mode', async () => {
+      await publisher.publish('owner', 'repo', pr, 'description', { status: 'rate_limited', limit });
+
+      expect(github.updatePullRequestBody).not.toHaveBeenCalled();
+      expect(github.postComment).toHaveBeenCalledWith('owner', 'repo', 7, expect.stringContaining('rate limit reached'));
+    });
+
+    it('should only report the skip as a check in both mode', async () => {
+      await publisher.publish('owner', 'repo', pr, 'both', { status: 'rate_limited', limit });
+
+      expect(github.createCheckRun).toHaveBeenCalledTimes(1);
+      expect(github.postComment).not.toHaveBeenCalled();
+      expect(github.updateComment).not.toHaveBeenCalled();
+    });
+
+    it('should report the skip as a neutral check', async () => {
+      await publisher.publish('owner', 'repo', pr, 'check', { status: 'rate_limited', limit });
+
+      expect(github.createCheckRun).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        expect.objectContaining({ conclusion: 'neutral', title: 'Skipped - rate limit reached' })
+      );
+    });
+  });
+
+  describe('budget exceeded runs', () => {
+    it('should report the skip as a neutral check', async () => {
+      const budget = { level: 'hard' as const, month: '2024-05', tokens: 10, costUsd: 1 };
+
+      await publisher.publish('owner', 'repo', pr, 'check', { status: 'budget_exceeded', budget });
+
+      expect(github.createCheckRun).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        expect.objectContaining({ conclusion: 'neutral', title: 'Skipped - monthly LLM budget reached' })
+      );
+    });
+  });
+
+  describe('both mode', () => {
+    it('should publish a summary as both comment and check run', async () => {
+      await publisher.publish('owner', 'repo', pr, 'both', { status: 'summary', summary });
+
+      expect(github.postComment).toHaveBeenCalledTimes(1);
+      expect(github.createCheckRun).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('superseded runs', () => {
+    let isSuperseded: jest.Mock;
+
+    beforeEach(() => {
+      isSuperseded = jest.fn().mockResolvedValue(true);
+      publisher = new SummaryPublisher({
+        github: github as unknown as GitHubService,
+        logger: pino({ level: 'silent' }),
+        isSuperseded,
+      });
+    });
+
+    it('should not overwrite the comment once a newer head SHA exists', async () => {
+      github.findSummaryComment.mockResolvedValue({ id: 99, version: 1, sha: 'newer456' });
+
+      await publisher.publish('owner', 'repo', pr, 'both', { status: 'summary', summary });
+
+      expect(isSuperseded).toHaveBeenCalledWith(pr);
+      expect(github.updateComment).not.toHaveBeenCalled();
+      expect(github.postComment).not.toHaveBeenCalled();
+      expect(github.createCheckRun).not.toHaveBeenCalled();
+    });
+
+    it('should publish while the SHA is still the head', async () => {
+      isSuperseded.mockResolvedValue(false);
+
+      await publisher.publish('owner', 'repo', pr, 'comment', { status: 'summary', summary });
+
+      expect(github.postComment).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('description mode', () => {
+    it('should write the summary into the managed section of the latest body', async () => {
+      github.fetchPullRequest.mockResolvedValue({ ...pr, body: 'Edited by author' });
+
+      await publisher.publish('owner', 'repo', pr, 'description', { status: 'summary', summary });
+
+      expect(github.updatePullRequestBody).toHaveBeenCalledTimes(1);
+      const [, , , body] = github.updatePullRequestBody.mock.calls[0] as [string, string, number, string];
+      expect(body.startsWith('Edited by author\n\n<!-- pr-summarizer:start -->\n')).toBe(true);
+      expect(body).toContain('<!-- pr-summarizer:summary v=1 sha=head123 -->');
+      expect(body).toContain('Added a feature');
+      expect(body.endsWith('<!-- pr-summarizer:end -->')).toBe(true);
+      expect(github.postComment).not.toHaveBeenCalled();
+      expect(github.createCheckRun).not.toHaveBeenCalled();
+    });
+
+    it('should not write a description for a SHA that is no longer the head', async () => {
+      github.fetchPullRequest.mockResolvedValue({ ...pr, headSha: 'newer456' });
+
+      await publisher.publish('owner', 'repo', pr, 'description', { status: 'summary', summary });
+
+      expect(github.updatePullRequestBody).not.toHaveBeenCalled();
+    });
+
+    it('should not rewrite an unchanged description', async () => {
+      await publisher.publish('owner', 'repo', pr, 'description', { status: 'summary', summary });
+      const [, , , body] = github.updatePullRequestBody.mock.calls[0] as [string, string, number, string];
+
+      github.fetchPullRequest.mockResolvedValue({ ...pr, body });
+      github.updatePullRequestBody.mockClear();
+
+      await publisher.publish('owner', 'repo', pr, 'description', { status: 'summary', summary });
+
+      expect(github.updatePullRequestBody).not.toHaveBeenCalled();
+    });
+  });
+});
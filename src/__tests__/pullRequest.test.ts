@@ -0,0 +1,290 @@
+/**
+ * Summary pipeline tests
+ * Runs processPullRequest against a mocked installation client, ioredis-mock and the fake LLM provider, covering
+ * incremental summaries and their fallbacks, the size limit, the summary cache and superseded runs
+ */
+
+import RedisMock from 'ioredis-mock';
+import pino from 'pino';
+import { loadConfig } from '../config';
+import { ServiceContainer } from '../services/container';
+import { SummarizerService } from '../services/summarizer';
+import { processPullRequest, PullRequestTarget } from '../handlers/pullRequest';
+import { PRContext, SummaryRecord } from '../types';
+import { pagesOf } from './helpers';
+
+// `revision` ends up in the patch, so each head's content (and summary cache key) differs
+const changedFile = (filename: string, revision = 'v1'): Record<string, unknown> => ({
+  filename,
+  status: 'modified',
+  additions: 2,
+  deletions: 1,
+  changes: 3,
+  patch: ['@@ -10,2 +10,3 @@', ' const attempts = countAttempts(user);', '-if (attempts > 10) {', `+// ${revision}`, '+if (attempts > 5) {'].join('\n'),
+});
+
+const commit = (sha: string, message: string): Record<string, unknown> => ({
+  sha,
+  commit: { message, author: { name: 'Dev', date: '2024-01-01T00:00:00Z' } },
+});
+
+interface PullListing {
+  // Files GitHub lists for the PR, added to the two source files
+  files?: Record<string, unknown>[];
+  // PR totals; default to the listed files' sums
+  additions?: number;
+  changedFiles?: number;
+}
+
+const createMockOctokit = (
+  headSha: string,
+  // An error makes the compare request fail with it
+  comparison: { status: string; files: Record<string, unknown>[]; aheadBy?: number } | Error,
+  listing: PullListing = {}
+): {
+  pulls: { get: jest.Mock };
+  repos: { getContent: jest.Mock; compareCommitsWithBasehead: jest.Mock };
+  issues: { createComment: jest.Mock; updateComment: jest.Mock };
+  paginate: { iterator: jest.Mock };
+} => {
+  const files = [changedFile('src/login.ts', headSha), changedFile('src/session.ts', headSha), ...(listing.files || [])];
+  const sum = (key: string): number => files.reduce((total, file) => total + (file[key] as number), 0);
+
+  return {
+    pulls: {
+      get: jest.fn().mockResolvedValue({
+        data: {
+          number: 7,
+          head: { sha: headSha },
+          additions: listing.additions ?? sum('additions'),
+          deletions: sum('deletions'),
+          changed_files: listing.changedFiles ?? files.length,
+          commits: 2,
+        },
+      }),
+    },
+    repos: {
+      // No repository config or .gitattributes
+      getContent: jest.fn().mockRejectedValue(Object.assign(new Error('Not Found'), { status: 404 })),
+      compareCommitsWithBasehead:
+        comparison instanceof Error
+          ? jest.fn().mockRejectedValue(comparison)
+          : jest.fn().mockResolvedValue({
+              data: {
+                status: comparison.status,
+                ahead_by: comparison.aheadBy ?? 1,
+                files: comparison.files,
+                commits: [commit(headSha, 'Lock accounts after repeated failures')],
+              },
+            }),
+    },
+    issues: {
+      createComment: jest.fn().mockResolvedValue({ data: { id: 1 } }),
+      updateComment: jest.fn().mockResolvedValue({ data: { id: 1 } }),
+    },
+    paginate: {
+      iterator: jest.fn((route: string) => {
+        if (route.endsWith('/files')) {
+          return pagesOf(files);
+        }
+        if (route.endsWith('/commits')) {
+          return pagesOf([commit('c1', 'Add throttling'), commit('c2', 'Add session expiry')]);
+        }
+        return pagesOf([]);
+      }),
+    },
+  };
+};
+
+describe('processPullRequest', () => {
+  const logger = pino({ level: 'silent' });
+  const ahead = { status: 'ahead', files: [changedFile('src/lockout.ts')] };
+  let redis: InstanceType<typeof RedisMock>;
+  let services: ServiceContainer;
+  let summarize: jest.SpyInstance;
+
+  const target = (headSha: string, trigger: PullRequestTarget['trigger']): PullRequestTarget => ({
+    installationId: 1,
+    owner: 'test-owner',
+    repo: 'test-repo',
+    pr: {
+      number: 7,
+      title: 'Add throttling',
+      body: 'Throttle repeated login attempts',
+      state: 'open',
+      headSha,
+      baseSha: 'base123',
+      labels: [],
+      author: 'dev',
+      updatedAt: '2024-01-01T00:00:00Z',
+    },
+    trigger,
+    actor: 'dev',
+  });
+
+  // Record the head the way the webhook handler does, then run the job for it
+  const run = async (
+    headSha: string,
+    trigger: PullRequestTarget['trigger'],
+    comparison: Parameters<typeof createMockOctokit>[1] = ahead,
+    listing?: PullListing
+  ): Promise<ReturnType<typeof createMockOctokit>> => {
+    const octokit = createMockOctokit(headSha, comparison, listing);
+    await services.cache.recordHeadSha('test-owner', 'test-repo', 7, headSha, '2024-01-01T00:00:00Z');
+    await processPullRequest(octokit as never, logger, services, target(headSha, trigger));
+    return octokit;
+  };
+
+  const lastSummary = (): Promise<SummaryRecord | null> => services.cache.getLastSummary('test-owner', 'test-repo', 7);
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'fake';
+    redis = new RedisMock();
+    services = new ServiceContainer({ config: loadConfig(), logger, redis: redis as never });
+    summarize = jest.spyOn(services.summarizer, 'summarize');
+  });
+
+  afterEach(async () => {
+    process.env.LLM_PROVIDER = 'openai';
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should summarize the whole PR when it is opened', async () => {
+    const octokit = await run('head1', 'opened');
+
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(summarize.mock.calls[0][0]).toMatchObject({ sha: 'head1' });
+    expect(summarize.mock.calls[0][0].previousSha).toBeUndefined();
+    expect(octokit.issues.createComment).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.stringContaining('src/login.ts') })
+    );
+    await expect(lastSummary()).resolves.toMatchObject({ sha: 'head1', overallSha: 'head1', incrementalRuns: 0 });
+  });
+
+  it('should summarize only the changes since the last summary on a push', async () => {
+    await run('head1', 'opened');
+
+    const octokit = await run('head2', 'synchronize');
+
+    expect(octokit.repos.compareCommitsWithBasehead).toHaveBeenCalledWith(
+      expect.objectContaining({ basehead: 'head1...head2' })
+    );
+    expect(octokit.pulls.get).not.toHaveBeenCalled();
+    expect(summarize.mock.calls[1][0]).toMatchObject({ sha: 'head2', previousSha: 'head1' });
+    expect(summarize.mock.calls[1][0].diff).toContain('src/lockout.ts');
+    await expect(lastSummary()).resolves.toMatchObject({ sha: 'head2', overallSha: 'head1', incrementalRuns: 1 });
+  });
+
+  it('should summarize in full after a force push', async () => {
+    await run('head1', 'opened');
+
+    const octokit = await run('head2', 'synchronize', { status: 'diverged', files: [changedFile('src/lockout.ts')] });
+
+    expect(octokit.pulls.get).toHaveBeenCalled();
+    expect(summarize.mock.calls[1][0]).toMatchObject({ sha: 'head2' });
+    expect(summarize.mock.calls[1][0].previousSha).toBeUndefined();
+    await expect(lastSummary()).resolves.toMatchObject({ sha: 'head2', overallSha: 'head2', incrementalRuns: 0 });
+  });
+
+  it('should summarize in full when the last summarized commit can no longer be compared', async () => {
+    await run('head1', 'opened');
+
+    const octokit = await run('head2', 'synchronize', Object.assign(new Error('No common ancestor'), { status: 404 }));
+
+    expect(octokit.repos.compareCommitsWithBasehead).toHaveBeenCalled();
+    expect(summarize).toHaveBeenCalledTimes(2);
+    expect(summarize.mock.calls[1][0].previousSha).toBeUndefined();
+    await expect(lastSummary()).resolves.toMatchObject({ sha: 'head2', overallSha: 'head2', incrementalRuns: 0 });
+  });
+
+  it('should summarize in full when the comparison is missing commits', async () => {
+    await run('head1', 'opened');
+
+    await run('head2', 'synchronize', { ...ahead, aheadBy: 300 });
+
+    expect(summarize).toHaveBeenCalledTimes(2);
+    expect(summarize.mock.calls[1][0]).toMatchObject({ sha: 'head2' });
+    expect(summarize.mock.calls[1][0].previousSha).toBeUndefined();
+    await expect(lastSummary()).resolves.toMatchObject({ overallSha: 'head2', incrementalRuns: 0 });
+  });
+
+  it('should summarize in full when the new changes alone need more input', async () => {
+    await run('head1', 'opened');
+    summarize.mockResolvedValueOnce({
+      summary: { what: '[NEEDS_INPUT]', why: '', impact: '', notes: '' },
+      tokensUsed: 10,
+      model: 'fake-llm',
+      usage: [],
+    });
+
+    await run('head2', 'synchronize');
+
+    expect(summarize).toHaveBeenCalledTimes(3);
+    expect(summarize.mock.calls[1][0]).toMatchObject({ previousSha: 'head1' });
+    expect(summarize.mock.calls[2][0]).toMatchObject({ sha: 'head2' });
+    expect(summarize.mock.calls[2][0].previousSha).toBeUndefined();
+    await expect(lastSummary()).resolves.toMatchObject({ sha: 'head2', overallSha: 'head2', incrementalRuns: 0 });
+  });
+
+  it('should refresh the overall summary after the configured number of incremental updates', async () => {
+    const refreshAfter = services.config.processing.incrementalRefreshAfter;
+    await run('head1', 'opened');
+    for (let i = 1; i <= refreshAfter; i++) {
+      await run(`push${i}`, 'synchronize');
+    }
+    await expect(lastSummary()).resolves.toMatchObject({ overallSha: 'head1', incrementalRuns: refreshAfter });
+
+    const octokit = await run('head2', 'synchronize');
+
+    expect(octokit.repos.compareCommitsWithBasehead).not.toHaveBeenCalled();
+    expect(summarize.mock.calls[refreshAfter + 1][0]).toMatchObject({ sha: 'head2' });
+    expect(summarize.mock.calls[refreshAfter + 1][0].previousSha).toBeUndefined();
+    await expect(lastSummary()).resolves.toMatchObject({ sha: 'head2', overallSha: 'head2', incrementalRuns: 0 });
+  });
+
+  it('should check maxDiffSize against the PR totals, not just the files GitHub listed', async () => {
+    services.config.processing.maxDiffSizeLines = 500;
+
+    const octokit = await run('head1', 'opened', ahead, { additions: 4000, changedFiles: 3500 });
+
+    expect(summarize).not.toHaveBeenCalled();
+    expect(octokit.issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it('should not count filtered files towards maxDiffSize', async () => {
+    services.config.processing.maxDiffSizeLines = 500;
+    const lockfile = { ...changedFile('package-lock.json'), additions: 4000, changes: 4001 };
+
+    await run('head1', 'opened', ahead, { files: [lockfile] });
+
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(summarize.mock.calls[0][0].filteredFiles).toEqual([
+      expect.objectContaining({ filename: 'package-lock.json' }),
+    ]);
+  });
+
+  it('should publish the cached summary of identical content without calling the LLM', async () => {
+    await run('head1', 'opened');
+
+    const octokit = await run('head1', 'reopened');
+
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(octokit.issues.createComment).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.stringContaining('src/login.ts') })
+    );
+  });
+
+  it('should not record a summary as the incremental base once a newer push exists', async () => {
+    // A push lands while the LLM is still working on head1
+    summarize.mockImplementationOnce(async (context: PRContext) => {
+      await services.cache.recordHeadSha('test-owner', 'test-repo', 7, 'head2', '2024-01-01T00:01:00Z');
+      return SummarizerService.prototype.summarize.call(services.summarizer, context);
+    });
+
+    await run('head1', 'opened');
+
+    expect(summarize).toHaveBeenCalledTimes(1);
+    await expect(lastSummary()).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Rate limiter tests
+ * Uses ioredis-mock to simulate Redis
+ */
+
+import RedisMock from 'ioredis-mock';
+import pino from 'pino';
+import { RateLimiter, RateLimitSubject } from '../services/rateLimiter';
+
+describe('RateLimiter', () => {
+  const WINDOW_SECONDS = 3600;
+  let redis: InstanceType<typeof RedisMock>;
+  let limiter: RateLimiter;
+  let now: number;
+  const logger = pino({ level: 'silent' });
+  const subject: RateLimitSubject = { installationId: 1, owner: 'owner', repo: 'repo', author: 'alice' };
+
+  const createLimiter = (quotas = { installation: 5, repo: 3, author: 2 }): RateLimiter =>
+    new RateLimiter({ redis: redis as never, logger, windowSeconds: WINDOW_SECONDS, quotas });
+
+  const exhaust = async (count: number, target = subject): Promise<void> => {
+    for (let i = 0; i < count; i++) {
+      await limiter.check(target);
+      now += 1000;
+    }
+  };
+
+  beforeEach(() => {
+    redis = new RedisMock();
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    limiter = createLimiter();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should allow requests within every quota', async () => {
+    const result = await limiter.check(subject);
+
+    expect(result.isLimited).toBe(false);
+    expect(result.scopes.map((s) => [s.scope, s.remaining])).toEqual([
+      ['installation', 4],
+      ['repo', 2],
+      ['author', 1],
+    ]);
+  });
+
+  it('should reject once the tightest quota is exhausted', async () => {
+    await exhaust(2);
+
+    const result = await limiter.check(subject);
+
+    expect(result.isLimited).toBe(true);
+    expect(result.limitedBy).toMatchObject({ scope: 'author', limit: 2, remaining: 0 });
+  });
+
+  it('should track repository and author quotas separately', async () => {
+    await exhaust(2);
+
+    const result = await limiter.check({ ...subject, author: 'bob' });
+
+    expect(result.isLimited).toBe(false);
+    expect(result.scopes.find((s) => s.scope === 'repo')?.remaining).toBe(0);
+  });
+
+  it('should apply the installation quota across repositories', async () => {
+    limiter = createLimiter({ installation: 2, repo: 10, author: 10 });
+    await exhaust(2);
+
+    const result = await limiter.check({ ...subject, repo: 'other' });
+
+    expect(result.limitedBy?.scope).toBe('installation');
+  });
+
+  it('should not consume quota for rejected requests', async () => {
+    await exhaust(4);
+
+    const result = await limiter.check({ ...subject, author: 'bob' });
+
+    expect(result.isLimited).toBe(false);
+  });
+
+  it('should report reset as the time the oldest request leaves the window', async () => {
+    const first = now;
+    await exhaust(2);
+
+    const result = await limiter.check(subject);
+
+    expect(result.limitedBy?.reset).toBe(first + WINDOW_SECONDS * 1000);
+  });
+
+  it('should free capacity as requests slide out of the window', async () => {
+    await exhaust(2);
+
+    now += WINDOW_SECONDS * 1000 - 1500;
+    const result = await limiter.check(subject);
+
+    expect(result.isLimited).toBe(false);
+    expect(result.scopes.find((s) => s.scope === 'author')?.remaining).toBe(0);
+  });
+
+  it('should skip scopes with a quota of 0', async () => {
+    limiter = createLimiter({ installation: 0, repo: 1, author: 0 });
+
+    const result = await limiter.check(subject);
+
+    expect(result.scopes.map((s) => s.scope)).toEqual(['repo']);
+  });
+
+  it('should reset a single scope', async () => {
+    await exhaust(2);
+
+    await limiter.reset('author', 'alice');
+
+    await expect(limiter.check(subject)).resolves.toMatchObject({ isLimited: false });
+  });
+
+  it('should allow requests when Redis is unavailable', async () => {
+    jest.spyOn(redis, 'eval').mockRejectedValue(new Error('Connection refused'));
+
+    const result = await limiter.check(subject);
+
+    expect(result.isLimited).toBe(false);
+    expect(result.scopes).toHaveLength(3);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Integration tests for repository config loading
+ * Uses mocked GitHub service and ioredis-mock
+ */
+
+import RedisMock from 'ioredis-mock';
+import pino from 'pino';
+import { CacheService } from '../services/cache';
+import { GitHubService } from '../services/github';
+import {
+  RepoConfigService,
+  InvalidRepoConfigError,
+  parseBotConfig,
+  getDefaultBotConfig,
+  REPO_CONFIG_PATH,
+} from '../services/repoConfig';
+import { loadConfig } from '../config';
+import { BotConfig } from '../types';
+
+describe('repository config', () => {
+  const defaults: BotConfig = {
+    enabled: true,
+    autoSummarizeOn: ['opened', 'synchronize', 'reopened'],
+    ignoreLabels: [],
+    maxDiffSize: 5000,
+    output: 'comment',
+    incremental: true,
+    includeFiles: [],
+    excludeFiles: [],
+  };
+
+  describe('getDefaultBotConfig', () => {
+    it('should derive maxDiffSize from app config', () => {
+      const botConfig = getDefaultBotConfig(loadConfig());
+
+      expect(botConfig.enabled).toBe(true);
+      expect(botConfig.maxDiffSize).toBe(5000);
+      expect(botConfig.autoSummarizeOn).toEqual(['opened', 'synchronize', 'reopened']);
+      expect(botConfig.incremental).toBe(true);
+      expect(botConfig.output).toBe('comment');
+    });
+  });
+
+  describe('parseBotConfig', () => {
+    it('should parse valid YAML config', () => {
+      const result = parseBotConfig('enabled: false\nignoreLabels:\n  - wip\nmaxDiffSize: 200\n', 'test');
+
+      expect(result).toEqual({ enabled: false, ignoreLabels: ['wip'], maxDiffSize: 200 });
+    });
+
+    it('should treat an empty file as no overrides', () => {
+      expect(parseBotConfig('', 'test')).toEqual({});
+    });
+
+    it('should report every invalid key', () => {
+      const raw = 'enabled: "yes"\nautoSummarizeOn:\n  - closed\nmaxDiffSize: -1\n';
+
+      let caught: unknown;
+      try {
+        parseBotConfig(raw, 'owner/repo/.github/pr-summarizer.yml');
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(InvalidRepoConfigError);
+      const { issues, source } = caught as InvalidRepoConfigError;
+      expect(issues.map((i) => i.key)).toEqual(['enabled', 'autoSummarizeOn.0', 'maxDiffSize']);
+      expect(source).toBe('owner/repo/.github/pr-summarizer.yml');
+    });
+
+    it('should accept supported output modes only', () => {
+      expect(parseBotConfig('output: both\n', 'test')).toEqual({ output: 'both' });
+      expect(() => parseBotConfig('output: email\n', 'test')).toThrow('output');
+    });
+
+    it('should reject unknown keys', () => {
+      expect(() => parseBotConfig('maxDiffSzie: 100\n', 'test')).toThrow('maxDiffSzie');
+    });
+
+    it('should reject malformed YAML', () => {
+      expect(() => parseBotConfig('enabled: [true\n', 'test')).toThrow(InvalidRepoConfigError);
+    });
+
+    it('should reject non-object documents', () => {
+      expect(() => parseBotConfig('- enabled\n', 'test')).toThrow(InvalidRepoConfigError);
+    });
+  });
+
+  describe('RepoConfigService', () => {
+    let redis: InstanceType<typeof RedisMock>;
+    let fetchFileContent: jest.Mock;
+    let service: RepoConfigService;
+
+    beforeEach(() => {
+      const logger = pino({ level: 'silent' });
+      redis = new RedisMock();
+      fetchFileContent = jest.fn().mockResolvedValue(null);
+      service = new RepoConfigService({
+        github: { fetchFileContent } as unknown as GitHubService,
+        cache: new CacheService({ redis: redis as never, logger }),
+        logger,
+        defaults,
+      });
+    });
+
+    afterEach(async () => {
+      await redis.flushall();
+      redis.disconnect();
+    });
+
+    it('should fall back to defaults when no config files exist', async () => {
+      const result = await service.load('owner', 'repo', 'sha1');
+
+      expect(result).toEqual(defaults);
+      expect(fetchFileContent).toHaveBeenCalledWith('owner', '.github', REPO_CONFIG_PATH, undefined);
+      expect(fetchFileContent).toHaveBeenCalledWith('owner', 'repo', REPO_CONFIG_PATH, 'sha1');
+    });
+
+    it('should merge repo config over org config over defaults', async () => {
+      fetchFileContent.mockImplementation((_owner: string, repo: string) =>
+        Promise.resolve(repo === '.github' ? 'ignoreLabels: [wip]\nmaxDiffSize: 100\n' : 'maxDiffSize: 300\n')
+      );
+
+      const result = await service.load('owner', 'repo', 'sha1');
+
+      expect(result).toEqual({ ...defaults, ignoreLabels: ['wip'], maxDiffSize: 300 });
+    });
+
+    it('should cache resolved config per repo and ref', async () => {
+      fetchFileContent.mockResolvedValue('enabled: false\n');
+
+      await service.load('owner', 'repo', 'sha1');
+      const second = await service.load('owner', 'repo', 'sha1');
+
+      expect(second.enabled).toBe(false);
+      expect(fetchFileContent).toHaveBeenCalledTimes(2);
+
+      await service.load('owner', 'repo', 'sha2');
+      expect(fetchFileContent).toHaveBeenCalledTimes(4);
+    });
+
+    it('should surface invalid config instead of falling back', async () => {
+      fetchFileContent.mockImplementation((_owner: string, repo: string) =>
+        Promise.resolve(repo === 'repo' ? 'enabled: maybe\n' : null)
+      );
+
+      await expect(service.load('owner', 'repo', 'sha1')).rejects.toThrow(InvalidRepoConfigError);
+    });
+  });
+});
@@ -1,322 +1,660 @@
-/**
- * Integration tests for Summarizer service
- * Uses mocked LLM responses
- */
-
-import pino from 'pino';
-import { SummarizerService } from '../services/summarizer';
-import { PRContext } from '../types';
-
-// Mock LangChain modules
-jest.mock('@langchain/openai');
-jest.mock('@langchain/anthropic');
-
-import { ChatOpenAI } from '@langchain/openai';
-import { ChatAnthropic } from '@langchain/anthropic';
-
-describe('SummarizerService', () => {
-  let logger: pino.Logger;
-
-  beforeEach(() => {
-    logger = pino({ level: 'silent' });
-    jest.clearAllMocks();
-  });
-
-  describe('OpenAI provider', () => {
-    it('should generate PR summary successfully', async () => {
-      const mockInvoke = jest.fn().mockResolvedValue({
-        content: JSON.stringify({
-          what: 'Added user authentication',
-          why: 'To secure the application',
-          impact: 'Users must now log in',
-          notes: 'Database migration required',
-        }),
-        response_metadata: {
-          estimatedTokenUsage: {
-            total: 150,
-          },
-        },
-      });
-
-      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
-        invoke: mockInvoke,
-      }));
-
-      const summarizer = new SummarizerService({
-        provider: 'openai',
-        apiKey: 'test-key',
-        logger,
-      });
-
-      const context: PRContext = {
-        owner: 'test-owner',
-        repo: 'test-repo',
-        pullNumber: 123,
-        sha: 'abc123',
-        diff: 'diff content here with sufficient length to pass validation checks for meaningful content',
-        commits: [{ sha: 'abc123', message: 'feat: add authentication' }],
-        description: 'This PR adds user authentication',
-      };
-
-      const result = await summarizer.summarize(context);
-
-      expect(result.summary.what).toBe('Added user authentication');
-      expect(result.summary.why).toBe('To secure the application');
-      expect(result.summary.impact).toBe('Users must now log in');
-      expect(result.tokensUsed).toBe(150);
-      // Skip model check since mock doesn't preserve instanceof
-      expect(mockInvoke).toHaveBeenCalledTimes(1);
-    });
-
-    it('should parse JSON from markdown code blocks', async () => {
-      const mockInvoke = jest.fn().mockResolvedValue({
-        content: '```json\n{"what": "Test", "why": "Test", "impact": "Test"}\n```',
-        response_metadata: {},
-      });
-
-      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
-        invoke: mockInvoke,
-      }));
-
-      const summarizer = new SummarizerService({
-        provider: 'openai',
-        apiKey: 'test-key',
-        logger,
-      });
-
-      const context: PRContext = {
-        owner: 'test',
-        repo: 'test',
-        pullNumber: 1,
-        sha: 'abc',
-        diff: 'diff content here with sufficient length to pass validation',
-        commits: [{ sha: 'abc', message: 'test' }],
-        description: 'test description with enough content',
-      };
-
-      const result = await summarizer.summarize(context);
-
-      expect(result.summary.what).toBe('Test');
-    });
-  });
-
-  describe('Anthropic provider', () => {
-    it('should generate PR summary with Anthropic', async () => {
-      const mockInvoke = jest.fn().mockResolvedValue({
-        content: JSON.stringify({
-          what: 'Fixed critical bug',
-          why: 'Bug caused data loss',
-          impact: 'Data integrity restored',
-        }),
-        response_metadata: {},
-      });
-
-      (ChatAnthropic as unknown as jest.Mock).mockImplementation(() => ({
-        invoke: mockInvoke,
-      }));
-
-      const summarizer = new SummarizerService({
-        provider: 'anthropic',
-        apiKey: 'test-key',
-        logger,
-      });
-
-      const context: PRContext = {
-        owner: 'test',
-        repo: 'test',
-        pullNumber: 1,
-        sha: 'abc',
-        diff: 'diff content here with sufficient length to pass validation',
-        commits: [{ sha: 'abc', message: 'fix: critical bug' }],
-        description: 'test description',
-      };
-
-      const result = await summarizer.summarize(context);
-
-      expect(result.summary.what).toBe('Fixed critical bug');
-      // Skip model check since mock doesn't preserve instanceof
-    });
-  });
-
-  describe('[NEEDS_INPUT] detection', () => {
-    it('should return NEEDS_INPUT when diff is too small', async () => {
-      const summarizer = new SummarizerService({
-        provider: 'openai',
-        apiKey: 'test-key',
-        logger,
-      });
-
-      const context: PRContext = {
-        owner: 'test',
-        repo: 'test',
-        pullNumber: 1,
-        sha: 'abc',
-        diff: 'short',
-        commits: [{ sha: 'abc', message: 'test' }],
-      };
-
-      const result = await summarizer.summarize(context);
-
-      expect(result.summary.what).toBe('[NEEDS_INPUT]');
-      expect(result.summary.why).toBe('[NEEDS_INPUT]');
-      expect(result.summary.impact).toBe('[NEEDS_INPUT]');
-      expect(result.tokensUsed).toBe(0);
-    });
-
-    it('should return NEEDS_INPUT when no commits or description', async () => {
-      const summarizer = new SummarizerService({
-        provider: 'openai',
-        apiKey: 'test-key',
-        logger,
-      });
-
-      const context: PRContext = {
-        owner: 'test',
-        repo: 'test',
-        pullNumber: 1,
-        sha: 'abc',
-        diff: 'diff content here with sufficient length to pass validation checks',
-        commits: [],
-      };
-
-      const result = await summarizer.summarize(context);
-
-      expect(result.summary.what).toBe('[NEEDS_INPUT]');
-    });
-  });
-
-  describe('Error handling', () => {
-    it('should retry on transient errors', async () => {
-      const error = Object.assign(new Error('Rate limited'), { status: 429 });
-      const mockInvoke = jest
-        .fn()
-        .mockRejectedValueOnce(error)
-        .mockResolvedValueOnce({
-          content: JSON.stringify({
-            what: 'Test',
-            why: 'Test',
-            impact: 'Test',
-          }),
-          response_metadata: {},
-        });
-
-      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
-        invoke: mockInvoke,
-      }));
-
-      const summarizer = new SummarizerService({
-        provider: 'openai',
-        apiKey: 'test-key',
-        logger,
-      });
-
-      const context: PRContext = {
-        owner: 'test',
-        repo: 'test',
-        pullNumber: 1,
-        sha: 'abc123',
-        diff: 'diff content here with sufficient length to pass validation checks for meaningful content analysis',
-        commits: [{ sha: 'abc123', message: 'feat: add new feature with detailed implementation' }],
-        description: 'This PR adds a new feature to improve the application functionality',
-      };
-
-      const result = await summarizer.summarize(context);
-
-      expect(result.summary.what).toBe('Test');
-      expect(mockInvoke).toHaveBeenCalledTimes(2);
-    });
-
-    it('should throw after max retries', async () => {
-      const error = Object.assign(new Error('Server error'), { status: 500 });
-      const mockInvoke = jest.fn().mockRejectedValue(error);
-
-      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
-        invoke: mockInvoke,
-      }));
-
-      const summarizer = new SummarizerService({
-        provider: 'openai',
-        apiKey: 'test-key',
-        logger,
-      });
-
-      const context: PRContext = {
-        owner: 'test',
-        repo: 'test',
-        pullNumber: 1,
-        sha: 'abc123',
-        diff: 'diff content here with sufficient length to pass validation checks for meaningful content analysis',
-        commits: [{ sha: 'abc123', message: 'feat: add new feature with detailed implementation' }],
-        description: 'This PR adds a new feature to improve the application functionality',
-      };
-
-      await expect(summarizer.summarize(context)).rejects.toThrow();
-      expect(mockInvoke).toHaveBeenCalledTimes(3);
-    });
-
-    it('should throw on invalid JSON response', async () => {
-      const mockInvoke = jest.fn().mockResolvedValue({
-        content: 'not valid json',
-        response_metadata: {},
-      });
-
-      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
-        invoke: mockInvoke,
-      }));
-
-      const summarizer = new SummarizerService({
-        provider: 'openai',
-        apiKey: 'test-key',
-        logger,
-      });
-
-      const context: PRContext = {
-        owner: 'test',
-        repo: 'test',
-        pullNumber: 1,
-        sha: 'abc123',
-        diff: 'diff content here with sufficient length to pass validation checks for meaningful content analysis',
-        commits: [{ sha: 'abc123', message: 'feat: add new feature with detailed implementation' }],
-        description: 'This PR adds a new feature to improve the application functionality',
-      };
-
-      await expect(summarizer.summarize(context)).rejects.toThrow('Invalid JSON response from LLM');
-    });
-  });
-
-  describe('Circuit breaker', () => {
-    it('should open circuit after threshold failures', async () => {
-      const error = Object.assign(new Error('Server error'), { status: 500 });
-      const mockInvoke = jest.fn().mockRejectedValue(error);
-
-      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
-        invoke: mockInvoke,
-      }));
-
-      const summarizer = new SummarizerService({
-        provider: 'openai',
-        apiKey: 'test-key',
-        logger,
-      });
-
-      const context: PRContext = {
-        owner: 'test',
-        repo: 'test',
-        pullNumber: 1,
-        sha: 'abc123',
-        diff: 'diff content here with sufficient length to pass validation checks for meaningful content analysis',
-        commits: [{ sha: 'abc123', message: 'feat: add new feature with detailed implementation' }],
-        description: 'This PR adds a new feature to improve the application functionality',
-      };
-
-      // Trigger 5 failures to open circuit breaker
-      // Each call will attempt 3 times (initial + 2 retries) = 15 total invocations
-      for (let i = 0; i < 5; i++) {
-        await expect(summarizer.summarize(context)).rejects.toThrow();
-      }
-
-      // Next call should fail immediately due to open circuit
-      await expect(summarizer.summarize(context)).rejects.toThrow('Circuit breaker is open');
-    }, 30000); // Increase timeout to 30s for retry delays
-  });
-});
+/**
+ * Integration tests for Summarizer service
+ * Uses mocked LLM responses
+ */
+
+import pino from 'pino';
+import { SummarizerService } from '../services/summarizer';
+import { ChatModel, ProviderRegistry } from '../services/llmProviders';
+import { PRContext } from '../types';
+import { llmRequestDuration, llmTokensUsed, metrics } from '../services/metrics';
+
+// Mock LangChain modules
+jest.mock('@langchain/openai');
+jest.mock('@langchain/anthropic');
+
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+
+describe('SummarizerService', () => {
+  let logger: pino.Logger;
+
+  beforeEach(() => {
+    logger = pino({ level: 'silent' });
+    jest.clearAllMocks();
+  });
+
+  describe('OpenAI provider', () => {
+    it('should generate PR summary successfully', async () => {
+      const mockInvoke = jest.fn().mockResolvedValue({
+        content: JSON.stringify({
+          what: 'Added user authentication',
+          why: 'To secure the application',
+          impact: 'Users must now log in',
+          notes: 'Database migration required',
+        }),
+        response_metadata: {
+          tokenUsage: {
+            promptTokens: 120,
+            completionTokens: 30,
+          },
+        },
+      });
+
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: mockInvoke,
+      }));
+
+      const summarizer = new SummarizerService({
+        provider: 'openai',
+        apiKey: 'test-key',
+        logger,
+      });
+
+      const context: PRContext = {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        pullNumber: 123,
+        sha: 'abc123',
+        diff: 'diff content here with sufficient length to pass validation checks for meaningful content',
+        commits: [{ sha: 'abc123', message: 'feat: add authentication' }],
+        description: 'This PR adds user authentication',
+      };
+
+      const result = await summarizer.summarize(context);
+
+      expect(result.summary.what).toBe('Added user authentication');
+      expect(result.summary.why).toBe('To secure the application');
+      expect(result.summary.impact).toBe('Users must now log in');
+      expect(result.tokensUsed).toBe(150);
+      expect(result.usage).toEqual([{ model: 'gpt-4o', inputTokens: 120, outputTokens: 30 }]);
+      // Skip model check since mock doesn't preserve instanceof
+      expect(mockInvoke).toHaveBeenCalledTimes(1);
+    });
+
+    it('should parse JSON from markdown code blocks', async () => {
+      const mockInvoke = jest.fn().mockResolvedValue({
+        content: '```json\n{"what": "Test", "why": "Test", "impact": "Test"}\n```',
+        response_metadata: {},
+      });
+
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: mockInvoke,
+      }));
+
+      const summarizer = new SummarizerService({
+        provider: 'openai',
+        apiKey: 'test-key',
+        logger,
+      });
+
+      const context: PRContext = {
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc',
+        diff: 'diff content here with sufficient length to pass validation',
+        commits: [{ sha: 'abc', message: 'test' }],
+        description: 'test description with enough content',
+      };
+
+      const result = await summarizer.summarize(context);
+
+      expect(result.summary.what).toBe('Test');
+    });
+  });
+
+  describe('Anthropic provider', () => {
+    it('should generate PR summary with Anthropic', async () => {
+      const mockInvoke = jest.fn().mockResolvedValue({
+        content: JSON.stringify({
+          what: 'Fixed critical bug',
+          why: 'Bug caused data loss',
+          impact: 'Data integrity restored',
+        }),
+        response_metadata: {},
+      });
+
+      (ChatAnthropic as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: mockInvoke,
+      }));
+
+      const summarizer = new SummarizerService({
+        provider: 'anthropic',
+        apiKey: 'test-key',
+        logger,
+      });
+
+      const context: PRContext = {
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc',
+        diff: 'diff content here with sufficient length to pass validation',
+        commits: [{ sha: 'abc', message: 'fix: critical bug' }],
+        description: 'test description',
+      };
+
+      const result = await summarizer.summarize(context);
+
+      expect(result.summary.what).toBe('Fixed critical bug');
+      // Skip model check since mock doesn't preserve instanceof
+    });
+  });
+
+  describe('Large diffs', () => {
+    const bigPatch = (name: string): string => `@@ -1,1 +1,1 @@\n+${name} ${'x'.repeat(3000)}`;
+
+    it('should summarize chunks and merge them in a reduce pass', async () => {
+      const mockInvoke = jest.fn().mockImplementation((prompt: string) =>
+        Promise.resolve({
+          content: JSON.stringify({
+            what: prompt.includes('Partial summaries') ? 'Merged summary' : 'Partial summary',
+            why: 'Reason',
+            impact: 'Impact',
+          }),
+          response_metadata: { tokenUsage: { promptTokens: 8, completionTokens: 2 } },
+        })
+      );
+
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: mockInvoke,
+      }));
+
+      const summarizer = new SummarizerService({
+        provider: 'openai',
+        apiKey: 'test-key',
+        logger,
+      });
+
+      const files = [
+        { filename: 'a.ts', patch: bigPatch('a') },
+        { filename: 'b.ts', patch: bigPatch('b') },
+        { filename: 'c.ts', patch: bigPatch('c') },
+        { filename: 'd.ts', patch: bigPatch('d') },
+        { filename: 'image.png' },
+      ];
+
+      const context: PRContext = {
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc',
+        diff: files.map((f) => `--- ${f.filename}\n${f.patch || ''}`).join('\n\n'),
+        files,
+        commits: [{ sha: 'abc', message: 'feat: large change' }],
+        description: 'A large change across many files',
+      };
+
+      const result = await summarizer.summarize(context);
+
+      // 4 files of ~3KB pack into 2 chunks of 8KB, plus one reduce call
+      expect(mockInvoke).toHaveBeenCalledTimes(3);
+      expect(mockInvoke).toHaveBeenLastCalledWith(expect.stringContaining('Partial summaries'));
+      expect(result.summary.what).toBe('Merged summary');
+      expect(result.summary.coverage).toEqual({ filesTotal: 5, filesCovered: 4, skippedFiles: ['image.png'] });
+      expect(result.tokensUsed).toBe(30);
+      expect(result.usage).toEqual([{ model: 'gpt-4o', inputTokens: 24, outputTokens: 6 }]);
+    });
+
+    it('should report coverage for diffs that fit in one prompt', async () => {
+      const mockInvoke = jest.fn().mockResolvedValue({
+        content: JSON.stringify({ what: 'Test', why: 'Test', impact: 'Test', coverage: { filesTotal: 99 } }),
+        response_metadata: {},
+      });
+
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: mockInvoke,
+      }));
+
+      const summarizer = new SummarizerService({
+        provider: 'openai',
+        apiKey: 'test-key',
+        logger,
+      });
+
+      const context: PRContext = {
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc',
+        diff: 'diff content here with sufficient length to pass validation checks',
+        files: [{ filename: 'a.ts', patch: '@@ -1 +1 @@' }, { filename: 'b.bin' }],
+        commits: [{ sha: 'abc', message: 'feat: small change' }],
+      };
+
+      const result = await summarizer.summarize(context);
+
+      expect(mockInvoke).toHaveBeenCalledTimes(1);
+      expect(result.summary.coverage).toEqual({ filesTotal: 2, filesCovered: 1, skippedFiles: ['b.bin'] });
+    });
+
+    it('should count filtered files as not analysed', async () => {
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: jest.fn().mockResolvedValue({
+          content: JSON.stringify({ what: 'Test', why: 'Test', impact: 'Test' }),
+          response_metadata: {},
+        }),
+      }));
+
+      const summarizer = new SummarizerService({ provider: 'openai', apiKey: 'test-key', logger });
+
+      const result = await summarizer.summarize({
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc',
+        diff: 'diff content here with sufficient length to pass validation checks',
+        files: [{ filename: 'a.ts', patch: '@@ -1 +1 @@' }],
+        filteredFiles: [{ filename: 'yarn.lock', reason: 'lockfile' }],
+        commits: [{ sha: 'abc', message: 'feat: small change' }],
+      });
+
+      expect(result.summary.coverage).toEqual({
+        filesTotal: 2,
+        filesCovered: 1,
+        skippedFiles: [],
+        filteredFiles: [{ filename: 'yarn.lock', reason: 'lockfile' }],
+      });
+    });
+
+    it('should count files GitHub did not list towards the total', async () => {
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: jest.fn().mockResolvedValue({
+          content: JSON.stringify({ what: 'Test', why: 'Test', impact: 'Test' }),
+          response_metadata: {},
+        }),
+      }));
+
+      const summarizer = new SummarizerService({ provider: 'openai', apiKey: 'test-key', logger });
+      const partial = { files: 1, totalFiles: 3200, commits: 250, totalCommits: 400 };
+
+      const result = await summarizer.summarize({
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc',
+        diff: 'diff content here with sufficient length to pass validation checks',
+        files: [{ filename: 'a.ts', patch: '@@ -1 +1 @@' }],
+        commits: [{ sha: 'abc', message: 'feat: small change' }],
+        partial,
+      });
+
+      expect(result.summary.coverage).toEqual({ filesTotal: 3200, filesCovered: 1, skippedFiles: [], partial });
+    });
+  });
+
+  describe('getCacheKey', () => {
+    const context: PRContext = {
+      owner: 'test',
+      repo: 'test',
+      pullNumber: 1,
+      sha: 'abc123',
+      diff: '--- src/a.ts\n@@ -10,3 +10,4 @@ export class A\n+retry();',
+      commits: [{ sha: 'abc123', message: 'fix: retry sync' }],
+      description: 'Retries flaky syncs',
+    };
+
+    const keyFor = (ctx: PRContext, model?: string): string =>
+      new SummarizerService({ provider: 'openai', apiKey: 'test-key', model, logger }).getCacheKey(ctx);
+
+    it('should keep the key when a rebase only moves lines and SHAs', () => {
+      const rebased: PRContext = {
+        ...context,
+        sha: 'def456',
+        diff: '--- src/a.ts\r\n@@ -42,3 +42,4 @@ export class A  \r\n+retry();',
+        commits: [{ sha: 'def456', message: 'fix: retry sync\n' }],
+      };
+
+      expect(keyFor(rebased)).toBe(keyFor(context));
+    });
+
+    it('should change the key with the content or the model', () => {
+      const key = keyFor(context);
+
+      expect(keyFor({ ...context, diff: `${context.diff}\n+log();` })).not.toBe(key);
+      expect(keyFor({ ...context, description: 'Something else' })).not.toBe(key);
+      expect(keyFor({ ...context, commits: [{ sha: 'abc123', message: 'fix: other' }] })).not.toBe(key);
+      expect(keyFor(context, 'gpt-4o-mini')).not.toBe(key);
+    });
+  });
+
+  describe('Incremental updates', () => {
+    it('should ask only about the changes since the previous summary', async () => {
+      const mockInvoke = jest.fn().mockResolvedValue({
+        content: JSON.stringify({ what: 'Added retries', why: 'Flaky sync', impact: 'None' }),
+        response_metadata: {},
+      });
+
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: mockInvoke,
+      }));
+
+      const summarizer = new SummarizerService({ provider: 'openai', apiKey: 'test-key', logger });
+
+      await summarizer.summarize({
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'def456',
+        diff: 'diff content here with sufficient length to pass validation checks',
+        commits: [{ sha: 'def456', message: 'fix: retry sync' }],
+        previousSha: 'abc123',
+      });
+
+      expect(mockInvoke).toHaveBeenCalledWith(
+        expect.stringContaining('only what was pushed since abc123, which was already summarized')
+      );
+    });
+  });
+
+  describe('explainFile', () => {
+    it('should return the explanation for a single file', async () => {
+      const mockInvoke = jest.fn().mockResolvedValue({
+        content: '  This file registers a new handler.  ',
+        response_metadata: {},
+      });
+
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: mockInvoke,
+      }));
+
+      const summarizer = new SummarizerService({
+        provider: 'openai',
+        apiKey: 'test-key',
+        logger,
+      });
+
+      const context: PRContext = {
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc',
+        diff: '@@ -1 +1 @@\n-old\n+new',
+        commits: [],
+        description: 'Adds a handler',
+      };
+
+      const result = await summarizer.explainFile(context, 'src/index.ts', context.diff);
+
+      expect(result.filename).toBe('src/index.ts');
+      expect(result.explanation).toBe('This file registers a new handler.');
+      expect(result.model).toBe('gpt-4o');
+      expect(mockInvoke).toHaveBeenCalledWith(expect.stringContaining('File: src/index.ts'));
+    });
+  });
+
+  describe('[NEEDS_INPUT] detection', () => {
+    it('should return NEEDS_INPUT when diff is too small', async () => {
+      const summarizer = new SummarizerService({
+        provider: 'openai',
+        apiKey: 'test-key',
+        logger,
+      });
+
+      const context: PRContext = {
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc',
+        diff: 'short',
+        commits: [{ sha: 'abc', message: 'test' }],
+      };
+
+      const result = await summarizer.summarize(context);
+
+      expect(result.summary.what).toBe('[NEEDS_INPUT]');
+      expect(result.summary.why).toBe('[NEEDS_INPUT]');
+      expect(result.summary.impact).toBe('[NEEDS_INPUT]');
+      expect(result.tokensUsed).toBe(0);
+    });
+
+    it('should return NEEDS_INPUT when no commits or description', async () => {
+      const summarizer = new SummarizerService({
+        provider: 'openai',
+        apiKey: 'test-key',
+        logger,
+      });
+
+      const context: PRContext = {
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc',
+        diff: 'diff content here with sufficient length to pass validation checks',
+        commits: [],
+      };
+
+      const result = await summarizer.summarize(context);
+
+      expect(result.summary.what).toBe('[NEEDS_INPUT]');
+    });
+  });
+
+  describe('Error handling', () => {
+    it('should retry on transient errors', async () => {
+      const error = Object.assign(new Error('Rate limited'), { status: 429 });
+      const mockInvoke = jest
+        .fn()
+        .mockRejectedValueOnce(error)
+        .mockResolvedValueOnce({
+          content: JSON.stringify({
+            what: 'Test',
+            why: 'Test',
+            impact: 'Test',
+          }),
+          response_metadata: {},
+        });
+
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: mockInvoke,
+      }));
+
+      const summarizer = new SummarizerService({
+        provider: 'openai',
+        apiKey: 'test-key',
+        logger,
+      });
+
+      const context: PRContext = {
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc123',
+        diff: 'diff content here with sufficient length to pass validation checks for meaningful content analysis',
+        commits: [{ sha: 'abc123', message: 'feat: add new feature with detailed implementation' }],
+        description: 'This PR adds a new feature to improve the application functionality',
+      };
+
+      const result = await summarizer.summarize(context);
+
+      expect(result.summary.what).toBe('Test');
+      expect(mockInvoke).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw after max retries', async () => {
+      const error = Object.assign(new Error('Server error'), { status: 500 });
+      const mockInvoke = jest.fn().mockRejectedValue(error);
+
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: mockInvoke,
+      }));
+
+      const summarizer = new SummarizerService({
+        provider: 'openai',
+        apiKey: 'test-key',
+        logger,
+      });
+
+      const context: PRContext = {
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc123',
+        diff: 'diff content here with sufficient length to pass validation checks for meaningful content analysis',
+        commits: [{ sha: 'abc123', message: 'feat: add new feature with detailed implementation' }],
+        description: 'This PR adds a new feature to improve the application functionality',
+      };
+
+      await expect(summarizer.summarize(context)).rejects.toThrow();
+      expect(mockInvoke).toHaveBeenCalledTimes(3);
+    });
+
+    it('should throw on invalid JSON response', async () => {
+      const mockInvoke = jest.fn().mockResolvedValue({
+        content: 'not valid json',
+        response_metadata: {},
+      });
+
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: mockInvoke,
+      }));
+
+      const summarizer = new SummarizerService({
+        provider: 'openai',
+        apiKey: 'test-key',
+        logger,
+      });
+
+      const context: PRContext = {
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc123',
+        diff: 'diff content here with sufficient length to pass validation checks for meaningful content analysis',
+        commits: [{ sha: 'abc123', message: 'feat: add new feature with detailed implementation' }],
+        description: 'This PR adds a new feature to improve the application functionality',
+      };
+
+      await expect(summarizer.summarize(context)).rejects.toThrow('Invalid JSON response from LLM');
+    });
+  });
+
+  describe('Circuit breaker', () => {
+    it('should open circuit after threshold failures', async () => {
+      const error = Object.assign(new Error('Server error'), { status: 500 });
+      const mockInvoke = jest.fn().mockRejectedValue(error);
+
+      (ChatOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+        invoke: mockInvoke,
+      }));
+
+      const summarizer = new SummarizerService({
+        provider: 'openai',
+        apiKey: 'test-key',
+        logger,
+      });
+
+      const context: PRContext = {
+        owner: 'test',
+        repo: 'test',
+        pullNumber: 1,
+        sha: 'abc123',
+        diff: 'diff content here with sufficient length to pass validation checks for meaningful content analysis',
+        commits: [{ sha: 'abc123', message: 'feat: add new feature with detailed implementation' }],
+        description: 'This PR adds a new feature to improve the application functionality',
+      };
+
+      // Trigger 5 failures to open circuit breaker
+      // Each call will attempt 3 times (initial + 2 retries) = 15 total invocations
+      for (let i = 0; i < 5; i++) {
+        await expect(summarizer.summarize(context)).rejects.toThrow();
+      }
+
+      // Next call should fail immediately due to open circuit
+      await expect(summarizer.summarize(context)).rejects.toThrow('Circuit breaker is open');
+    }, 30000); // Increase timeout to 30s for retry delays
+  });
+
+  describe('Fallback providers', () => {
+    const context: PRContext = {
+      owner: 'test',
+      repo: 'test',
+      pullNumber: 1,
+      sha: 'abc123',
+      diff: 'diff content here with sufficient length to pass validation checks for meaningful content analysis',
+      commits: [{ sha: 'abc123', message: 'feat: add new feature with detailed implementation' }],
+      description: 'This PR adds a new feature to improve the application functionality',
+    };
+
+    const summaryJson = JSON.stringify({ what: 'Fallback what', why: 'Why', impact: 'Impact' });
+
+    const createModel = (model: string, invoke: jest.Mock): ChatModel => ({ model, invoke });
+
+    const createSummarizer = (primary: ChatModel, backup: ChatModel): SummarizerService =>
+      new SummarizerService({
+        provider: 'primary',
+        fallbacks: [{ provider: 'backup' }],
+        registry: new ProviderRegistry().register('primary', () => primary).register('backup', () => backup),
+        logger,
+      });
+
+    it('should fall through to the next provider when the primary fails', async () => {
+      const primary = createModel('gpt-4o', jest.fn().mockResolvedValue({ content: 'not json', tokensUsed: 5 }));
+      const backup = createModel('llama3', jest.fn().mockResolvedValue({ content: summaryJson, tokensUsed: 10 }));
+
+      const result = await createSummarizer(primary, backup).summarize(context);
+
+      expect(result.model).toBe('llama3');
+      expect(result.summary.what).toBe('Fallback what');
+      expect(result.summary.fallback).toEqual({ model: 'llama3', primaryModel: 'gpt-4o' });
+    });
+
+    it('should not mark summaries from the primary provider as fallbacks', async () => {
+      const primary = createModel('gpt-4o', jest.fn().mockResolvedValue({ content: summaryJson, tokensUsed: 5 }));
+      const backupInvoke = jest.fn();
+
+      const result = await createSummarizer(primary, createModel('llama3', backupInvoke)).summarize(context);
+
+      expect(result.model).toBe('gpt-4o');
+      expect(result.summary.fallback).toBeUndefined();
+      expect(backupInvoke).not.toHaveBeenCalled();
+    });
+
+    it('should skip a provider whose circuit breaker is open', async () => {
+      const primaryInvoke = jest.fn().mockResolvedValue({ content: 'not json', tokensUsed: 5 });
+      const backup = createModel('llama3', jest.fn().mockResolvedValue({ content: summaryJson, tokensUsed: 10 }));
+      const summarizer = createSummarizer(createModel('gpt-4o', primaryInvoke), backup);
+
+      // Invalid JSON is not retried, so each run records one primary failure
+      for (let i = 0; i < 5; i++) {
+        await summarizer.summarize(context);
+      }
+      primaryInvoke.mockClear();
+
+      const result = await summarizer.summarize(context);
+
+      expect(result.model).toBe('llama3');
+      expect(primaryInvoke).not.toHaveBeenCalled();
+    });
+
+    it('should record latency and token metrics per provider', async () => {
+      metrics.reset();
+      const primary = createModel(
+        'gpt-4o',
+        jest.fn().mockRejectedValue(Object.assign(new Error('Bad request'), { status: 400 }))
+      );
+      const backup = createModel(
+        'llama3',
+        jest.fn().mockResolvedValue({ content: summaryJson, tokensUsed: 15, inputTokens: 10, outputTokens: 5 })
+      );
+
+      await createSummarizer(primary, backup).summarize(context);
+
+      expect(llmRequestDuration.getCount({ provider: 'primary', model: 'gpt-4o', outcome: 'error' })).toBe(1);
+      expect(llmRequestDuration.getCount({ provider: 'backup', model: 'llama3', outcome: 'success' })).toBe(1);
+      expect(llmTokensUsed.get({ model: 'llama3', direction: 'input' })).toBe(10);
+      expect(llmTokensUsed.get({ model: 'llama3', direction: 'output' })).toBe(5);
+    });
+
+    it('should throw the last error when every provider fails', async () => {
+      const primary = createModel('gpt-4o', jest.fn().mockResolvedValue({ content: 'not json', tokensUsed: 5 }));
+      const backupInvoke = jest.fn().mockResolvedValue({ content: 'also not json', tokensUsed: 5 });
+
+      await expect(createSummarizer(primary, createModel('llama3', backupInvoke)).summarize(context)).rejects.toThrow(
+        'Invalid JSON response from LLM'
+      );
+      expect(backupInvoke).toHaveBeenCalledTimes(1);
+    });
+  });
+});
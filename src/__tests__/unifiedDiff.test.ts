@@ -0,0 +1,50 @@
+/**
+ * Unit tests for raw unified diff parsing
+ */
+
+import { parseUnifiedDiff } from '../utils/unifiedDiff';
+
+describe('parseUnifiedDiff', () => {
+  it('should split a raw diff into per-file patches starting at the first hunk', () => {
+    const raw = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,2 +1,2 @@',
+      '-old',
+      '+new',
+      'diff --git a/old.sql b/old.sql',
+      'deleted file mode 100644',
+      '--- a/old.sql',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-DROP TABLE a;',
+      '',
+    ].join('\n');
+
+    const files = parseUnifiedDiff(raw);
+
+    expect([...files.keys()]).toEqual(['src/a.ts', 'old.sql']);
+    expect(files.get('src/a.ts')).toEqual({ patch: '@@ -1,2 +1,2 @@\n-old\n+new', binary: false });
+    expect(files.get('old.sql')).toEqual({ patch: '@@ -1 +0,0 @@\n-DROP TABLE a;', binary: false });
+  });
+
+  it('should mark binary files and key renames by their new path', () => {
+    const raw = [
+      'diff --git a/logo.png b/logo.png',
+      'new file mode 100644',
+      'index 0000000..89abcde',
+      'Binary files /dev/null and b/logo.png differ',
+      'diff --git a/docs/old name.md b/docs/new name.md',
+      'similarity index 100%',
+      'rename from docs/old name.md',
+      'rename to docs/new name.md',
+    ].join('\n');
+
+    const files = parseUnifiedDiff(raw);
+
+    expect(files.get('logo.png')).toEqual({ patch: undefined, binary: true });
+    expect(files.get('docs/new name.md')).toEqual({ patch: undefined, binary: false });
+  });
+});
@@ -3,14 +3,16 @@
  * Centralized configuration management with validation
  */
 
+import { FakeLLMFailure, FakeLLMOptions, LLMProviderSettings, ModelPrice } from './types';
+
 export interface AppConfig {
   github: {
     appId: number;
     privateKey: string;
     webhookSecret: string;
   };
-  llm: {
-    provider: 'openai' | 'anthropic';
+  llm: LLMProviderSettings & {
+    fallbacks: LLMProviderSettings[];
     openaiApiKey?: string;
     anthropicApiKey?: string;
   };
@@ -19,18 +21,66 @@ export interface AppConfig {
     password?: string;
   };
   rateLimiting: {
+    // Sliding window shared by all quotas
     windowSeconds: number;
+    // Per-repository quota
     maxRequests: number;
+    installationMaxRequests: number;
+    authorMaxRequests: number;
+  };
+  budget: {
+    // Monthly limits per installation; 0 disables a limit
+    softLimitTokens: number;
+    hardLimitTokens: number;
+    softLimitUsd: number;
+    hardLimitUsd: number;
+    // Primary provider model used once the soft limit is reached
+    economyModel?: string;
+    // Overrides for the built-in price table
+    pricing: Record<string, ModelPrice>;
+  };
+  circuitBreaker: {
+    failureThreshold: number;
+    cooldownSeconds: number;
+  };
+  queue: {
+    maxAttempts: number;
+    backoffSeconds: number;
+    visibilityTimeoutSeconds: number;
+    workerConcurrency: number;
+    // Delay synchronize jobs so rapid pushes collapse into one summary of the latest head
+    debounceSeconds: number;
+    // Also run the worker inside the webhook server (single-instance deployments)
+    workerInProcess: boolean;
   };
   processing: {
     maxDiffSizeLines: number;
     summaryCacheTTL: number;
     auditLogRetentionDays: number;
+    // Default for the repo-level `incremental` setting
+    incrementalSummaries: boolean;
+    // Regenerate the overall summary after this many incremental updates
+    incrementalRefreshAfter: number;
   };
   server: {
     port: number;
     nodeEnv: string;
     logLevel: string;
+    // Serve /healthz, /readyz and /metrics from the worker process on this port
+    metricsPort?: number;
+  };
+  // Forward audit entries to a JSONL file or an HTTP endpoint; off when unset
+  auditSink?: {
+    file?: string;
+    url?: string;
+    headers?: Record<string, string>;
+    batchSize: number;
+    flushIntervalSeconds: number;
+    maxRetries: number;
+  };
+  admin: {
+    // Bearer token for the /admin API; the API is disabled when unset
+    token?: string;
   };
   sentry?: {
     dsn: string;
@@ -55,44 +105,41 @@ export function loadConfig(): AppConfig {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
   }
 
-  const llmProvider = process.env.LLM_PROVIDER as 'openai' | 'anthropic';
-
-  if (llmProvider === 'openai' && !process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is required when LLM_PROVIDER=openai');
-  }
-
-  if (llmProvider === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
-    throw new Error('ANTHROPIC_API_KEY is required when LLM_PROVIDER=anthropic');
-  }
-
   return {
     github: {
       appId: parseInt(process.env.GITHUB_APP_ID!, 10),
       privateKey: process.env.GITHUB_PRIVATE_KEY!.replace(/\\n/g, '\n'),
       webhookSecret: process.env.GITHUB_WEBHOOK_SECRET!,
     },
-    llm: {
-      provider: llmProvider,
-      openaiApiKey: process.env.OPENAI_API_KEY,
-      anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-    },
+    llm: loadLLMConfig(),
     redis: {
       url: process.env.REDIS_URL!,
       password: process.env.REDIS_PASSWORD,
     },
-    rateLimiting: {
-      windowSeconds: parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || '10', 10),
-      maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '1', 10),
+    rateLimiting: loadRateLimitingConfig(),
+    budget: loadBudgetConfig(),
+    circuitBreaker: {
+      failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5', 10),
+      cooldownSeconds: parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_SECONDS || '60', 10),
     },
-    processing: {
-      maxDiffSizeLines: parseInt(process.env.MAX_DIFF_SIZE_LINES || '5000', 10),
-      summaryCacheTTL: parseInt(process.env.SUMMARY_CACHE_TTL || '86400', 10),
-      auditLogRetentionDays: parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '7', 10),
+    queue: {
+      maxAttempts: parseInt(process.env.QUEUE_MAX_ATTEMPTS || '5', 10),
+      backoffSeconds: parseInt(process.env.QUEUE_BACKOFF_SECONDS || '30', 10),
+      visibilityTimeoutSeconds: parseInt(process.env.QUEUE_VISIBILITY_TIMEOUT_SECONDS || '600', 10),
+      workerConcurrency: parseInt(process.env.WORKER_CONCURRENCY || '2', 10),
+      debounceSeconds: parseInt(process.env.SYNCHRONIZE_DEBOUNCE_SECONDS || '20', 10),
+      workerInProcess: process.env.WORKER_IN_PROCESS === 'true',
     },
+    processing: loadProcessingConfig(),
     server: {
       port: parseInt(process.env.PORT || '3000', 10),
       nodeEnv: process.env.NODE_ENV || 'development',
       logLevel: process.env.LOG_LEVEL || 'info',
+      metricsPort: process.env.METRICS_PORT ? parseInt(process.env.METRICS_PORT, 10) : undefined,
+    },
+    auditSink: loadAuditSinkConfig(),
+    admin: {
+      token: process.env.ADMIN_API_TOKEN || undefined,
     },
     sentry: process.env.SENTRY_DSN
       ? {
@@ -101,3 +148,214 @@ export function loadConfig(): AppConfig {
       : undefined,
   };
 }
+
+/**
+ * Diff size limit, cache and audit retention, and incremental summaries
+ */
+function loadProcessingConfig(): AppConfig['processing'] {
+  return {
+    maxDiffSizeLines: parseInt(process.env.MAX_DIFF_SIZE_LINES || '5000', 10),
+    summaryCacheTTL: parseInt(process.env.SUMMARY_CACHE_TTL || '86400', 10),
+    auditLogRetentionDays: parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '7', 10),
+    incrementalSummaries: process.env.INCREMENTAL_SUMMARIES !== 'false',
+    incrementalRefreshAfter: parseInt(process.env.INCREMENTAL_REFRESH_AFTER || '5', 10),
+  };
+}
+
+/**
+ * Sliding-window quotas (RATE_LIMIT_*); a quota of 0 disables that scope
+ */
+function loadRateLimitingConfig(): AppConfig['rateLimiting'] {
+  return {
+    windowSeconds: parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || '3600', 10),
+    maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '10', 10),
+    installationMaxRequests: parseInt(process.env.RATE_LIMIT_INSTALLATION_MAX_REQUESTS || '100', 10),
+    authorMaxRequests: parseInt(process.env.RATE_LIMIT_AUTHOR_MAX_REQUESTS || '20', 10),
+  };
+}
+
+/**
+ * Monthly LLM budgets per installation (BUDGET_*) and model prices (LLM_PRICING)
+ */
+function loadBudgetConfig(): AppConfig['budget'] {
+  return {
+    softLimitTokens: parseInt(process.env.BUDGET_SOFT_LIMIT_TOKENS || '0', 10),
+    hardLimitTokens: parseInt(process.env.BUDGET_HARD_LIMIT_TOKENS || '0', 10),
+    softLimitUsd: parseFloat(process.env.BUDGET_SOFT_LIMIT_USD || '0'),
+    hardLimitUsd: parseFloat(process.env.BUDGET_HARD_LIMIT_USD || '0'),
+    economyModel: process.env.BUDGET_ECONOMY_MODEL,
+    pricing: parsePricing(process.env.LLM_PRICING),
+  };
+}
+
+/**
+ * Audit forwarding (AUDIT_SINK_*): a local JSONL file or an HTTP endpoint, not both
+ */
+function loadAuditSinkConfig(): AppConfig['auditSink'] {
+  const file = process.env.AUDIT_SINK_FILE || undefined;
+  const url = process.env.AUDIT_SINK_URL || undefined;
+
+  if (!file && !url) {
+    return undefined;
+  }
+
+  if (file && url) {
+    throw new Error('Set only one of AUDIT_SINK_FILE and AUDIT_SINK_URL');
+  }
+
+  return {
+    file,
+    url,
+    headers: parseHeaders(process.env.AUDIT_SINK_HEADERS, 'AUDIT_SINK_HEADERS'),
+    batchSize: parseInt(process.env.AUDIT_SINK_BATCH_SIZE || '50', 10),
+    flushIntervalSeconds: parseInt(process.env.AUDIT_SINK_FLUSH_INTERVAL_SECONDS || '5', 10),
+    maxRetries: parseInt(process.env.AUDIT_SINK_MAX_RETRIES || '3', 10),
+  };
+}
+
+/**
+ * Parse LLM_PRICING, a JSON object of model names to USD per million input/output tokens
+ * e.g. {"llama3.1":{"input":0,"output":0},"gpt-4o":{"input":2.5,"output":10}}
+ */
+function parsePricing(raw: string | undefined): Record<string, ModelPrice> {
+  if (!raw) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('LLM_PRICING must be valid JSON');
+  }
+
+  const isPrice = (p: unknown): boolean =>
+    !!p && typeof (p as ModelPrice).input === 'number' && typeof (p as ModelPrice).output === 'number';
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) || !Object.values(parsed).every(isPrice)) {
+    throw new Error('LLM_PRICING must map model names to {"input": number, "output": number}');
+  }
+
+  return parsed as Record<string, ModelPrice>;
+}
+
+/**
+ * Load LLM provider settings, validating what the built-in providers need
+ */
+function loadLLMConfig(): AppConfig['llm'] {
+  const llmProvider = process.env.LLM_PROVIDER!;
+  const llmApiKey = process.env.LLM_API_KEY || getProviderApiKey(llmProvider);
+
+  if (llmProvider === 'openai' && !llmApiKey) {
+    throw new Error('OPENAI_API_KEY is required when LLM_PROVIDER=openai');
+  }
+
+  if (llmProvider === 'anthropic' && !llmApiKey) {
+    throw new Error('ANTHROPIC_API_KEY is required when LLM_PROVIDER=anthropic');
+  }
+
+  if (llmProvider === 'azure-openai' && !llmApiKey) {
+    throw new Error('AZURE_OPENAI_API_KEY is required when LLM_PROVIDER=azure-openai');
+  }
+
+  if ((llmProvider === 'azure-openai' || llmProvider === 'openai-compatible') &&
+    (!process.env.LLM_BASE_URL || !process.env.LLM_MODEL)) {
+    throw new Error(`LLM_BASE_URL and LLM_MODEL are required when LLM_PROVIDER=${llmProvider}`);
+  }
+
+  return {
+    provider: llmProvider,
+    apiKey: llmApiKey,
+    model: process.env.LLM_MODEL,
+    baseUrl: process.env.LLM_BASE_URL,
+    headers: parseHeaders(process.env.LLM_HEADERS, 'LLM_HEADERS'),
+    apiVersion: process.env.LLM_API_VERSION,
+    fake: llmProvider === 'fake' ? loadFakeLLMOptions() : undefined,
+    fallbacks: parseFallbacks(process.env.LLM_FALLBACKS),
+    openaiApiKey: process.env.OPENAI_API_KEY,
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+  };
+}
+
+/**
+ * Options for the offline 'fake' provider (FAKE_LLM_*)
+ */
+function loadFakeLLMOptions(): FakeLLMOptions {
+  const failure = process.env.FAKE_LLM_FAILURE;
+  if (failure && !['rate_limit', 'timeout', 'malformed'].includes(failure)) {
+    throw new Error('FAKE_LLM_FAILURE must be one of: rate_limit, timeout, malformed');
+  }
+
+  return {
+    fixturesDir: process.env.FAKE_LLM_FIXTURES_DIR,
+    latencyMs: parseInt(process.env.FAKE_LLM_LATENCY_MS || '0', 10),
+    failure: failure as FakeLLMFailure | undefined,
+    failTimes: process.env.FAKE_LLM_FAIL_TIMES ? parseInt(process.env.FAKE_LLM_FAIL_TIMES, 10) : undefined,
+  };
+}
+
+/**
+ * Parse LLM_FALLBACKS, a JSON array of provider settings tried in order after the primary
+ * e.g. [{"provider":"anthropic"},{"provider":"openai-compatible","model":"llama3","baseUrl":"http://..."}]
+ * Entries without an apiKey use the provider's vendor-specific key variable.
+ */
+function parseFallbacks(raw: string | undefined): LLMProviderSettings[] {
+  if (!raw) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('LLM_FALLBACKS must be valid JSON');
+  }
+
+  if (!Array.isArray(parsed) || parsed.some((e) => !e || typeof (e as { provider?: unknown }).provider !== 'string')) {
+    throw new Error('LLM_FALLBACKS must be a JSON array of objects with a provider name');
+  }
+
+  return (parsed as LLMProviderSettings[]).map((entry) => ({
+    ...entry,
+    apiKey: entry.apiKey || getProviderApiKey(entry.provider),
+  }));
+}
+
+/**
+ * Vendor-specific API key variable for a built-in provider (LLM_API_KEY overrides it)
+ */
+function getProviderApiKey(provider: string): string | undefined {
+  switch (provider) {
+    case 'openai':
+      return process.env.OPENAI_API_KEY;
+    case 'anthropic':
+      return process.env.ANTHROPIC_API_KEY;
+    case 'azure-openai':
+      return process.env.AZURE_OPENAI_API_KEY;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse a JSON object of extra HTTP headers (LLM_HEADERS, AUDIT_SINK_HEADERS)
+ */
+function parseHeaders(raw: string | undefined, name: string): Record<string, string> | undefined {
+  if (!raw) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error(`${name} must be valid JSON`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) ||
+    Object.values(parsed).some((v) => typeof v !== 'string')) {
+    throw new Error(`${name} must be a JSON object of header names to string values`);
+  }
+
+  return parsed as Record<string, string>;
+}
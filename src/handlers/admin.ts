@@ -0,0 +1,277 @@
+/**
+ * Admin HTTP API
+ * Audit log queries and exports, rate limit and cache overrides, usage and dead-letter management for operators.
+ * Mounted under /admin on the Probot server and protected by a bearer token.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { NextFunction, Request, Response, Router } from 'express';
+import { Logger } from 'probot';
+import { ServiceContainer } from '../services/container';
+import { InvalidAuditCursorError } from '../services/cache';
+import {
+  AUDIT_EXPORT_CONTENT_TYPES,
+  AUDIT_EXPORT_FORMATS,
+  AuditExportFormat,
+  exportAuditLogs,
+} from '../services/auditExport';
+import { AuditLogQuery } from '../types';
+import { CORRELATION_ID_HEADER, currentCorrelationId, runWithCorrelationId } from '../utils/correlation';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * A request the API rejects with 400
+ */
+class BadRequestError extends Error {}
+
+interface Page {
+  offset: number;
+  limit: number;
+}
+
+type AdminRoute = (req: Request, res: Response) => Promise<void>;
+
+/**
+ * Register the admin routes on a router (e.g. `getRouter('/admin')`)
+ */
+export function registerAdminRoutes(router: Router, services: ServiceContainer, log: Logger, token: string): void {
+  const route =
+    (handler: AdminRoute) =>
+    (req: Request, res: Response): void => {
+      handler(req, res).catch((error: unknown) => {
+        if (error instanceof BadRequestError || error instanceof InvalidAuditCursorError) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+
+        log.error({ error, path: req.path }, 'Admin API request failed');
+        if (res.headersSent) {
+          // Mid-stream failure: cut the response short so the client can't mistake it for a full export
+          res.destroy();
+          return;
+        }
+        res.status(500).json({ error: 'Internal server error' });
+      });
+    };
+
+  router.use(requireBearerToken(token));
+
+  // Trace each admin request like a webhook delivery; callers may supply their own ID
+  router.use((req, res, next) => {
+    const correlationId = req.header(CORRELATION_ID_HEADER) || randomUUID();
+    res.setHeader(CORRELATION_ID_HEADER, correlationId);
+    runWithCorrelationId(correlationId, next);
+  });
+
+  router.get(
+    '/health',
+    route(async (_req, res) => {
+      const redis = await services.cache.healthCheck();
+      const queue = redis ? await services.queue.getCounts() : null;
+
+      res.status(redis ? 200 : 503).json({ status: redis ? 'ok' : 'unavailable', redis, queue });
+    })
+  );
+
+  router.get(
+    '/audit',
+    route(async (req, res) => {
+      const { limit } = parsePage(req.query);
+      const page = await services.cache.queryAuditLogs({
+        ...parseAuditFilters(req.query),
+        cursor: getString(req.query.cursor),
+        limit,
+      });
+
+      res.json({ data: page.entries, pagination: { limit, nextCursor: page.nextCursor } });
+    })
+  );
+
+  router.get(
+    '/audit/export',
+    route(async (req, res) => {
+      const filters = parseAuditFilters(req.query);
+      const format = (getString(req.query.format) || 'jsonl') as AuditExportFormat;
+
+      if (!AUDIT_EXPORT_FORMATS.includes(format)) {
+        throw new BadRequestError(`'format' must be one of: ${AUDIT_EXPORT_FORMATS.join(', ')}`);
+      }
+
+      await audit(services, 'admin_audit_exported', 'audit', { format, ...filters });
+
+      res.setHeader('Content-Type', `${AUDIT_EXPORT_CONTENT_TYPES[format]}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log.${format}"`);
+
+      // Streams page by page with backpressure; stops reading the store if the client disconnects
+      await pipeline(Readable.from(exportAuditLogs(services.cache, filters, format)), res);
+    })
+  );
+
+  router.delete(
+    '/rate-limit/:owner/:repo',
+    route(async (req, res) => {
+      const repo = `${req.params.owner}/${req.params.repo}`;
+
+      await services.rateLimiter.reset('repo', repo);
+      await audit(services, 'admin_rate_limit_reset', repo);
+
+      res.json({ reset: true, scope: 'repo', id: repo });
+    })
+  );
+
+  router.delete(
+    '/cache/:owner/:repo/:pr',
+    route(async (req, res) => {
+      const { owner, repo } = req.params;
+      const pr = parsePullNumber(req.params.pr);
+
+      const deleted = await services.cache.clearSummaries(owner, repo, pr);
+      await audit(services, 'admin_cache_cleared', `${owner}/${repo}#${pr}`, { deleted });
+
+      res.json({ deleted });
+    })
+  );
+
+  router.get(
+    '/usage/:installationId',
+    route(async (req, res) => {
+      const installationId = Number(req.params.installationId);
+      const month = getString(req.query.month);
+
+      if (!Number.isInteger(installationId) || (month !== undefined && !/^\d{4}-\d{2}$/.test(month))) {
+        throw new BadRequestError('Expected a numeric installation id and an optional month as YYYY-MM');
+      }
+
+      res.json(await services.budget.getUsage(installationId, month));
+    })
+  );
+
+  router.get(
+    '/dead-letters',
+    route(async (req, res) => {
+      const { offset, limit } = parsePage(req.query);
+      // Fetch one extra entry to know whether another page exists
+      const entries = await services.queue.listDeadLetters(offset, limit + 1);
+
+      res.json({
+        data: entries.slice(0, limit),
+        pagination: { offset, limit, nextOffset: entries.length > limit ? offset + limit : null },
+      });
+    })
+  );
+
+  router.post(
+    '/dead-letters/:jobId/replay',
+    route(async (req, res) => {
+      const { jobId } = req.params;
+      const replayed = await services.queue.replayDeadLetter(jobId);
+
+      if (!replayed) {
+        res.status(404).json({ error: `No dead-lettered job '${jobId}'` });
+        return;
+      }
+
+      await audit(services, 'admin_dead_letter_replayed', jobId);
+      res.json({ replayed: true, jobId });
+    })
+  );
+
+  log.info('Admin API enabled');
+}
+
+/**
+ * Reject requests without `Authorization: Bearer <token>`, comparing in constant time
+ */
+function requireBearerToken(token: string): (req: Request, res: Response, next: NextFunction) => void {
+  const expected = createHash('sha256').update(token).digest();
+
+  return (req, res, next) => {
+    const match = (req.headers.authorization || '').match(/^Bearer (.+)$/);
+    const provided = createHash('sha256')
+      .update(match ? match[1] : '')
+      .digest();
+
+    if (!match || !timingSafeEqual(provided, expected)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Record an admin action in the audit log
+ */
+async function audit(
+  services: ServiceContainer,
+  action: string,
+  resource: string,
+  details?: Record<string, unknown>
+): Promise<void> {
+  await services.cache.logAudit({
+    timestamp: Date.now(),
+    correlationId: currentCorrelationId(),
+    actor: 'admin',
+    action,
+    resource,
+    details,
+  });
+}
+
+/**
+ * Accept epoch milliseconds or an ISO 8601 date
+ */
+function parseTime(value: unknown, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const time = typeof value === 'string' ? (/^\d+$/.test(value) ? Number(value) : Date.parse(value)) : NaN;
+  if (Number.isNaN(time)) {
+    throw new BadRequestError(`'${name}' must be epoch milliseconds or an ISO 8601 date`);
+  }
+
+  return time;
+}
+
+/**
+ * Filters shared by the audit query and export routes
+ */
+function parseAuditFilters(query: Request['query']): Omit<AuditLogQuery, 'cursor' | 'limit'> {
+  return {
+    from: parseTime(query.from, 'from'),
+    to: parseTime(query.to, 'to'),
+    repo: getString(query.repo),
+    actor: getString(query.actor),
+    action: getString(query.action),
+  };
+}
+
+function parsePage(query: Request['query']): Page {
+  const offset = query.offset === undefined ? 0 : Number(query.offset);
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+
+  if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new BadRequestError(`'offset' must be 0 or more and 'limit' between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  return { offset, limit };
+}
+
+function getString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function parsePullNumber(value: string): number {
+  const pr = Number(value);
+  if (!Number.isInteger(pr) || pr < 1) {
+    throw new BadRequestError('Pull request number must be a positive integer');
+  }
+
+  return pr;
+}
@@ -0,0 +1,135 @@
+/**
+ * Health, Readiness and Metrics Endpoints
+ * Unauthenticated probes for orchestrators and Prometheus: /healthz, /readyz and /metrics.
+ * Served by the Probot server, and by the worker on METRICS_PORT.
+ */
+
+import { createServer, Server } from 'http';
+import { Request, Response, Router } from 'express';
+import { Logger } from 'probot';
+import { ServiceContainer } from '../services/container';
+import { metrics } from '../services/metrics';
+import { BreakerStatus } from '../services/circuitBreaker';
+import { providerRegistry } from '../services/llmProviders';
+import { findBotConfigIssues, getDefaultBotConfig } from '../services/repoConfig';
+import { AppConfig } from '../config';
+
+export interface ProbeResponse {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  redis: boolean;
+  config: boolean;
+  // Informational: an open breaker means that model is failing, but jobs still queue and fall back
+  breakers: { key: string; status: BreakerStatus | 'unknown' }[];
+}
+
+const PROBE_PATHS = ['/healthz', '/readyz', '/metrics'];
+
+/**
+ * Ready when Redis is reachable (webhooks can enqueue) and the config is usable
+ */
+export async function checkReadiness(services: ServiceContainer): Promise<ReadinessReport> {
+  const keys = [...new Set([...services.summarizer.breakerKeys, ...services.economySummarizer.breakerKeys])];
+  const [redis, states] = await Promise.all([
+    services.cache.healthCheck(),
+    Promise.all(keys.map((key) => services.breaker.getState(key))),
+  ]);
+  const config = checkConfig(services.config);
+
+  return {
+    ready: redis && config,
+    redis,
+    config,
+    breakers: keys.map((key, i) => ({ key, status: states[i]?.status ?? 'unknown' })),
+  };
+}
+
+/**
+ * Usable when every configured LLM provider is registered and the repository config defaults built from the
+ * environment pass the same schema as `.github/pr-summarizer.yml`
+ */
+export function checkConfig(config: AppConfig): boolean {
+  const providers = [config.llm, ...config.llm.fallbacks].map((settings) => settings.provider);
+
+  return (
+    providers.every((provider) => providerRegistry.has(provider)) &&
+    findBotConfigIssues(getDefaultBotConfig(config)).length === 0
+  );
+}
+
+/**
+ * Answer a probe path, or null for any other path
+ */
+export async function handleProbe(path: string, services: ServiceContainer): Promise<ProbeResponse | null> {
+  switch (path) {
+    case '/healthz':
+      return json(200, { status: 'ok', uptimeSeconds: Math.round(process.uptime()) });
+
+    case '/readyz': {
+      const report = await checkReadiness(services);
+      return json(report.ready ? 200 : 503, { status: report.ready ? 'ready' : 'unavailable', ...report });
+    }
+
+    case '/metrics':
+      return { status: 200, contentType: 'text/plain; version=0.0.4; charset=utf-8', body: metrics.render() };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Register the probes on a router mounted at the server root (e.g. `getRouter()`)
+ */
+export function registerHealthRoutes(router: Router, services: ServiceContainer, log: Logger): void {
+  for (const path of PROBE_PATHS) {
+    router.get(path, (_req: Request, res: Response) => {
+      handleProbe(path, services)
+        .then((probe) => {
+          if (!probe) {
+            res.status(404).json({ error: 'Not found' });
+            return;
+          }
+          send(res, probe);
+        })
+        .catch((error: unknown) => {
+          log.error({ error, path }, 'Probe failed');
+          res.status(500).json({ error: 'Internal server error' });
+        });
+    });
+  }
+}
+
+/**
+ * Standalone probe server for processes without the Probot server (the worker)
+ */
+export function createProbeServer(services: ServiceContainer, log: Logger): Server {
+  return createServer((req, res) => {
+    const path = (req.url || '/').split('?')[0];
+
+    handleProbe(req.method === 'GET' ? path : '', services)
+      .then((probe) => {
+        const response = probe || json(404, { error: 'Not found' });
+        res.writeHead(response.status, { 'Content-Type': response.contentType }).end(response.body);
+      })
+      .catch((error: unknown) => {
+        log.error({ error, path }, 'Probe failed');
+        res.writeHead(500).end();
+      });
+  });
+}
+
+function json(status: number, body: unknown): ProbeResponse {
+  return { status, contentType: 'application/json; charset=utf-8', body: JSON.stringify(body) };
+}
+
+function send(res: Response, probe: ProbeResponse): void {
+  // Set directly: express would reorder the content type's parameters
+  res.status(probe.status).setHeader('Content-Type', probe.contentType);
+  res.end(probe.body);
+}
@@ -0,0 +1,235 @@
+/**
+ * Issue Comment Event Handler
+ * Runs `@pr-summarizer <command>` comment commands on pull requests
+ */
+
+import { Context, Logger } from 'probot';
+import { Octokit } from '@octokit/rest';
+import { GitHubService } from '../services/github';
+import { ServiceContainer } from '../services/container';
+import { RepoConfigService, InvalidRepoConfigError, getDefaultBotConfig } from '../services/repoConfig';
+import { BotConfig } from '../types';
+import { loadFileRules, PullRequestTarget } from './pullRequest';
+import { getExplainJobId, getSummarizeJobId } from './jobs';
+import { parseCommand } from '../utils/commands';
+import { stripDescriptionSection } from '../utils/descriptionSection';
+import { classifyFiles } from '../utils/fileFilter';
+import {
+  formatCommandHelpMessage,
+  formatPermissionDeniedMessage,
+  formatFileExplanation,
+  formatFileNotInDiffMessage,
+  formatExplainRateLimitedMessage,
+  formatExplainBudgetExceededMessage,
+  formatFileFilteredMessage,
+  formatCommandMergedMessage,
+  formatInvalidConfigMessage,
+} from '../utils/formatter';
+
+/**
+ * Handles issue_comment.created events
+ * Orchestrates: command parsing → permission check → acknowledgement → job enqueue
+ */
+export async function handleIssueCommentEvent(
+  context: Context<'issue_comment.created'>,
+  services: ServiceContainer
+): Promise<void> {
+  const { payload } = context;
+  const { issue, comment } = payload;
+  const owner = payload.repository.owner.login;
+  const repo = payload.repository.name;
+  const installationId = payload.installation?.id;
+
+  // Only PR conversations, and never react to bots (including ourselves)
+  if (!issue.pull_request || comment.user.type === 'Bot' || !installationId) {
+    return;
+  }
+
+  const command = parseCommand(comment.body);
+  if (!command) {
+    return;
+  }
+
+  context.log.info('Processing comment command', {
+    repo: payload.repository.full_name,
+    pr: issue.number,
+    command: command.name,
+    actor: comment.user.login,
+  });
+
+  try {
+    const githubService = new GitHubService({ octokit: context.octokit as never, logger: context.log });
+
+    const permission = await githubService.getPermissionLevel(owner, repo, comment.user.login);
+    if (permission !== 'admin' && permission !== 'write') {
+      context.log.info('Comment command rejected - insufficient permission', { permission });
+      await githubService.addReaction(owner, repo, comment.id, '-1');
+      await githubService.postComment(owner, repo, issue.number, formatPermissionDeniedMessage(comment.user.login));
+      return;
+    }
+
+    // Acknowledge before the (potentially slow) work starts
+    await githubService.addReaction(owner, repo, comment.id, 'eyes');
+
+    switch (command.name) {
+      case 'help':
+      case 'unknown':
+        await githubService.postComment(
+          owner,
+          repo,
+          issue.number,
+          formatCommandHelpMessage(command.name === 'unknown' ? command.raw : undefined)
+        );
+        return;
+
+      case 'summarize':
+      case 'regenerate': {
+        const pr = await githubService.fetchPullRequest(owner, repo, issue.number);
+        const target: PullRequestTarget = {
+          installationId,
+          owner,
+          repo,
+          pr,
+          trigger: 'command',
+          actor: comment.user.login,
+          force: command.name === 'regenerate' || command.force,
+        };
+        await services.cache.recordHeadSha(owner, repo, pr.number, pr.headSha, pr.updatedAt);
+        const queued = await services.queue.enqueue(getSummarizeJobId(target, comment.id), {
+          kind: 'summarize',
+          installationId,
+          target,
+        });
+
+        // A forced run has its own job, so only a redelivered comment finds it queued already
+        if (!queued && !target.force) {
+          await githubService.postComment(owner, repo, issue.number, formatCommandMergedMessage(pr.headSha));
+        }
+        return;
+      }
+
+      case 'explain':
+        await services.queue.enqueue(getExplainJobId(owner, repo, issue.number, comment.id), {
+          kind: 'explain',
+          installationId,
+          owner,
+          repo,
+          pullNumber: issue.number,
+          file: command.file,
+        });
+        return;
+    }
+  } catch (error) {
+    context.log.error({ error }, 'Failed to process comment command');
+    throw error;
+  }
+}
+
+/**
+ * Reply with an LLM explanation of a single changed file (run by the job worker)
+ * Honours the repository config like a summary run: nothing is explained when the bot is disabled, and files
+ * the file filter keeps out of summaries are not sent to the LLM either.
+ */
+export async function explainFile(
+  octokit: Octokit,
+  log: Logger,
+  services: ServiceContainer,
+  installationId: number,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  filename: string
+): Promise<void> {
+  const githubService = new GitHubService({ octokit, logger: log });
+  const pr = await githubService.fetchPullRequest(owner, repo, pullNumber);
+
+  const botConfig = await loadExplainConfig(githubService, log, services, owner, repo, pr.number, pr.baseSha);
+  if (!botConfig) {
+    return;
+  }
+
+  const diff = await githubService.fetchDiff(owner, repo, pullNumber);
+  const file = diff.files.find((f) => f.filename === filename);
+
+  if (!file || !file.patch) {
+    await githubService.postComment(owner, repo, pullNumber, formatFileNotInDiffMessage(filename));
+    return;
+  }
+
+  const fileRules = await loadFileRules(githubService, { owner, repo, pr }, botConfig);
+  const [filtered] = classifyFiles([file], fileRules).filtered;
+  if (filtered) {
+    log.info('Explain skipped - file filtered out', { filename, reason: filtered.reason });
+    await githubService.postComment(owner, repo, pullNumber, formatFileFilteredMessage(filtered));
+    return;
+  }
+
+  const rateLimit = await services.rateLimiter.check({ installationId, owner, repo, author: pr.author });
+  if (rateLimit.limitedBy) {
+    log.warn('Rate limit exceeded', { repo: `${owner}/${repo}`, scope: rateLimit.limitedBy.scope });
+    await githubService.postComment(owner, repo, pullNumber, formatExplainRateLimitedMessage(rateLimit.limitedBy));
+    return;
+  }
+  const budget = await services.budget.check(installationId);
+  if (budget.level === 'hard') {
+    log.warn('Monthly LLM budget exhausted', { repo: `${owner}/${repo}`, month: budget.month });
+    await githubService.postComment(owner, repo, pullNumber, formatExplainBudgetExceededMessage(budget));
+    return;
+  }
+
+  const explanation = await services.summarizerFor(budget.level).explainFile(
+    {
+      owner,
+      repo,
+      pullNumber,
+      sha: pr.headSha,
+      diff: file.patch,
+      commits: [],
+      description: stripDescriptionSection(pr.body) || undefined,
+    },
+    filename,
+    file.patch
+  );
+
+  await services.budget.record({ installationId, owner, repo }, explanation.usage);
+  await githubService.postComment(owner, repo, pullNumber, formatFileExplanation(explanation));
+}
+
+/**
+ * Repository config for an explain run at the PR's base commit, or null when the run must not go ahead
+ * An invalid config is reported to the commenter; a disabled bot stays silent, as for summaries.
+ */
+async function loadExplainConfig(
+  github: GitHubService,
+  log: Logger,
+  services: ServiceContainer,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  baseSha: string
+): Promise<BotConfig | null> {
+  const repoConfigService = new RepoConfigService({
+    github,
+    cache: services.cache,
+    logger: log,
+    defaults: getDefaultBotConfig(services.config),
+  });
+
+  try {
+    const botConfig = await repoConfigService.load(owner, repo, baseSha);
+    if (!botConfig.enabled) {
+      log.info('Explain skipped by repository config', { repo: `${owner}/${repo}`, reason: 'disabled' });
+      return null;
+    }
+
+    return botConfig;
+  } catch (error) {
+    if (!(error instanceof InvalidRepoConfigError)) {
+      throw error;
+    }
+
+    log.warn({ source: error.source, issues: error.issues }, 'Invalid repository config');
+    await github.postComment(owner, repo, pullNumber, formatInvalidConfigMessage(error.source, error.issues));
+    return null;
+  }
+}
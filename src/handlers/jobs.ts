@@ -0,0 +1,88 @@
+/**
+ * Summarization Jobs
+ * Webhook handlers enqueue these; the worker runs them against the installation's API client
+ */
+
+import { Octokit } from '@octokit/rest';
+import { Logger } from 'probot';
+import { ServiceContainer } from '../services/container';
+import { Job } from '../services/jobQueue';
+import { JobWorker } from '../services/jobWorker';
+import { processPullRequest, PullRequestTarget } from './pullRequest';
+import { explainFile } from './issueComment';
+import { getCorrelationId, withCorrelationId } from '../utils/correlation';
+
+export type SummaryJob =
+  | { kind: 'summarize'; installationId: number; target: PullRequestTarget }
+  | { kind: 'explain'; installationId: number; owner: string; repo: string; pullNumber: number; file: string };
+
+/**
+ * Summary jobs are keyed by repo+PR+SHA so repeated deliveries for one commit run once
+ * A forced run is keyed by the comment that requested it as well: merged into a waiting job for the SHA
+ * (e.g. one held by the push debounce or a retry backoff), it would lose its `force`.
+ */
+export function getSummarizeJobId(target: PullRequestTarget, commentId?: number): string {
+  const id = `${target.owner}/${target.repo}#${target.pr.number}@${target.pr.headSha}`;
+  return target.force && commentId !== undefined ? `${id}:force:${commentId}` : id;
+}
+
+/**
+ * Explain jobs are keyed by the comment that requested them
+ */
+export function getExplainJobId(owner: string, repo: string, pullNumber: number, commentId: number): string {
+  return `${owner}/${repo}#${pullNumber}:explain:${commentId}`;
+}
+
+/**
+ * Run a queued job; errors propagate so the queue can retry or dead-letter it
+ */
+export async function runSummaryJob(
+  job: Job<SummaryJob>,
+  octokit: Octokit,
+  log: Logger,
+  services: ServiceContainer
+): Promise<void> {
+  const { payload } = job;
+
+  switch (payload.kind) {
+    case 'summarize':
+      await processPullRequest(octokit, log, services, payload.target);
+      return;
+
+    case 'explain':
+      await explainFile(
+        octokit,
+        log,
+        services,
+        payload.installationId,
+        payload.owner,
+        payload.repo,
+        payload.pullNumber,
+        payload.file
+      );
+      return;
+  }
+}
+
+/**
+ * Worker running summary jobs with an API client for each job's installation
+ */
+export function createJobWorker(
+  services: ServiceContainer,
+  log: Logger,
+  getOctokit: (installationId: number) => Promise<Octokit>
+): JobWorker<SummaryJob> {
+  return new JobWorker<SummaryJob>({
+    queue: services.queue,
+    logger: withCorrelationId(log),
+    concurrency: services.config.queue.workerConcurrency,
+    pollIntervalMs: 1000,
+    handle: async (job) =>
+      runSummaryJob(
+        job,
+        await getOctokit(job.payload.installationId),
+        log.child({ jobId: job.id, correlationId: getCorrelationId() }),
+        services
+      ),
+  });
+}
@@ -3,163 +3,559 @@
  * Orchestrates PR summarization workflow
  */
 
-import { Context } from 'probot';
-import Redis from 'ioredis';
-import { AppConfig } from '../config';
-import { GitHubService } from '../services/github';
-import { CacheService } from '../services/cache';
-import { SummarizerService } from '../services/summarizer';
-import { PRContext } from '../types';
-import { formatSummaryAsMarkdown, formatNeedsInputMessage } from '../utils/formatter';
+import { Context, Logger } from 'probot';
+import { Octokit } from '@octokit/rest';
+import { CommitComparison, GitHubService, PRDetails, PRDiff } from '../services/github';
+import { ServiceContainer } from '../services/container';
+import { getSummarizeJobId } from './jobs';
+import { RepoConfigService, InvalidRepoConfigError, getDefaultBotConfig } from '../services/repoConfig';
+import { SummaryPublisher } from '../services/publisher';
+import { summariesGenerated, summariesSkipped } from '../services/metrics';
+import {
+  BotConfig,
+  BudgetLevel,
+  FilteredFile,
+  LLMResponse,
+  PartialData,
+  PRContext,
+  PRFileDiff,
+  PRSummary,
+  SummaryRecord,
+} from '../types';
 import { isValidDiffSize, shouldIgnoreByLabel, hasMeaningfulContent } from '../utils/validator';
+import { stripDescriptionSection } from '../utils/descriptionSection';
+import { classifyFiles, FileFilterRules } from '../utils/fileFilter';
+import { formatFileDiff } from '../utils/diffChunker';
+import { currentCorrelationId } from '../utils/correlation';
 
 /**
- * Handles pull request events (opened, synchronize, reopened)
- * Orchestrates: rate limiting → validation → summarization → comment posting
+ * What caused a summary run: a pull_request action or a comment command
+ */
+export type SummaryTrigger = BotConfig['autoSummarizeOn'][number] | 'command';
+
+export interface PullRequestTarget {
+  installationId: number;
+  owner: string;
+  repo: string;
+  pr: PRDetails;
+  trigger: SummaryTrigger;
+  actor: string;
+  // Skip the summary cache and regenerate
+  force?: boolean;
+}
+
+/**
+ * Handles pull request events (opened, synchronize, reopened) by queueing a summary job
  */
 export async function handlePullRequestEvent(
   context: Context<'pull_request.opened' | 'pull_request.synchronize' | 'pull_request.reopened'>,
-  config: AppConfig
+  services: ServiceContainer
 ): Promise<void> {
   const { payload } = context;
   const pr = payload.pull_request;
   const repo = payload.repository;
 
-  context.log.info('Processing PR event', {
-    repo: repo.full_name,
+  if (!payload.installation) {
+    context.log.warn('PR event without an installation - ignoring');
+    return;
+  }
+
+  const target: PullRequestTarget = {
+    installationId: payload.installation.id,
+    owner: repo.owner.login,
+    repo: repo.name,
+    pr: {
+      number: pr.number,
+      title: pr.title,
+      body: pr.body,
+      state: pr.state,
+      headSha: pr.head.sha,
+      baseSha: pr.base.sha,
+      labels: pr.labels?.map((l) => l.name) || [],
+      author: pr.user?.login || 'unknown',
+      updatedAt: pr.updated_at,
+    },
+    trigger: payload.action,
+    actor: pr.user?.login || 'unknown',
+  };
+
+  // Jobs for older SHAs check this and bow out, so only the latest push gets summarized
+  await services.cache.recordHeadSha(target.owner, target.repo, pr.number, pr.head.sha, pr.updated_at);
+
+  await services.queue.enqueue(
+    getSummarizeJobId(target),
+    { kind: 'summarize', installationId: payload.installation.id, target },
+    payload.action === 'synchronize' ? services.config.queue.debounceSeconds : 0
+  );
+}
+
+/**
+ * Summarization pipeline shared by PR events and comment commands
+ * Orchestrates: repo config → rate limiting → validation → summarization → publishing
+ */
+export async function processPullRequest(
+  octokit: Octokit,
+  log: Logger,
+  services: ServiceContainer,
+  target: PullRequestTarget
+): Promise<void> {
+  const { config, cache: cacheService } = services;
+  const { owner, repo, pr } = target;
+  const fullName = `${owner}/${repo}`;
+
+  log.info('Processing PR event', {
+    repo: fullName,
     pr: pr.number,
-    action: payload.action,
-    sha: pr.head.sha,
+    trigger: target.trigger,
+    sha: pr.headSha,
   });
 
   try {
-    // Initialize services
-    const redis = new Redis(config.redis.url);
-    const githubService = new GitHubService({ octokit: context.octokit as never, logger: context.log });
-    const cacheService = new CacheService({ redis, logger: context.log });
-    const summarizerService = new SummarizerService({
-      provider: config.llm.provider,
-      apiKey: config.llm.provider === 'openai' ? config.llm.openaiApiKey! : config.llm.anthropicApiKey!,
-      logger: context.log,
+    // Initialize per-installation services
+    const githubService = new GitHubService({ octokit, logger: log, botLogin: await services.getBotLogin() });
+    const publisher = new SummaryPublisher({
+      github: githubService,
+      logger: log,
+      isSuperseded: (current) => cacheService.isSuperseded(owner, repo, current.number, current.headSha),
     });
 
-    // Check if PR should be ignored by label
-    const prLabels = pr.labels?.map((l) => l.name) || [];
-    if (shouldIgnoreByLabel(prLabels, [])) {
-      context.log.info('PR ignored due to labels', { labels: prLabels });
-      await redis.quit();
+    // A newer push arrived while this job waited - its own job will summarize it
+    if (await cacheService.isSuperseded(owner, repo, pr.number, pr.headSha)) {
+      log.info('PR head moved on - skipping superseded run', { repo: fullName, pr: pr.number, sha: pr.headSha });
+      summariesSkipped.inc({ reason: 'superseded' });
       return;
     }
 
-    // Rate limiting check
-    const rateLimitStatus = await cacheService.checkRateLimit(repo.owner.login, repo.name, 10);
-    if (rateLimitStatus.isLimited) {
-      context.log.warn('Rate limit exceeded', { repo: repo.full_name, remaining: rateLimitStatus.remaining });
-      await redis.quit();
+    const repoConfigService = new RepoConfigService({
+      github: githubService,
+      cache: cacheService,
+      logger: log,
+      defaults: getDefaultBotConfig(config),
+    });
+
+    // Resolve per-repository config (repo file > org file > app defaults)
+    let botConfig: BotConfig;
+    try {
+      botConfig = await repoConfigService.load(owner, repo, pr.baseSha);
+    } catch (error) {
+      if (!(error instanceof InvalidRepoConfigError)) {
+        throw error;
+      }
+
+      // The repo's own output mode is unknown here, so report through the app default
+      log.warn({ source: error.source, issues: error.issues }, 'Invalid repository config');
+      summariesSkipped.inc({ reason: 'invalid_config' });
+      await publisher.publish(owner, repo, pr, getDefaultBotConfig(config).output, {
+        status: 'invalid_config',
+        source: error.source,
+        issues: error.issues,
+      });
       return;
     }
 
-    // Check cache for existing summary (for synchronize events)
-    if (payload.action === 'synchronize') {
-      const cached = await cacheService.getSummary(repo.owner.login, repo.name, pr.number, pr.head.sha);
-      if (cached) {
-        context.log.info('Using cached summary', { sha: pr.head.sha });
-        const comment = formatSummaryAsMarkdown(cached);
-        const botLogin = 'github-actions[bot]';
-        const existingCommentId = await githubService.findBotComment(repo.owner.login, repo.name, pr.number, botLogin);
-
-        if (existingCommentId) {
-          await githubService.updateComment(repo.owner.login, repo.name, existingCommentId, comment);
-        } else {
-          await githubService.postComment(repo.owner.login, repo.name, pr.number, comment);
-        }
-
-        await redis.quit();
-        return;
-      }
+    const skipReason = getConfigSkipReason(botConfig, target.trigger);
+    if (skipReason) {
+      log.info('PR skipped by repository config', { repo: fullName, reason: skipReason });
+      summariesSkipped.inc({ reason: 'repo_config' });
+      return;
+    }
+
+    // Check if PR should be ignored by label (explicit commands override labels)
+    if (target.trigger !== 'command' && shouldIgnoreByLabel(pr.labels, botConfig.ignoreLabels)) {
+      log.info('PR ignored due to labels', { labels: pr.labels });
+      summariesSkipped.inc({ reason: 'ignored_label' });
+      return;
+    }
+
+    const budgetLevel = await checkQuotas(services, publisher, log, target, botConfig.output);
+    if (!budgetLevel) {
+      return;
+    }
+    const summarizerService = services.summarizerFor(budgetLevel);
+
+    // On a push, summarize just the new commits when the last summary can be built on
+    const fileRules = await loadFileRules(githubService, target, botConfig);
+    const run: SummaryRun = {
+      services,
+      github: githubService,
+      publisher,
+      log,
+      target,
+      botConfig,
+      budgetLevel,
+      fileRules,
+    };
+    if (await summarizeIncrementally(run)) {
+      return;
     }
 
     // Fetch PR diff and commits
     const [diff, commits] = await Promise.all([
-      githubService.fetchDiff(repo.owner.login, repo.name, pr.number),
-      githubService.fetchCommits(repo.owner.login, repo.name, pr.number),
+      githubService.fetchDiff(owner, repo, pr.number),
+      githubService.fetchCommits(owner, repo, pr.number),
     ]);
 
+    // Lockfiles, generated and vendored files never reach the LLM or count towards the size limit
+    const { analysed, filtered } = classifyFiles(diff.files, fileRules);
+    const { additions, deletions } = countLines(diff, filtered);
+
     // Validate diff size
-    if (!isValidDiffSize(diff.additions, diff.deletions, config.processing.maxDiffSizeLines)) {
-      context.log.warn('PR diff too large', { additions: diff.additions, deletions: diff.deletions });
-      await redis.quit();
+    if (!isValidDiffSize(additions, deletions, botConfig.maxDiffSize)) {
+      log.warn('PR diff too large', { additions, deletions, maxDiffSize: botConfig.maxDiffSize });
+      summariesSkipped.inc({ reason: 'diff_too_large' });
       return;
     }
 
     // Combine all patches into single diff string
-    const fullDiff = diff.files.map((f) => `--- ${f.filename}\n${f.patch || ''}`).join('\n\n');
+    const fullDiff = joinPatches(analysed);
+
+    // The managed description section is our own output - never feed it back to the LLM
+    const description = stripDescriptionSection(pr.body) || undefined;
 
     // Validate meaningful content
-    if (!hasMeaningfulContent(fullDiff, commits, pr.body || undefined)) {
-      context.log.info('PR lacks meaningful content');
-      const message = formatNeedsInputMessage();
-      await githubService.postComment(repo.owner.login, repo.name, pr.number, message);
-      await redis.quit();
+    if (!hasMeaningfulContent(fullDiff, commits, description)) {
+      log.info('PR lacks meaningful content');
+      summariesSkipped.inc({ reason: 'needs_input' });
+      await publisher.publish(owner, repo, pr, botConfig.output, { status: 'needs_input' });
       return;
     }
 
     // Build PR context
     const prContext: PRContext = {
-      owner: repo.owner.login,
-      repo: repo.name,
+      owner,
+      repo,
       pullNumber: pr.number,
-      sha: pr.head.sha,
+      sha: pr.headSha,
       diff: fullDiff,
+      files: analysed,
       commits: commits.map((c) => ({ sha: c.sha, message: c.message })),
-      description: pr.body || undefined,
+      description,
+      filteredFiles: filtered,
+      partial: describePartialData(diff, commits.length),
     };
 
+    // Reuse the summary of identical content (e.g. after a rebase), unless regeneration was requested
+    const cacheKey = summarizerService.getCacheKey(prContext);
+    if (await publishCachedSummary(run, cacheKey, diff.files)) {
+      return;
+    }
+
     // Generate summary
     const result = await summarizerService.summarize(prContext);
+    const costUsd = await services.budget.record({ installationId: target.installationId, owner, repo }, result.usage);
+    countSummaryRun(result);
 
     // Log audit entry
     await cacheService.logAudit({
       timestamp: Date.now(),
-      correlationId: pr.head.sha,
-      actor: pr.user?.login || 'unknown',
+      correlationId: currentCorrelationId(),
+      actor: target.actor,
       action: 'pr_summarized',
-      resource: `${repo.full_name}#${pr.number}`,
+      resource: `${fullName}#${pr.number}`,
       details: {
+        trigger: target.trigger,
+        sha: pr.headSha,
         tokensUsed: result.tokensUsed,
+        estimatedCostUsd: costUsd,
         model: result.model,
+        budgetLevel,
+        mode: 'full',
       },
     });
 
-    // Format and post comment
-    const comment =
+    // Publish as comment and/or check run
+    await publisher.publish(
+      owner,
+      repo,
+      pr,
+      botConfig.output,
       result.summary.what === '[NEEDS_INPUT]'
-        ? formatNeedsInputMessage()
-        : formatSummaryAsMarkdown(result.summary);
+        ? { status: 'needs_input' }
+        : { status: 'summary', summary: result.summary, files: diff.files }
+    );
 
-    const botLogin = 'github-actions[bot]';
-    const existingCommentId = await githubService.findBotComment(repo.owner.login, repo.name, pr.number, botLogin);
-
-    if (existingCommentId) {
-      await githubService.updateComment(repo.owner.login, repo.name, existingCommentId, comment);
-    } else {
-      await githubService.postComment(repo.owner.login, repo.name, pr.number, comment);
-    }
-
-    // Cache summary if successful
+    // Cache summary if successful (even when superseded - it is still valid for its content)
     if (result.summary.what !== '[NEEDS_INPUT]') {
-      await cacheService.cacheSummary(repo.owner.login, repo.name, pr.number, pr.head.sha, result.summary);
+      await cacheService.cacheSummary(owner, repo, pr.number, cacheKey, result.summary);
+      await rememberSummary(services, target, {
+        sha: pr.headSha,
+        overall: result.summary,
+        overallSha: pr.headSha,
+        incrementalRuns: 0,
+      });
     }
 
-    context.log.info('PR summary posted successfully', {
-      repo: repo.full_name,
+    log.info('PR summary posted successfully', {
+      repo: fullName,
       pr: pr.number,
       tokensUsed: result.tokensUsed,
     });
-
-    await redis.quit();
   } catch (error) {
-    context.log.error({ error }, 'Failed to process PR event');
+    log.error({ error }, 'Failed to process PR event');
     throw error;
   }
 }
+
+/**
+ * A summary run past the config, label and quota checks
+ */
+interface SummaryRun {
+  services: ServiceContainer;
+  github: GitHubService;
+  publisher: SummaryPublisher;
+  log: Logger;
+  target: PullRequestTarget;
+  botConfig: BotConfig;
+  budgetLevel: BudgetLevel;
+  fileRules: FileFilterRules;
+}
+
+/**
+ * File filter rules from the repo config and the root .gitattributes
+ * Read at the base commit, like the repo config, so a PR cannot hide its own files from the summary
+ */
+export async function loadFileRules(
+  github: GitHubService,
+  target: Pick<PullRequestTarget, 'owner' | 'repo'> & { pr: Pick<PRDetails, 'baseSha'> },
+  botConfig: BotConfig
+): Promise<FileFilterRules> {
+  const gitattributes = await github.fetchFileContent(target.owner, target.repo, '.gitattributes', target.pr.baseSha);
+
+  return { include: botConfig.includeFiles, exclude: botConfig.excludeFiles, gitattributes };
+}
+
+/**
+ * Publish the cached summary for the PR's content key, unless the run is forced
+ */
+async function publishCachedSummary(run: SummaryRun, cacheKey: string, files: PRFileDiff[]): Promise<boolean> {
+  const { services, target } = run;
+  const { owner, repo, pr } = target;
+
+  if (target.force) {
+    return false;
+  }
+
+  const cached = await services.cache.getSummary(owner, repo, pr.number, cacheKey);
+  if (!cached) {
+    return false;
+  }
+
+  run.log.info('Using cached summary', { sha: pr.headSha });
+  await run.publisher.publish(owner, repo, pr, run.botConfig.output, { status: 'summary', summary: cached, files });
+  await rememberSummary(services, target, {
+    sha: pr.headSha,
+    overall: cached,
+    overallSha: pr.headSha,
+    incrementalRuns: 0,
+  });
+  return true;
+}
+
+/**
+ * Summarize only the commits pushed since the last published summary, keeping its overall summary
+ * Returns false when a full summary is needed instead: not a push, no earlier summary, the overall
+ * summary is due a refresh, the head was force-pushed, the comparison failed, or the new changes alone cannot be
+ * summarized.
+ */
+async function summarizeIncrementally(run: SummaryRun): Promise<boolean> {
+  const { services, github, publisher, log, target, botConfig } = run;
+  const { owner, repo, pr } = target;
+
+  if (target.trigger !== 'synchronize' || target.force || !botConfig.incremental) {
+    return false;
+  }
+
+  const last = await services.cache.getLastSummary(owner, repo, pr.number);
+  if (!last || last.sha === pr.headSha) {
+    return false;
+  }
+
+  if (last.incrementalRuns >= services.config.processing.incrementalRefreshAfter) {
+    log.info({ incrementalRuns: last.incrementalRuns }, 'Refreshing overall PR summary');
+    return false;
+  }
+
+  let comparison: CommitComparison;
+  try {
+    comparison = await github.compareCommits(owner, repo, last.sha, pr.headSha);
+  } catch (error) {
+    // e.g. 404/422 once the last summarized commit was garbage-collected after a force push
+    log.warn({ error, previousSha: last.sha }, 'Cannot compare with last summary - summarizing in full');
+    return false;
+  }
+
+  const { status, diff, commits } = comparison;
+  const { analysed, filtered } = classifyFiles(diff.files, run.fileRules);
+  const { additions, deletions } = countLines(diff, filtered);
+  // After a force push or rebase the last summary no longer describes an ancestor of the head, and a truncated
+  // comparison would under-report the changes
+  if (status !== 'ahead' || diff.partial || !isValidDiffSize(additions, deletions, botConfig.maxDiffSize)) {
+    log.info({ status, previousSha: last.sha }, 'Cannot summarize changes since last summary - summarizing in full');
+    return false;
+  }
+
+  const result = await services.summarizerFor(run.budgetLevel).summarize({
+    owner,
+    repo,
+    pullNumber: pr.number,
+    sha: pr.headSha,
+    diff: joinPatches(analysed),
+    files: analysed,
+    commits: commits.map((c) => ({ sha: c.sha, message: c.message })),
+    description: stripDescriptionSection(pr.body) || undefined,
+    previousSha: last.sha,
+    filteredFiles: filtered,
+  });
+  if (result.summary.what === '[NEEDS_INPUT]') {
+    return false;
+  }
+
+  const costUsd = await services.budget.record({ installationId: target.installationId, owner, repo }, result.usage);
+  countSummaryRun(result);
+
+  await services.cache.logAudit({
+    timestamp: Date.now(),
+    correlationId: currentCorrelationId(),
+    actor: target.actor,
+    action: 'pr_summarized',
+    resource: `${owner}/${repo}#${pr.number}`,
+    details: {
+      trigger: target.trigger,
+      sha: pr.headSha,
+      tokensUsed: result.tokensUsed,
+      estimatedCostUsd: costUsd,
+      model: result.model,
+      budgetLevel: run.budgetLevel,
+      mode: 'incremental',
+      previousSha: last.sha,
+    },
+  });
+
+  const { what, impact, notes, fallback } = result.summary;
+  const summary: PRSummary = {
+    ...last.overall,
+    sinceLastReview: { fromSha: last.sha, toSha: pr.headSha, commitCount: commits.length, what, impact, notes },
+    fallback: fallback || last.overall.fallback,
+  };
+
+  await publisher.publish(owner, repo, pr, botConfig.output, { status: 'summary', summary, files: diff.files });
+  await rememberSummary(services, target, { ...last, sha: pr.headSha, incrementalRuns: last.incrementalRuns + 1 });
+
+  log.info('Incremental PR summary posted successfully', {
+    repo: `${owner}/${repo}`,
+    pr: pr.number,
+    previousSha: last.sha,
+    tokensUsed: result.tokensUsed,
+  });
+  return true;
+}
+
+/**
+ * Record the published summary as the base for the next incremental update
+ * Skipped once a newer push exists: its run records its own head, which this older one must not replace
+ */
+async function rememberSummary(
+  services: ServiceContainer,
+  target: PullRequestTarget,
+  record: SummaryRecord
+): Promise<void> {
+  const { owner, repo, pr } = target;
+
+  if (!(await services.cache.isSuperseded(owner, repo, pr.number, pr.headSha))) {
+    await services.cache.recordLastSummary(owner, repo, pr.number, record);
+  }
+}
+
+/**
+ * Added and deleted lines for the maxDiffSize check: the diff's totals, which include files GitHub left out of
+ * the listing, less the filtered files
+ */
+function countLines(diff: PRDiff, filtered: FilteredFile[]): { additions: number; deletions: number } {
+  const names = new Set(filtered.map((f) => f.filename));
+  const excluded = diff.files.filter((f) => names.has(f.filename));
+
+  return {
+    additions: diff.additions - excluded.reduce((sum, f) => sum + (f.additions ?? 0), 0),
+    deletions: diff.deletions - excluded.reduce((sum, f) => sum + (f.deletions ?? 0), 0),
+  };
+}
+
+/**
+ * How much of the PR GitHub listed, when its listing limits left files or commits out
+ */
+function describePartialData(diff: PRDiff, commits: number): PartialData | undefined {
+  if (!diff.partial && commits >= diff.totalCommits) {
+    return undefined;
+  }
+
+  return { files: diff.files.length, totalFiles: diff.totalFiles, commits, totalCommits: diff.totalCommits };
+}
+
+/**
+ * Combine file patches into the single diff string sent to the summarizer
+ */
+function joinPatches(files: PRFileDiff[]): string {
+  return files.map(formatFileDiff).join('\n\n');
+}
+
+/**
+ * Rate limits (installation, repository and PR author quotas) and the monthly LLM budget
+ * Returns the budget level, or null after publishing a notice when the run must not go ahead
+ */
+async function checkQuotas(
+  services: ServiceContainer,
+  publisher: SummaryPublisher,
+  log: Logger,
+  target: PullRequestTarget,
+  output: BotConfig['output']
+): Promise<BudgetLevel | null> {
+  const { installationId, owner, repo, pr } = target;
+
+  const rateLimit = await services.rateLimiter.check({ installationId, owner, repo, author: pr.author });
+  if (rateLimit.limitedBy) {
+    const { scope, reset } = rateLimit.limitedBy;
+    log.warn('Rate limit exceeded', { repo: `${owner}/${repo}`, scope, reset });
+    summariesSkipped.inc({ reason: 'rate_limited' });
+    await publisher.publish(owner, repo, pr, output, { status: 'rate_limited', limit: rateLimit.limitedBy });
+    return null;
+  }
+
+  // Past the soft limit summaries use the economy model; at the hard limit they stop
+  const budget = await services.budget.check(installationId);
+  if (budget.level === 'hard') {
+    log.warn('Monthly LLM budget exhausted', { repo: `${owner}/${repo}`, month: budget.month, costUsd: budget.costUsd });
+    summariesSkipped.inc({ reason: 'budget_exceeded' });
+    await publisher.publish(owner, repo, pr, output, { status: 'budget_exceeded', budget });
+    return null;
+  }
+
+  return budget.level;
+}
+
+/**
+ * Count a summarizer run in the metrics
+ * The summarizer answers [NEEDS_INPUT] itself, without an LLM call, when the context is too thin.
+ */
+function countSummaryRun(result: LLMResponse): void {
+  if (result.usage.length > 0) {
+    summariesGenerated.inc({ model: result.model });
+  } else {
+    summariesSkipped.inc({ reason: 'needs_input' });
+  }
+}
+
+/**
+ * Determine whether repository config excludes this run (returns reason or null)
+ * Comment commands are explicit requests, so only `enabled` applies to them
+ */
+function getConfigSkipReason(botConfig: BotConfig, trigger: SummaryTrigger): string | null {
+  if (!botConfig.enabled) {
+    return 'disabled';
+  }
+
+  if (trigger !== 'command' && !botConfig.autoSummarizeOn.includes(trigger)) {
+    return `event '${trigger}' not in autoSummarizeOn`;
+  }
+
+  return null;
+}
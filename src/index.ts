@@ -3,34 +3,91 @@
  * Automatically generates AI-powered summaries of pull requests
  */
 
-import { Probot } from 'probot';
+import { ApplicationFunctionOptions, Probot } from 'probot';
 import { loadConfig } from './config';
 import { handlePullRequestEvent } from './handlers/pullRequest';
+import { handleIssueCommentEvent } from './handlers/issueComment';
+import { providerRegistry } from './services/llmProviders';
+import { ServiceContainer } from './services/container';
+import { resolveBotLogin } from './services/github';
+import { createJobWorker } from './handlers/jobs';
+import { registerAdminRoutes } from './handlers/admin';
+import { registerHealthRoutes } from './handlers/health';
+import { webhookEventsReceived } from './services/metrics';
+import { runWithCorrelationId } from './utils/correlation';
 
-export = (app: Probot): void => {
+export = (app: Probot, { getRouter }: ApplicationFunctionOptions): void => {
   const config = loadConfig();
 
+  // Fail fast on a provider name that nothing registered
+  for (const { provider } of [config.llm, ...config.llm.fallbacks]) {
+    if (!providerRegistry.has(provider)) {
+      throw new Error(`Unknown LLM provider '${provider}' (registered: ${providerRegistry.names().join(', ')})`);
+    }
+  }
+
+  // Shared services: one Redis connection, summarizer and circuit breaker for all webhooks
+  const services = new ServiceContainer({
+    config,
+    logger: app.log,
+    resolveBotLogin: async () => resolveBotLogin((await app.auth()) as never),
+  });
+
+  // Single-instance deployments can run the job worker inside the webhook server
+  const worker = config.queue.workerInProcess
+    ? createJobWorker(services, app.log, async (installationId) => (await app.auth(installationId)) as never)
+    : null;
+  worker?.start();
+
+  // Unauthenticated probes for orchestrators and Prometheus: /healthz, /readyz, /metrics
+  if (getRouter) {
+    registerHealthRoutes(getRouter(), services, app.log);
+  }
+
+  // Operator API on the Probot server, only when a token is configured
+  if (config.admin.token && getRouter) {
+    registerAdminRoutes(getRouter('/admin'), services, app.log, config.admin.token);
+  }
+
+  process.once('SIGTERM', () => {
+    app.log.info('Received SIGTERM');
+    void Promise.resolve(worker?.stop())
+      .then(() => services.shutdown())
+      .then(() => process.exit(0));
+  });
+
   app.log.info('PR Summarizer Bot initialized', {
     provider: config.llm.provider,
+    model: config.llm.model,
+    fallbacks: config.llm.fallbacks.map((f) => f.provider),
+    workerInProcess: config.queue.workerInProcess,
     nodeEnv: config.server.nodeEnv,
   });
 
-  // Handle pull_request.opened event
-  app.on('pull_request.opened', (context) => {
-    void handlePullRequestEvent(context, config);
+  app.onAny((context) => {
+    const action = (context.payload as { action?: string }).action;
+    webhookEventsReceived.inc({ event: context.name, action: action || '' });
   });
 
+  // Handlers only enqueue a job; returning the promise lets a failed enqueue fail the delivery.
+  // Each delivery runs in a correlation scope seeded from its X-GitHub-Delivery ID (`context.id`),
+  // which the queued job, its logs, audit entries and LLM requests carry on.
+  const track = (deliveryId: string, work: () => Promise<void>): Promise<void> =>
+    services.track(runWithCorrelationId(deliveryId, work));
+
+  // Handle pull_request.opened event
+  app.on('pull_request.opened', (context) => track(context.id, () => handlePullRequestEvent(context, services)));
+
   // Handle pull_request.synchronize event (new commits pushed)
-  app.on('pull_request.synchronize', (context) => {
-    void handlePullRequestEvent(context, config);
-  });
+  app.on('pull_request.synchronize', (context) => track(context.id, () => handlePullRequestEvent(context, services)));
 
   // Handle pull_request.reopened event
-  app.on('pull_request.reopened', (context) => {
-    void handlePullRequestEvent(context, config);
-  });
+  app.on('pull_request.reopened', (context) => track(context.id, () => handlePullRequestEvent(context, services)));
+
+  // Handle `@pr-summarizer <command>` comments on PRs
+  app.on('issue_comment.created', (context) => track(context.id, () => handleIssueCommentEvent(context, services)));
 
-  // Health check endpoint
+  // GitHub sends a ping when the webhook is created; liveness probes use /healthz
   app.on('ping', (context) => {
     context.log.info('Received ping event');
   });
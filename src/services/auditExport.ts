@@ -0,0 +1,64 @@
+import { CacheService } from './cache';
+import { AuditLogEntry, AuditLogQuery } from '../types';
+
+export type AuditExportFormat = 'jsonl' | 'csv';
+
+export const AUDIT_EXPORT_FORMATS: readonly AuditExportFormat[] = ['jsonl', 'csv'];
+
+export const AUDIT_EXPORT_CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  jsonl: 'application/x-ndjson',
+  csv: 'text/csv',
+};
+
+const CSV_COLUMNS = ['time', 'timestamp', 'correlationId', 'actor', 'action', 'resource', 'details'];
+
+// Largest page the audit store serves, so exports make as few round trips as possible
+const EXPORT_PAGE_SIZE = 500;
+
+/**
+ * Stream the audit entries matching a query as JSONL or CSV lines, newest first
+ * Pages through the store, so memory stays flat however large the range. CSV starts with a header
+ * row; `details` is a JSON-encoded column.
+ */
+export async function* exportAuditLogs(
+  cache: CacheService,
+  query: Omit<AuditLogQuery, 'cursor' | 'limit'>,
+  format: AuditExportFormat
+): AsyncGenerator<string> {
+  if (format === 'csv') {
+    yield `${CSV_COLUMNS.join(',')}\n`;
+  }
+
+  let cursor: string | undefined;
+  do {
+    const page = await cache.queryAuditLogs({ ...query, cursor, limit: EXPORT_PAGE_SIZE });
+
+    for (const entry of page.entries) {
+      yield format === 'csv' ? toCsvRow(entry) : `${JSON.stringify(entry)}\n`;
+    }
+
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+}
+
+function toCsvRow(entry: AuditLogEntry): string {
+  const values = [
+    new Date(entry.timestamp).toISOString(),
+    String(entry.timestamp),
+    entry.correlationId,
+    entry.actor,
+    entry.action,
+    entry.resource,
+    entry.details ? JSON.stringify(entry.details) : '',
+  ];
+
+  return `${values.map(escapeCsv).join(',')}\n`;
+}
+
+/**
+ * Quote a CSV field (RFC 4180), and defuse values a spreadsheet would evaluate as a formula
+ */
+function escapeCsv(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
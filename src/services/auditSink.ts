@@ -0,0 +1,189 @@
+import { appendFile } from 'fs/promises';
+import { Logger } from 'probot';
+import { AppConfig } from '../config';
+import { AuditLogEntry } from '../types';
+
+/**
+ * Where forwarded audit entries are delivered, one batch at a time
+ * `send` throws to have the batch retried.
+ */
+export interface AuditTransport {
+  readonly name: string;
+  send(entries: AuditLogEntry[]): Promise<void>;
+}
+
+/**
+ * Append entries to a local JSONL file (e.g. for a log shipper to pick up)
+ */
+export class FileAuditTransport implements AuditTransport {
+  readonly name = 'file';
+
+  constructor(private path: string) {}
+
+  async send(entries: AuditLogEntry[]): Promise<void> {
+    await appendFile(this.path, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''), 'utf8');
+  }
+}
+
+export interface HttpAuditTransportConfig {
+  url: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+/**
+ * POST entries to an HTTP endpoint as `{ "entries": [...] }`; any non-2xx response fails the batch
+ */
+export class HttpAuditTransport implements AuditTransport {
+  readonly name = 'http';
+  private url: string;
+  private headers: Record<string, string>;
+  private timeoutMs: number;
+
+  constructor(config: HttpAuditTransportConfig) {
+    this.url = config.url;
+    this.headers = config.headers || {};
+    this.timeoutMs = config.timeoutMs ?? 10_000;
+  }
+
+  async send(entries: AuditLogEntry[]): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify({ entries }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Audit sink responded with HTTP ${response.status}`);
+    }
+  }
+}
+
+export interface AuditSinkConfig {
+  transport: AuditTransport;
+  logger: Logger;
+  batchSize: number;
+  flushIntervalMs: number;
+  maxRetries: number;
+  retryDelayMs?: number;
+  // Oldest entries are dropped past this many waiting entries, so an unreachable sink can't exhaust memory
+  maxBufferedEntries?: number;
+}
+
+/**
+ * Forwards every audit entry to an external transport in batches
+ * A batch is sent once `batchSize` entries are waiting or `flushIntervalMs` after the first one arrives,
+ * and retried with exponential backoff. Batches are sent one at a time, in order. Delivery is best
+ * effort: a batch that still fails after `maxRetries` is logged and dropped, never surfaced to callers.
+ */
+export class AuditSink {
+  private transport: AuditTransport;
+  private logger: Logger;
+  private batchSize: number;
+  private flushIntervalMs: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private maxBufferedEntries: number;
+  private buffer: AuditLogEntry[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(config: AuditSinkConfig) {
+    this.transport = config.transport;
+    this.logger = config.logger;
+    this.batchSize = config.batchSize;
+    this.flushIntervalMs = config.flushIntervalMs;
+    this.maxRetries = config.maxRetries;
+    this.retryDelayMs = config.retryDelayMs ?? 1000;
+    this.maxBufferedEntries = config.maxBufferedEntries ?? config.batchSize * 100;
+  }
+
+  /**
+   * Queue an entry for forwarding
+   */
+  write(entry: AuditLogEntry): void {
+    this.buffer.push(entry);
+
+    if (this.buffer.length > this.maxBufferedEntries) {
+      const dropped = this.buffer.splice(0, this.buffer.length - this.maxBufferedEntries);
+      this.logger.error({ sink: this.transport.name, dropped: dropped.length }, 'Audit sink buffer full - dropping entries');
+    }
+
+    if (this.buffer.length >= this.batchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.flushIntervalMs);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Send everything queued so far; resolves once it was delivered or given up on
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.splice(0, this.batchSize);
+      this.sending = this.sending.then(() => this.sendWithRetry(batch));
+    }
+
+    return this.sending;
+  }
+
+  private async sendWithRetry(batch: AuditLogEntry[]): Promise<void> {
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      try {
+        await this.transport.send(batch);
+        this.logger.debug({ sink: this.transport.name, entries: batch.length }, 'Audit entries forwarded');
+        return;
+      } catch (error) {
+        if (attempt === this.maxRetries) {
+          this.logger.error(
+            { error, sink: this.transport.name, entries: batch.length, attempts: attempt + 1 },
+            'Failed to forward audit entries - dropping batch'
+          );
+          return;
+        }
+
+        const delay = this.retryDelayMs * Math.pow(2, attempt);
+        this.logger.warn({ error, sink: this.transport.name, attempt, delay }, 'Retrying audit sink delivery');
+
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Sleep utility for retry delays
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Audit sink for the configured file or HTTP destination, or undefined when forwarding is off
+ */
+export function createAuditSink(config: AppConfig, logger: Logger): AuditSink | undefined {
+  const sink = config.auditSink;
+  if (!sink) {
+    return undefined;
+  }
+
+  const transport = sink.url
+    ? new HttpAuditTransport({ url: sink.url, headers: sink.headers })
+    : new FileAuditTransport(sink.file!);
+
+  return new AuditSink({
+    transport,
+    logger,
+    batchSize: sink.batchSize,
+    flushIntervalMs: sink.flushIntervalSeconds * 1000,
+    maxRetries: sink.maxRetries,
+  });
+}
@@ -0,0 +1,212 @@
+import Redis from 'ioredis';
+import { Logger } from 'probot';
+import { AppConfig } from '../config';
+import { BudgetLevel, BudgetStatus, ModelPrice, MonthlyUsage, TokenUsage } from '../types';
+
+/**
+ * List prices in USD per million tokens; override or extend with LLM_PRICING
+ * Models missing from the table are counted in tokens but cost nothing.
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'claude-3-opus-20240229': { input: 15, output: 75 },
+};
+
+/**
+ * Monthly limits per installation; 0 disables a limit
+ */
+export interface BudgetLimits {
+  softLimitTokens: number;
+  hardLimitTokens: number;
+  softLimitUsd: number;
+  hardLimitUsd: number;
+}
+
+export interface BudgetServiceConfig {
+  redis: Redis;
+  logger: Logger;
+  limits: BudgetLimits;
+  // Merged over DEFAULT_MODEL_PRICING
+  pricing?: Record<string, ModelPrice>;
+}
+
+/**
+ * Who LLM usage is charged to
+ */
+export interface BudgetSubject {
+  installationId: number;
+  owner: string;
+  repo: string;
+}
+
+/**
+ * Monthly token and cost accounting per installation and repository
+ * Costs are stored as integer micro-USD so concurrent increments stay exact.
+ */
+export class BudgetService {
+  private redis: Redis;
+  private logger: Logger;
+  private limits: BudgetLimits;
+  private pricing: Record<string, ModelPrice>;
+
+  private readonly USAGE_TTL = 60 * 60 * 24 * 400; // Keep last year's months for reporting
+  private readonly USAGE_PREFIX = 'usage:';
+
+  constructor(config: BudgetServiceConfig) {
+    this.redis = config.redis;
+    this.logger = config.logger;
+    this.limits = config.limits;
+    this.pricing = { ...DEFAULT_MODEL_PRICING, ...config.pricing };
+  }
+
+  /**
+   * Compare the installation's usage this month against its limits
+   * Reports `ok` if Redis is unavailable
+   */
+  async check(installationId: number): Promise<BudgetStatus> {
+    const month = this.getMonth();
+
+    try {
+      const [tokens, costMicros] = await this.redis.hmget(this.getUsageKey(installationId, month), 'tokens', 'cost');
+      const usage = { tokens: Number(tokens || 0), costUsd: this.toUsd(Number(costMicros || 0)) };
+      const level = this.getLevel(usage.tokens, usage.costUsd);
+
+      if (level !== 'ok') {
+        this.logger.warn({ installationId, month, level, ...usage }, 'LLM budget limit reached');
+      }
+
+      return { level, month, ...usage };
+    } catch (error) {
+      this.logger.error({ error, installationId }, 'Failed to check LLM budget');
+      return { level: 'ok', month, tokens: 0, costUsd: 0 };
+    }
+  }
+
+  /**
+   * Add token usage to the installation's and repository's monthly totals (returns the estimated cost in USD)
+   */
+  async record(subject: BudgetSubject, usage: TokenUsage[]): Promise<number> {
+    const tokens = usage.reduce((sum, u) => sum + u.inputTokens + u.outputTokens, 0);
+    if (tokens === 0) {
+      return 0;
+    }
+
+    const costMicros = Math.round(usage.reduce((sum, u) => sum + this.getCostMicros(u), 0));
+    const key = this.getUsageKey(subject.installationId, this.getMonth());
+    const repo = `${subject.owner}/${subject.repo}`;
+
+    try {
+      await this.redis
+        .multi()
+        .hincrby(key, 'tokens', tokens)
+        .hincrby(key, 'cost', costMicros)
+        .hincrby(key, `repo:${repo}:tokens`, tokens)
+        .hincrby(key, `repo:${repo}:cost`, costMicros)
+        .expire(key, this.USAGE_TTL)
+        .exec();
+
+      this.logger.info({ ...subject, tokens, costUsd: this.toUsd(costMicros) }, 'Recorded LLM usage');
+    } catch (error) {
+      this.logger.error({ error, ...subject, tokens }, 'Failed to record LLM usage');
+      // Non-blocking - usage goes unaccounted rather than failing the summary
+    }
+
+    return this.toUsd(costMicros);
+  }
+
+  /**
+   * Usage totals for an installation in a month (admin/reporting)
+   */
+  async getUsage(installationId: number, month = this.getMonth()): Promise<MonthlyUsage> {
+    const hash = await this.redis.hgetall(this.getUsageKey(installationId, month));
+    const repos: MonthlyUsage['repos'] = {};
+
+    for (const [field, value] of Object.entries(hash)) {
+      const match = field.match(/^repo:(.+):(tokens|cost)$/);
+      if (!match) {
+        continue;
+      }
+
+      const totals = repos[match[1]] || { tokens: 0, costUsd: 0 };
+      if (match[2] === 'tokens') {
+        totals.tokens = Number(value);
+      } else {
+        totals.costUsd = this.toUsd(Number(value));
+      }
+      repos[match[1]] = totals;
+    }
+
+    return {
+      month,
+      tokens: Number(hash.tokens || 0),
+      costUsd: this.toUsd(Number(hash.cost || 0)),
+      repos,
+    };
+  }
+
+  private getLevel(tokens: number, costUsd: number): BudgetLevel {
+    const reached = (value: number, limit: number): boolean => limit > 0 && value >= limit;
+    const { softLimitTokens, hardLimitTokens, softLimitUsd, hardLimitUsd } = this.limits;
+
+    if (reached(tokens, hardLimitTokens) || reached(costUsd, hardLimitUsd)) {
+      return 'hard';
+    }
+
+    if (reached(tokens, softLimitTokens) || reached(costUsd, softLimitUsd)) {
+      return 'soft';
+    }
+
+    return 'ok';
+  }
+
+  /**
+   * Cost in micro-USD (USD per million tokens × tokens)
+   */
+  private getCostMicros(usage: TokenUsage): number {
+    const price = this.pricing[usage.model];
+    return price ? usage.inputTokens * price.input + usage.outputTokens * price.output : 0;
+  }
+
+  private toUsd(micros: number): number {
+    return micros / 1_000_000;
+  }
+
+  /**
+   * Current UTC month (YYYY-MM)
+   */
+  private getMonth(): string {
+    return new Date(Date.now()).toISOString().substring(0, 7);
+  }
+
+  /**
+   * Generate monthly usage key
+   */
+  private getUsageKey(installationId: number, month: string): string {
+    return `${this.USAGE_PREFIX}${installationId}:${month}`;
+  }
+}
+
+/**
+ * Budget service using the configured limits and price overrides
+ */
+export function createBudgetService(config: AppConfig, redis: Redis, logger: Logger): BudgetService {
+  const { budget } = config;
+
+  return new BudgetService({
+    redis,
+    logger,
+    limits: {
+      softLimitTokens: budget.softLimitTokens,
+      hardLimitTokens: budget.hardLimitTokens,
+      softLimitUsd: budget.softLimitUsd,
+      hardLimitUsd: budget.hardLimitUsd,
+    },
+    pricing: budget.pricing,
+  });
+}
@@ -1,161 +1,322 @@
 import Redis from 'ioredis';
 import { Logger } from 'probot';
-import { PRSummary, AuditLogEntry, RateLimitStatus } from '../types';
+import { PRSummary, AuditLogEntry, AuditLogPage, AuditLogQuery, BotConfig, SummaryRecord } from '../types';
+import { AuditSink } from './auditSink';
+import { summaryCacheLookups } from './metrics';
+
+// Record a PR's head SHA unless a newer update is already recorded (webhooks can arrive out of order)
+const RECORD_HEAD_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], 'updatedAt')
+if current and tonumber(current) > tonumber(ARGV[2]) then
+  return 0
+end
+redis.call('HSET', KEYS[1], 'sha', ARGV[1], 'updatedAt', ARGV[2])
+redis.call('EXPIRE', KEYS[1], ARGV[3])
+return 1`;
 
 export interface CacheConfig {
   redis: Redis;
   logger: Logger;
+  // How long summaries are cached (default 24 hours)
+  summaryTtlSeconds?: number;
+  // How long audit entries are kept (default 7 days)
+  auditLogRetentionDays?: number;
+  // Also forward every audit entry to an external file or HTTP sink
+  auditSink?: AuditSink;
+}
+
+// Resource names that start with a repository, e.g. `owner/repo#42` or `owner/repo`
+const AUDIT_REPO_PATTERN = /^([\w.-]+\/[\w.-]+)(?:#|$)/;
+
+/**
+ * Position in an audit index: entries are read newest first, so a cursor is the timestamp to resume
+ * from plus how many entries at exactly that timestamp were already returned
+ */
+interface AuditCursor {
+  timestamp: number;
+  skip: number;
+}
+
+/**
+ * A cursor that was not produced by queryAuditLogs
+ */
+export class InvalidAuditCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid audit log cursor '${cursor}'`);
+    this.name = 'InvalidAuditCursorError';
+  }
 }
 
 export class CacheService {
   private redis: Redis;
   private logger: Logger;
+  private auditSink?: AuditSink;
 
   // TTL constants
-  private readonly SUMMARY_TTL = 60 * 60 * 24; // 24 hours
-  private readonly AUDIT_LOG_TTL = 60 * 60 * 24 * 7; // 7 days (GDPR compliance)
-  private readonly RATE_LIMIT_WINDOW = 60 * 60; // 1 hour
+  private readonly summaryTtlSeconds: number;
+  private readonly auditRetentionSeconds: number;
+  private readonly REPO_CONFIG_TTL = 60 * 5; // 5 minutes
+  private readonly HEAD_TTL = 60 * 60 * 24 * 30; // 30 days
 
   // Key prefixes
   private readonly SUMMARY_PREFIX = 'summary:';
-  private readonly AUDIT_PREFIX = 'audit:';
-  private readonly RATE_LIMIT_PREFIX = 'rate:';
+  private readonly AUDIT_ENTRY_PREFIX = 'audit:entry:';
+  private readonly AUDIT_INDEX_PREFIX = 'audit:index:';
+  private readonly AUDIT_PAGE_SIZE = 50;
+  private readonly AUDIT_MAX_PAGE_SIZE = 500;
+  private readonly REPO_CONFIG_PREFIX = 'config:';
+  private readonly HEAD_PREFIX = 'head:';
 
   constructor(config: CacheConfig) {
     this.redis = config.redis;
     this.logger = config.logger;
+    this.summaryTtlSeconds = config.summaryTtlSeconds ?? 60 * 60 * 24;
+    this.auditRetentionSeconds = 60 * 60 * 24 * (config.auditLogRetentionDays ?? 7);
+    this.auditSink = config.auditSink;
   }
 
   /**
-   * Cache PR summary by SHA (for PR synchronize events)
+   * Cache PR summary by content key (see SummarizerService.getCacheKey)
    */
-  async cacheSummary(owner: string, repo: string, prNumber: number, sha: string, summary: PRSummary): Promise<void> {
-    const key = this.getSummaryKey(owner, repo, prNumber, sha);
+  async cacheSummary(owner: string, repo: string, prNumber: number, key: string, summary: PRSummary): Promise<void> {
+    const redisKey = this.getSummaryKey(owner, repo, prNumber, key);
 
     try {
-      await this.redis.setex(key, this.SUMMARY_TTL, JSON.stringify(summary));
-      this.logger.info({ owner, repo, prNumber, sha }, 'Cached PR summary');
+      await this.redis.setex(redisKey, this.summaryTtlSeconds, JSON.stringify(summary));
+      this.logger.info({ owner, repo, prNumber, key }, 'Cached PR summary');
     } catch (error) {
-      this.logger.error({ error, owner, repo, prNumber, sha }, 'Failed to cache summary');
+      this.logger.error({ error, owner, repo, prNumber, key }, 'Failed to cache summary');
       // Non-blocking - continue without cache
     }
   }
 
   /**
-   * Retrieve cached PR summary by SHA
+   * Retrieve cached PR summary by content key
    */
-  async getSummary(owner: string, repo: string, prNumber: number, sha: string): Promise<PRSummary | null> {
-    const key = this.getSummaryKey(owner, repo, prNumber, sha);
+  async getSummary(owner: string, repo: string, prNumber: number, key: string): Promise<PRSummary | null> {
+    const redisKey = this.getSummaryKey(owner, repo, prNumber, key);
 
     try {
-      const cached = await this.redis.get(key);
+      const cached = await this.redis.get(redisKey);
+
+      summaryCacheLookups.inc({ result: cached ? 'hit' : 'miss' });
 
       if (!cached) {
-        this.logger.info({ owner, repo, prNumber, sha }, 'No cached summary found');
+        this.logger.info({ owner, repo, prNumber, key }, 'No cached summary found');
         return null;
       }
 
-      this.logger.info({ owner, repo, prNumber, sha }, 'Retrieved cached summary');
+      this.logger.info({ owner, repo, prNumber, key }, 'Retrieved cached summary');
       return JSON.parse(cached) as PRSummary;
     } catch (error) {
-      this.logger.error({ error, owner, repo, prNumber, sha }, 'Failed to retrieve cached summary');
+      this.logger.error({ error, owner, repo, prNumber, key }, 'Failed to retrieve cached summary');
       return null;
     }
   }
 
   /**
-   * Log audit entry (GDPR compliance - 7 day retention)
+   * Record the summary just published on a PR, for incremental updates on later pushes
+   * Kept as long as head SHAs, since a PR can go quiet for days between pushes.
    */
-  async logAudit(entry: AuditLogEntry): Promise<void> {
-    const key = this.getAuditKey(entry.timestamp);
+  async recordLastSummary(owner: string, repo: string, prNumber: number, record: SummaryRecord): Promise<void> {
+    const key = this.getLastSummaryKey(owner, repo, prNumber);
 
     try {
-      await this.redis.setex(key, this.AUDIT_LOG_TTL, JSON.stringify(entry));
-      this.logger.info({ correlationId: entry.correlationId, action: entry.action }, 'Audit log entry created');
+      await this.redis.setex(key, this.HEAD_TTL, JSON.stringify(record));
+      this.logger.info({ owner, repo, prNumber, sha: record.sha }, 'Recorded last PR summary');
     } catch (error) {
-      this.logger.error({ error, entry }, 'Failed to log audit entry');
-      // Critical - but don't fail the operation
+      this.logger.error({ error, owner, repo, prNumber, sha: record.sha }, 'Failed to record last PR summary');
+      // Non-blocking - the next push gets a full summary
+    }
+  }
+
+  /**
+   * The summary last published on a PR (null if none is recorded)
+   */
+  async getLastSummary(owner: string, repo: string, prNumber: number): Promise<SummaryRecord | null> {
+    try {
+      const cached = await this.redis.get(this.getLastSummaryKey(owner, repo, prNumber));
+      return cached ? (JSON.parse(cached) as SummaryRecord) : null;
+    } catch (error) {
+      this.logger.error({ error, owner, repo, prNumber }, 'Failed to read last PR summary');
+      return null;
     }
   }
 
   /**
-   * Check rate limit for repository (distributed rate limiting)
+   * Delete every cached summary of a PR, whatever its content (admin override; returns the number deleted)
    */
-  async checkRateLimit(owner: string, repo: string, maxRequests: number): Promise<RateLimitStatus> {
-    const key = this.getRateLimitKey(owner, repo);
+  async clearSummaries(owner: string, repo: string, prNumber: number): Promise<number> {
+    const pattern = `${this.SUMMARY_PREFIX}${owner}:${repo}:${prNumber}:*`;
 
     try {
-      const current = await this.redis.incr(key);
+      let cursor = '0';
+      let deleted = 0;
 
-      // Set expiry on first increment
-      if (current === 1) {
-        await this.redis.expire(key, this.RATE_LIMIT_WINDOW);
-      }
+      do {
+        const [next, keys] = await this.redis.scan(cursor, 'MATCH', pattern, 'COUNT', 100);
+        cursor = next;
+        if (keys.length > 0) {
+          deleted += await this.redis.del(...keys);
+        }
+      } while (cursor !== '0');
 
-      const remaining = Math.max(0, maxRequests - current);
-      const isLimited = current > maxRequests;
+      this.logger.info({ owner, repo, prNumber, deleted }, 'Cleared cached summaries');
+      return deleted;
+    } catch (error) {
+      this.logger.error({ error, owner, repo, prNumber }, 'Failed to clear cached summaries');
+      throw error;
+    }
+  }
 
-      this.logger.info({ owner, repo, current, remaining, isLimited }, 'Rate limit check');
+  /**
+   * Cache resolved repository bot config by ref
+   */
+  async cacheRepoConfig(owner: string, repo: string, ref: string, botConfig: BotConfig): Promise<void> {
+    const key = this.getRepoConfigKey(owner, repo, ref);
 
-      return {
-        limit: maxRequests,
-        remaining,
-        reset: Date.now() + this.RATE_LIMIT_WINDOW * 1000,
-        isLimited,
-      };
+    try {
+      await this.redis.setex(key, this.REPO_CONFIG_TTL, JSON.stringify(botConfig));
+      this.logger.info({ owner, repo, ref }, 'Cached repository config');
     } catch (error) {
-      this.logger.error({ error, owner, repo }, 'Failed to check rate limit');
+      this.logger.error({ error, owner, repo, ref }, 'Failed to cache repository config');
+      // Non-blocking - config will be fetched again next time
+    }
+  }
+
+  /**
+   * Retrieve cached repository bot config by ref
+   */
+  async getRepoConfig(owner: string, repo: string, ref: string): Promise<BotConfig | null> {
+    const key = this.getRepoConfigKey(owner, repo, ref);
 
-      // Fail open - allow request if Redis unavailable
-      return {
-        limit: maxRequests,
-        remaining: maxRequests,
-        reset: Date.now() + this.RATE_LIMIT_WINDOW * 1000,
-        isLimited: false,
-      };
+    try {
+      const cached = await this.redis.get(key);
+      return cached ? (JSON.parse(cached) as BotConfig) : null;
+    } catch (error) {
+      this.logger.error({ error, owner, repo, ref }, 'Failed to retrieve cached repository config');
+      return null;
     }
   }
 
   /**
-   * Reset rate limit for repository (admin override)
+   * Record the latest known head SHA of a PR, ordered by the PR's updated_at timestamp
    */
-  async resetRateLimit(owner: string, repo: string): Promise<void> {
-    const key = this.getRateLimitKey(owner, repo);
+  async recordHeadSha(owner: string, repo: string, prNumber: number, sha: string, updatedAt: string): Promise<void> {
+    const key = this.getHeadKey(owner, repo, prNumber);
 
     try {
-      await this.redis.del(key);
-      this.logger.info({ owner, repo }, 'Rate limit reset');
+      const recorded = await this.redis.eval(
+        RECORD_HEAD_SCRIPT,
+        1,
+        key,
+        sha,
+        Date.parse(updatedAt) || Date.now(),
+        this.HEAD_TTL
+      );
+      this.logger.info({ owner, repo, prNumber, sha, recorded: recorded === 1 }, 'Recorded PR head SHA');
     } catch (error) {
-      this.logger.error({ error, owner, repo }, 'Failed to reset rate limit');
-      throw error;
+      this.logger.error({ error, owner, repo, prNumber, sha }, 'Failed to record PR head SHA');
+      // Non-blocking - supersession checks fail open
     }
   }
 
   /**
-   * Get all audit logs for a time range (admin/compliance queries)
+   * Whether a newer head SHA than `sha` has been recorded for the PR
    */
-  async getAuditLogs(startTime: number, endTime: number): Promise<AuditLogEntry[]> {
+  async isSuperseded(owner: string, repo: string, prNumber: number, sha: string): Promise<boolean> {
     try {
-      const pattern = `${this.AUDIT_PREFIX}*`;
-      const keys = await this.redis.keys(pattern);
+      const latest = await this.redis.hget(this.getHeadKey(owner, repo, prNumber), 'sha');
+      return latest !== null && latest !== sha;
+    } catch (error) {
+      this.logger.error({ error, owner, repo, prNumber, sha }, 'Failed to read PR head SHA');
+      return false;
+    }
+  }
+
+  /**
+   * Log audit entry, indexed by time, repository, actor and action
+   * Entries and index members older than the retention period (GDPR compliance) are dropped.
+   * The entry is forwarded to the audit sink, if one is configured, even when Redis is unavailable.
+   */
+  async logAudit(entry: AuditLogEntry): Promise<void> {
+    this.auditSink?.write(entry);
 
-      const logs: AuditLogEntry[] = [];
+    const id = `${entry.timestamp}-${Math.random().toString(36).substring(2, 10)}`;
+    const cutoff = Date.now() - this.auditRetentionSeconds * 1000;
 
-      for (const key of keys) {
-        const data = await this.redis.get(key);
-        if (data) {
-          const entry = JSON.parse(data) as AuditLogEntry;
-          if (entry.timestamp >= startTime && entry.timestamp <= endTime) {
-            logs.push(entry);
+    try {
+      const pipeline = this.redis
+        .multi()
+        .setex(`${this.AUDIT_ENTRY_PREFIX}${id}`, this.auditRetentionSeconds, JSON.stringify(entry));
+
+      for (const index of this.getAuditIndexes(entry)) {
+        pipeline
+          .zadd(index, entry.timestamp, id)
+          .zremrangebyscore(index, '-inf', cutoff)
+          .expire(index, this.auditRetentionSeconds);
+      }
+
+      await pipeline.exec();
+      this.logger.info({ correlationId: entry.correlationId, action: entry.action }, 'Audit log entry created');
+    } catch (error) {
+      this.logger.error({ error, entry }, 'Failed to log audit entry');
+      // Critical - but don't fail the operation
+    }
+  }
+
+  /**
+   * Query audit logs newest first, one page at a time (admin/compliance queries)
+   * Reads the most selective index for the filters, so cost grows with the page, not the log.
+   */
+  async queryAuditLogs(query: AuditLogQuery = {}): Promise<AuditLogPage> {
+    const limit = Math.min(Math.max(query.limit ?? this.AUDIT_PAGE_SIZE, 1), this.AUDIT_MAX_PAGE_SIZE);
+    const index = this.selectAuditIndex(query);
+    const from = Math.max(query.from ?? 0, Date.now() - this.auditRetentionSeconds * 1000);
+    let position = query.cursor ? this.decodeAuditCursor(query.cursor) : { timestamp: query.to ?? Date.now(), skip: 0 };
+
+    try {
+      const entries: AuditLogEntry[] = [];
+      let nextCursor: string | null = null;
+
+      while (!nextCursor) {
+        const ids = await this.redis.zrevrangebyscore(
+          index,
+          position.timestamp,
+          from,
+          'WITHSCORES',
+          'LIMIT',
+          position.skip,
+          limit
+        );
+        if (ids.length === 0) {
+          break;
+        }
+
+        const members = ids.filter((_, i) => i % 2 === 0);
+        const payloads = await this.redis.mget(...members.map((id) => `${this.AUDIT_ENTRY_PREFIX}${id}`));
+
+        for (const [i, payload] of payloads.entries()) {
+          const timestamp = Number(ids[i * 2 + 1]);
+          position = timestamp === position.timestamp ? { timestamp, skip: position.skip + 1 } : { timestamp, skip: 1 };
+
+          const entry = payload ? (JSON.parse(payload) as AuditLogEntry) : null;
+          if (entry && this.matchesAuditQuery(entry, query)) {
+            entries.push(entry);
+          }
+
+          if (entries.length === limit) {
+            nextCursor = this.encodeAuditCursor(position);
+            break;
           }
         }
       }
 
-      this.logger.info({ startTime, endTime, count: logs.length }, 'Retrieved audit logs');
+      this.logger.info({ index, count: entries.length }, 'Retrieved audit logs');
 
-      return logs.sort((a, b) => b.timestamp - a.timestamp);
+      return { entries, nextCursor };
     } catch (error) {
-      this.logger.error({ error, startTime, endTime }, 'Failed to retrieve audit logs');
+      this.logger.error({ error, query }, 'Failed to retrieve audit logs');
       throw error;
     }
   }
@@ -175,22 +336,83 @@ export class CacheService {
 
   /**
    * Generate summary cache key
+   * Scoped to the PR, so a summary is never served to another repository and admin clears cover it
    */
-  private getSummaryKey(owner: string, repo: string, prNumber: number, sha: string): string {
-    return `${this.SUMMARY_PREFIX}${owner}:${repo}:${prNumber}:${sha}`;
+  private getSummaryKey(owner: string, repo: string, prNumber: number, key: string): string {
+    return `${this.SUMMARY_PREFIX}${owner}:${repo}:${prNumber}:${key}`;
+  }
+
+  /**
+   * Generate last published summary key
+   * Shares the PR's summary prefix, so clearing a PR's summaries also forces a full one next time
+   */
+  private getLastSummaryKey(owner: string, repo: string, prNumber: number): string {
+    return `${this.SUMMARY_PREFIX}${owner}:${repo}:${prNumber}:last`;
+  }
+
+  /**
+   * Index keys an audit entry is added to
+   */
+  private getAuditIndexes(entry: AuditLogEntry): string[] {
+    const repo = entry.resource.match(AUDIT_REPO_PATTERN)?.[1];
+
+    return [
+      `${this.AUDIT_INDEX_PREFIX}all`,
+      `${this.AUDIT_INDEX_PREFIX}actor:${entry.actor}`,
+      `${this.AUDIT_INDEX_PREFIX}action:${entry.action}`,
+      ...(repo ? [`${this.AUDIT_INDEX_PREFIX}repo:${repo}`] : []),
+    ];
+  }
+
+  /**
+   * Pick the index to scan; other filters are applied to the entries read from it
+   */
+  private selectAuditIndex(query: AuditLogQuery): string {
+    if (query.repo) {
+      return `${this.AUDIT_INDEX_PREFIX}repo:${query.repo}`;
+    }
+    if (query.actor) {
+      return `${this.AUDIT_INDEX_PREFIX}actor:${query.actor}`;
+    }
+    if (query.action) {
+      return `${this.AUDIT_INDEX_PREFIX}action:${query.action}`;
+    }
+    return `${this.AUDIT_INDEX_PREFIX}all`;
+  }
+
+  private matchesAuditQuery(entry: AuditLogEntry, query: AuditLogQuery): boolean {
+    return (
+      (!query.actor || entry.actor === query.actor) &&
+      (!query.action || entry.action === query.action) &&
+      (!query.repo || entry.resource.match(AUDIT_REPO_PATTERN)?.[1] === query.repo)
+    );
+  }
+
+  private encodeAuditCursor(cursor: AuditCursor): string {
+    return Buffer.from(`${cursor.timestamp}:${cursor.skip}`).toString('base64url');
+  }
+
+  private decodeAuditCursor(cursor: string): AuditCursor {
+    const [timestamp, skip] = Buffer.from(cursor, 'base64url').toString().split(':').map(Number);
+
+    if (!Number.isInteger(timestamp) || !Number.isInteger(skip) || skip < 0) {
+      throw new InvalidAuditCursorError(cursor);
+    }
+
+    return { timestamp, skip };
   }
 
   /**
-   * Generate audit log key (timestamped for expiry)
+   * Generate repository config cache key
    */
-  private getAuditKey(timestamp: number): string {
-    return `${this.AUDIT_PREFIX}${timestamp}:${Math.random().toString(36).substring(7)}`;
+  private getRepoConfigKey(owner: string, repo: string, ref: string): string {
+    return `${this.REPO_CONFIG_PREFIX}${owner}:${repo}:${ref}`;
   }
 
   /**
-   * Generate rate limit key
+   * Generate PR head SHA key
    */
-  private getRateLimitKey(owner: string, repo: string): string {
-    return `${this.RATE_LIMIT_PREFIX}${owner}:${repo}`;
+  private getHeadKey(owner: string, repo: string, prNumber: number): string {
+    return `${this.HEAD_PREFIX}${owner}:${repo}:${prNumber}`;
   }
 }
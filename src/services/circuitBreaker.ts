@@ -0,0 +1,271 @@
+import Redis from 'ioredis';
+import { Logger } from 'probot';
+import { AppConfig } from '../config';
+import { CacheService } from './cache';
+import { getCorrelationId } from '../utils/correlation';
+
+export type BreakerStatus = 'closed' | 'open' | 'half_open';
+
+export interface BreakerState {
+  status: BreakerStatus;
+  // Consecutive failures while closed
+  failures: number;
+  // Epoch ms after which an open breaker allows a probe request
+  openUntil: number;
+}
+
+/**
+ * Persistence for breaker state, keyed by provider+model
+ */
+export interface BreakerStore {
+  get(key: string): Promise<BreakerState>;
+  set(key: string, state: BreakerState): Promise<void>;
+  incrementFailures(key: string): Promise<number>;
+  // Claim the single half-open probe; false if another request already holds it
+  acquireProbe(key: string, ttlSeconds: number): Promise<boolean>;
+}
+
+const CLOSED: BreakerState = { status: 'closed', failures: 0, openUntil: 0 };
+
+/**
+ * Process-local store - state is lost on restart and not shared between replicas
+ */
+export class InMemoryBreakerStore implements BreakerStore {
+  private states = new Map<string, BreakerState>();
+  private probes = new Map<string, number>();
+
+  get(key: string): Promise<BreakerState> {
+    return Promise.resolve({ ...(this.states.get(key) || CLOSED) });
+  }
+
+  set(key: string, state: BreakerState): Promise<void> {
+    this.states.set(key, { ...state });
+    return Promise.resolve();
+  }
+
+  incrementFailures(key: string): Promise<number> {
+    const state = this.states.get(key) || { ...CLOSED };
+    state.failures++;
+    this.states.set(key, state);
+    return Promise.resolve(state.failures);
+  }
+
+  acquireProbe(key: string, ttlSeconds: number): Promise<boolean> {
+    const heldUntil = this.probes.get(key) || 0;
+    if (Date.now() < heldUntil) {
+      return Promise.resolve(false);
+    }
+    this.probes.set(key, Date.now() + ttlSeconds * 1000);
+    return Promise.resolve(true);
+  }
+}
+
+/**
+ * Redis store - one hash per provider+model, shared by every instance
+ */
+export class RedisBreakerStore implements BreakerStore {
+  private redis: Redis;
+  private readonly BREAKER_PREFIX = 'breaker:';
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  async get(key: string): Promise<BreakerState> {
+    const hash = await this.redis.hgetall(this.getStateKey(key));
+
+    return {
+      status: (hash.status as BreakerStatus) || 'closed',
+      failures: parseInt(hash.failures || '0', 10),
+      openUntil: parseInt(hash.openUntil || '0', 10),
+    };
+  }
+
+  async set(key: string, state: BreakerState): Promise<void> {
+    await this.redis.hset(this.getStateKey(key), {
+      status: state.status,
+      failures: state.failures,
+      openUntil: state.openUntil,
+    });
+  }
+
+  async incrementFailures(key: string): Promise<number> {
+    return this.redis.hincrby(this.getStateKey(key), 'failures', 1);
+  }
+
+  async acquireProbe(key: string, ttlSeconds: number): Promise<boolean> {
+    const result = await this.redis.set(`${this.getStateKey(key)}:probe`, '1', 'EX', ttlSeconds, 'NX');
+    return result === 'OK';
+  }
+
+  private getStateKey(key: string): string {
+    return `${this.BREAKER_PREFIX}${key}`;
+  }
+}
+
+export interface CircuitBreakerConfig {
+  store: BreakerStore;
+  logger: Logger;
+  // Transitions are written to the audit log when provided
+  cache?: CacheService;
+  failureThreshold: number;
+  cooldownSeconds: number;
+}
+
+/**
+ * Circuit breaker per provider+model
+ * closed → open after `failureThreshold` consecutive failures; open → half-open once the
+ * cool-down has passed, letting a single probe through; the probe's result closes or re-opens it.
+ */
+export class CircuitBreaker {
+  private store: BreakerStore;
+  private logger: Logger;
+  private cache?: CacheService;
+  private failureThreshold: number;
+  private cooldownSeconds: number;
+
+  constructor(config: CircuitBreakerConfig) {
+    this.store = config.store;
+    this.logger = config.logger;
+    this.cache = config.cache;
+    this.failureThreshold = config.failureThreshold;
+    this.cooldownSeconds = config.cooldownSeconds;
+  }
+
+  /**
+   * Whether a request may be sent to this provider+model right now
+   * Allows the request if the store is unavailable, like the rate limiter
+   */
+  async canRequest(key: string): Promise<boolean> {
+    try {
+      return await this.evaluate(key);
+    } catch (error) {
+      this.logger.error({ error, breaker: key }, 'Failed to read circuit breaker state');
+      return true;
+    }
+  }
+
+  /**
+   * Stored state of a provider+model breaker (health reporting); null if the store is unavailable
+   */
+  async getState(key: string): Promise<BreakerState | null> {
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      this.logger.error({ error, breaker: key }, 'Failed to read circuit breaker state');
+      return null;
+    }
+  }
+
+  async recordSuccess(key: string): Promise<void> {
+    try {
+      await this.onSuccess(key);
+    } catch (error) {
+      this.logger.error({ error, breaker: key }, 'Failed to record circuit breaker success');
+    }
+  }
+
+  async recordFailure(key: string): Promise<void> {
+    try {
+      await this.onFailure(key);
+    } catch (error) {
+      this.logger.error({ error, breaker: key }, 'Failed to record circuit breaker failure');
+    }
+  }
+
+  private async evaluate(key: string): Promise<boolean> {
+    const state = await this.store.get(key);
+
+    if (state.status === 'closed') {
+      return true;
+    }
+
+    if (state.status === 'open' && Date.now() < state.openUntil) {
+      return false;
+    }
+
+    // Cool-down over (or a previous probe never reported back): allow exactly one probe
+    if (!(await this.store.acquireProbe(key, this.cooldownSeconds))) {
+      return false;
+    }
+
+    if (state.status === 'open') {
+      await this.transition(key, state, { ...state, status: 'half_open' });
+    }
+
+    return true;
+  }
+
+  private async onSuccess(key: string): Promise<void> {
+    const state = await this.store.get(key);
+
+    if (state.status !== 'closed') {
+      await this.transition(key, state, { ...CLOSED });
+    } else if (state.failures > 0) {
+      await this.store.set(key, { ...CLOSED });
+    }
+  }
+
+  private async onFailure(key: string): Promise<void> {
+    const state = await this.store.get(key);
+
+    if (state.status === 'half_open') {
+      await this.open(key, state);
+      return;
+    }
+
+    if (state.status === 'open') {
+      return;
+    }
+
+    const failures = await this.store.incrementFailures(key);
+    if (failures >= this.failureThreshold) {
+      await this.open(key, { ...state, failures });
+    }
+  }
+
+  private async open(key: string, state: BreakerState): Promise<void> {
+    await this.transition(key, state, {
+      status: 'open',
+      failures: state.failures,
+      openUntil: Date.now() + this.cooldownSeconds * 1000,
+    });
+  }
+
+  private async transition(key: string, from: BreakerState, to: BreakerState): Promise<void> {
+    await this.store.set(key, to);
+
+    this.logger.warn(
+      { breaker: key, from: from.status, to: to.status, failures: from.failures },
+      'Circuit breaker transition'
+    );
+
+    await this.cache?.logAudit({
+      timestamp: Date.now(),
+      // The request that caused the transition, or the breaker itself outside a correlation scope
+      correlationId: getCorrelationId() || key,
+      actor: 'system',
+      action: 'circuit_breaker_transition',
+      resource: `llm:${key}`,
+      details: { from: from.status, to: to.status, failures: from.failures },
+    });
+  }
+}
+
+/**
+ * Redis-backed breaker shared by every instance, auditing transitions
+ */
+export function createCircuitBreaker(
+  config: AppConfig,
+  redis: Redis,
+  cache: CacheService,
+  logger: Logger
+): CircuitBreaker {
+  return new CircuitBreaker({
+    store: new RedisBreakerStore(redis),
+    cache,
+    logger,
+    failureThreshold: config.circuitBreaker.failureThreshold,
+    cooldownSeconds: config.circuitBreaker.cooldownSeconds,
+  });
+}
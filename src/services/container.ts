@@ -0,0 +1,149 @@
+import Redis from 'ioredis';
+import { Logger } from 'probot';
+import { AppConfig } from '../config';
+import { CacheService } from './cache';
+import { CircuitBreaker, createCircuitBreaker } from './circuitBreaker';
+import { SummarizerService, createSummarizerService } from './summarizer';
+import { JobQueue } from './jobQueue';
+import { RateLimiter, createRateLimiter } from './rateLimiter';
+import { BudgetService, createBudgetService } from './budget';
+import { AuditSink, createAuditSink } from './auditSink';
+import { BudgetLevel } from '../types';
+import { withCorrelationId } from '../utils/correlation';
+import { SummaryJob } from '../handlers/jobs';
+
+export interface ServiceContainerConfig {
+  config: AppConfig;
+  logger: Logger;
+  // Injected in tests (e.g. ioredis-mock); otherwise connects to config.redis
+  redis?: Redis;
+  // Looks up the App's bot login with the App-level client; without it summary comments match by marker only
+  resolveBotLogin?: () => Promise<string | null>;
+}
+
+/**
+ * Application-wide services, created once at startup and shared by every webhook and job
+ * ioredis multiplexes commands over one connection, so a single client serves all handlers.
+ * GitHub-bound services are per-installation and stay per-event.
+ */
+export class ServiceContainer {
+  readonly config: AppConfig;
+  readonly redis: Redis;
+  readonly cache: CacheService;
+  readonly breaker: CircuitBreaker;
+  readonly rateLimiter: RateLimiter;
+  readonly summarizer: SummarizerService;
+  // Primary provider with the cheaper model, used past the soft budget limit
+  readonly economySummarizer: SummarizerService;
+  readonly budget: BudgetService;
+  readonly queue: JobQueue<SummaryJob>;
+  readonly auditSink?: AuditSink;
+  private logger: Logger;
+  private resolveBotLogin?: () => Promise<string | null>;
+  private botLogin?: Promise<string | null>;
+  private inFlight = new Set<Promise<unknown>>();
+  private shuttingDown: Promise<void> | null = null;
+
+  constructor(config: ServiceContainerConfig) {
+    this.config = config.config;
+    // Every shared service logs the correlation ID of the delivery or job it is working for
+    this.logger = withCorrelationId(config.logger);
+    this.resolveBotLogin = config.resolveBotLogin;
+    this.redis =
+      config.redis ||
+      new Redis(this.config.redis.url, {
+        password: this.config.redis.password || undefined,
+        maxRetriesPerRequest: 3,
+      });
+    this.auditSink = createAuditSink(this.config, this.logger);
+    this.cache = new CacheService({
+      redis: this.redis,
+      logger: this.logger,
+      summaryTtlSeconds: this.config.processing.summaryCacheTTL,
+      auditLogRetentionDays: this.config.processing.auditLogRetentionDays,
+      auditSink: this.auditSink,
+    });
+    this.breaker = createCircuitBreaker(this.config, this.redis, this.cache, this.logger);
+    this.rateLimiter = createRateLimiter(this.config, this.redis, this.logger);
+    this.budget = createBudgetService(this.config, this.redis, this.logger);
+    this.summarizer = createSummarizerService(this.config, this.logger, this.breaker);
+    this.economySummarizer = this.config.budget.economyModel
+      ? createSummarizerService(
+          { ...this.config, llm: { ...this.config.llm, model: this.config.budget.economyModel } },
+          this.logger,
+          this.breaker
+        )
+      : this.summarizer;
+    this.queue = new JobQueue<SummaryJob>({
+      redis: this.redis,
+      logger: this.logger,
+      maxAttempts: this.config.queue.maxAttempts,
+      backoffSeconds: this.config.queue.backoffSeconds,
+      visibilityTimeoutSeconds: this.config.queue.visibilityTimeoutSeconds,
+    });
+  }
+
+  /**
+   * Summarizer for an installation's budget level
+   */
+  summarizerFor(level: BudgetLevel): SummarizerService {
+    return level === 'soft' ? this.economySummarizer : this.summarizer;
+  }
+
+  /**
+   * The App's bot login, resolved on first use and shared by every job
+   * A failed lookup is retried on the next call rather than remembered.
+   */
+  getBotLogin(): Promise<string | null> {
+    if (!this.resolveBotLogin) {
+      return Promise.resolve(null);
+    }
+
+    if (!this.botLogin) {
+      this.botLogin = this.resolveBotLogin().catch((error: unknown) => {
+        this.logger.warn({ error }, 'Failed to resolve the App bot login - matching bot comments by marker only');
+        this.botLogin = undefined;
+        return null;
+      });
+    }
+
+    return this.botLogin;
+  }
+
+  /**
+   * Track work so shutdown can wait for it to finish
+   */
+  track<T>(work: Promise<T>): Promise<T> {
+    this.inFlight.add(work);
+    const done = (): void => {
+      this.inFlight.delete(work);
+    };
+    work.then(done, done);
+    return work;
+  }
+
+  /**
+   * Wait for in-flight work and forwarded audit entries, then close the Redis connection (idempotent)
+   */
+  shutdown(): Promise<void> {
+    if (!this.shuttingDown) {
+      this.shuttingDown = this.drain();
+    }
+    return this.shuttingDown;
+  }
+
+  private async drain(): Promise<void> {
+    this.logger.info({ inFlight: this.inFlight.size }, 'Shutting down - waiting for in-flight work');
+
+    await Promise.allSettled([...this.inFlight]);
+    await this.auditSink?.flush();
+
+    try {
+      await this.redis.quit();
+    } catch (error) {
+      this.logger.error({ error }, 'Failed to close Redis connection');
+    }
+
+    this.logger.info('Shutdown complete');
+  }
+}
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FakeLLMOptions, PRSummary } from '../types';
+import { ChatCompletion, ChatModel } from './llmProviders';
+import { estimateTokens } from '../utils/tokens';
+
+const DIFF_PATTERN = /\nDiff \([^)]*\):\n([\s\S]*?)\n\n(?:Provide a JSON response|Requirements:)/;
+const PARTIAL_PATTERN = /^Part \d+:\n(\{.*\})$/gm;
+const MAX_LISTED_FILES = 5;
+
+/**
+ * Fixture key for a prompt: hash of its diff section (or the whole prompt when it has none)
+ */
+export function hashPromptDiff(prompt: string): string {
+  const match = prompt.match(DIFF_PATTERN);
+  return createHash('sha256')
+    .update(match ? match[1] : prompt)
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * Offline, deterministic chat model for tests and local development
+ * Answers from fixture files when present, otherwise derives a summary from the prompt's
+ * file names and commit messages. Latency and failures can be injected to exercise the
+ * summarizer's retry, circuit breaker and response parsing paths without any network.
+ */
+export class FakeChatModel implements ChatModel {
+  readonly model: string;
+  private options: FakeLLMOptions;
+  private calls = 0;
+
+  constructor(model: string, options: FakeLLMOptions = {}) {
+    this.model = model;
+    this.options = options;
+  }
+
+  async invoke(prompt: string): Promise<ChatCompletion> {
+    this.calls++;
+
+    if (this.options.latencyMs) {
+      await new Promise((resolve) => setTimeout(resolve, this.options.latencyMs));
+    }
+
+    const failing = this.options.failTimes === undefined || this.calls <= this.options.failTimes;
+    if (this.options.failure && failing) {
+      if (this.options.failure === 'malformed') {
+        return this.complete(prompt, '{"what": "truncated respo');
+      }
+      throw this.buildFailure(this.options.failure);
+    }
+
+    const key = hashPromptDiff(prompt);
+    const fixture = await this.readFixture(key);
+
+    return this.complete(prompt, fixture ?? this.respond(prompt, key));
+  }
+
+  /**
+   * Errors shaped like the vendor SDKs' so retry classification treats them the same way
+   */
+  private buildFailure(failure: 'rate_limit' | 'timeout'): Error {
+    if (failure === 'rate_limit') {
+      return Object.assign(new Error('Fake LLM rate limit exceeded'), { status: 429 });
+    }
+
+    return Object.assign(new Error('Fake LLM request timeout'), { code: 'ETIMEDOUT' });
+  }
+
+  private async readFixture(key: string): Promise<string | null> {
+    if (!this.options.fixturesDir) {
+      return null;
+    }
+
+    try {
+      return await fs.readFile(path.join(this.options.fixturesDir, `${key}.json`), 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Rule-based response for the summary, reduce and explain prompts
+   */
+  private respond(prompt: string, key: string): string {
+    const explainedFile = prompt.match(/^File: (.+)$/m);
+    if (explainedFile) {
+      return `Fake explanation of the changes to \`${explainedFile[1]}\` (fixture key \`${key}\`).`;
+    }
+
+    const partials = [...prompt.matchAll(PARTIAL_PATTERN)].map((m) => JSON.parse(m[1]) as PRSummary);
+    if (partials.length > 0) {
+      return JSON.stringify({
+        what: partials.map((p) => p.what).join(' '),
+        why: partials[0].why,
+        impact: partials.map((p) => p.impact).join(' '),
+        notes: `Merged from ${partials.length} partial summaries by the fake LLM provider.`,
+      });
+    }
+
+    const diff = prompt.match(DIFF_PATTERN)?.[1] || '';
+    const files = [...diff.matchAll(/^--- (.+)$/gm)].map((m) => m[1]);
+    const commits = [...(prompt.match(/\nCommits:\n((?:- .*\n?)*)/)?.[1] || '').matchAll(/^- (.+)$/gm)].map(
+      (m) => m[1]
+    );
+
+    const listed = files.slice(0, MAX_LISTED_FILES).join(', ');
+    const more = files.length > MAX_LISTED_FILES ? ` and ${files.length - MAX_LISTED_FILES} more` : '';
+    const areas = [...new Set(files.map((f) => (f.includes('/') ? f.split('/')[0] : '(root)')))];
+
+    return JSON.stringify({
+      what: files.length > 0 ? `Changes ${files.length} file(s): ${listed}${more}.` : 'Changes not specified in PR.',
+      why: commits.length > 0 ? commits.join('; ') : 'Not specified in PR',
+      impact: areas.length > 0 ? `Affects ${areas.join(', ')}.` : 'Not specified in PR',
+      notes: `Generated by the fake LLM provider (fixture key ${key}).`,
+    });
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token) so usage accounting has something to count
+   */
+  private complete(prompt: string, content: string): ChatCompletion {
+    const inputTokens = estimateTokens(prompt);
+    const outputTokens = estimateTokens(content);
+
+    return { content, tokensUsed: inputTokens + outputTokens, inputTokens, outputTokens };
+  }
+}
@@ -1,22 +1,45 @@
-import { Octokit } from '@octokit/rest';
+import { Octokit, RestEndpointMethodTypes } from '@octokit/rest';
 import { Logger } from 'probot';
+import { githubApiRetries } from './metrics';
+import { CommentKind, CommentMarker, parseCommentMarker } from '../utils/commentMarker';
+import { parseUnifiedDiff } from '../utils/unifiedDiff';
+
+type ChangedFile = RestEndpointMethodTypes['pulls']['listFiles']['response']['data'][number];
+type ListedCommit = RestEndpointMethodTypes['pulls']['listCommits']['response']['data'][number];
+
+// Hard limits of GitHub's listings: pull request commits (files stop at 3000, which `changed_files` exposes)
+// and compare files
+const MAX_LISTED_COMMITS = 250;
+const MAX_COMPARED_FILES = 300;
+// Added files whose contents are fetched when GitHub cannot produce a diff at all
+const MAX_CONTENT_FALLBACKS = 20;
 
 export interface GitHubConfig {
   octokit: Octokit;
   logger: Logger;
+  // The App's bot user (e.g. `my-app[bot]`), resolved once at startup with the App's own credentials
+  botLogin?: string | null;
 }
 
 export interface PRDiff {
+  // Totals for the whole pull request, even when `files` is partial
   additions: number;
   deletions: number;
   changes: number;
+  totalFiles: number;
+  totalCommits: number;
   files: Array<{
     filename: string;
     status: string;
+    previousFilename?: string;
     additions: number;
     deletions: number;
+    // Filled from the raw diff or file contents when the listing omits it (large or binary files)
     patch?: string;
+    binary?: boolean;
   }>;
+  // GitHub lists at most 3000 files and 250 commits; set when the listing left some out
+  partial: boolean;
 }
 
 export interface PRCommit {
@@ -26,49 +49,112 @@ export interface PRCommit {
   timestamp: string;
 }
 
+/**
+ * Where the raw diff of a set of changed files comes from: a pull request, or a comparison of two commits
+ */
+type DiffSource = { pullNumber: number; head: string } | { base: string; head: string };
+
+/**
+ * Changes between two commits, e.g. the previously summarized head and the new one
+ */
+export interface CommitComparison {
+  // 'ahead' when head descends from base; 'diverged' or 'behind' after a force push or rebase
+  status: 'ahead' | 'behind' | 'identical' | 'diverged';
+  aheadBy: number;
+  diff: PRDiff;
+  commits: PRCommit[];
+}
+
+export interface PRDetails {
+  number: number;
+  title: string;
+  body: string | null;
+  state: string;
+  headSha: string;
+  baseSha: string;
+  labels: string[];
+  author: string;
+  // ISO timestamp; orders head SHAs when webhooks arrive out of order
+  updatedAt: string;
+}
+
+export interface SummaryComment extends CommentMarker {
+  id: number;
+}
+
+export type CheckConclusion = 'success' | 'neutral' | 'failure' | 'skipped';
+
+export interface CheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  title?: string;
+  message: string;
+}
+
+export interface CheckRunOutput {
+  headSha: string;
+  name: string;
+  conclusion: CheckConclusion;
+  title: string;
+  summary: string;
+  annotations?: CheckAnnotation[];
+}
+
+export type PermissionLevel = 'admin' | 'write' | 'read' | 'none';
+
+export type ReactionContent = '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes';
+
 export class GitHubService {
   private octokit: Octokit;
   private logger: Logger;
+  private botLogin: string | null;
   private readonly MAX_RETRIES = 2;
   private readonly INITIAL_RETRY_DELAY = 1000;
+  private readonly MAX_ANNOTATIONS_PER_REQUEST = 50;
 
   constructor(config: GitHubConfig) {
     this.octokit = config.octokit;
     this.logger = config.logger;
+    this.botLogin = config.botLogin ?? null;
   }
 
   /**
    * Fetch PR diff with file changes and patches
+   * Lists every page of files (up to GitHub's 3000-file cap); totals come from the pull request itself.
    */
   async fetchDiff(owner: string, repo: string, pullNumber: number): Promise<PRDiff> {
     return this.withRetry(async () => {
       this.logger.info({ owner, repo, pullNumber }, 'Fetching PR diff');
 
-      const { data: files } = await this.octokit.pulls.listFiles({
+      const { data: pr } = await this.octokit.pulls.get({ owner, repo, pull_number: pullNumber });
+      const pages = this.octokit.paginate.iterator('GET /repos/{owner}/{repo}/pulls/{pull_number}/files', {
         owner,
         repo,
         pull_number: pullNumber,
+        per_page: 100,
       });
 
+      const files: ChangedFile[] = [];
+      for await (const { data } of pages) {
+        files.push(...data);
+      }
+
       const diff: PRDiff = {
-        additions: 0,
-        deletions: 0,
-        changes: 0,
-        files: [],
+        ...this.toDiff(files),
+        additions: pr.additions,
+        deletions: pr.deletions,
+        changes: pr.additions + pr.deletions,
+        totalFiles: pr.changed_files,
+        totalCommits: pr.commits,
+        partial: files.length < pr.changed_files || pr.commits > MAX_LISTED_COMMITS,
       };
+      await this.fillMissingPatches(owner, repo, diff.files, { pullNumber, head: pr.head.sha });
 
-      for (const file of files) {
-        diff.additions += file.additions;
-        diff.deletions += file.deletions;
-        diff.changes += file.changes;
-
-        diff.files.push({
-          filename: file.filename,
-          status: file.status,
-          additions: file.additions,
-          deletions: file.deletions,
-          patch: file.patch,
-        });
+      if (diff.partial) {
+        const totals = { listedFiles: files.length, totalFiles: pr.changed_files, totalCommits: pr.commits };
+        this.logger.warn({ owner, repo, pullNumber, ...totals }, 'PR exceeds GitHub listing limits - using partial data');
       }
 
       this.logger.info(
@@ -82,23 +168,23 @@ export class GitHubService {
 
   /**
    * Fetch PR commits with metadata
+   * Lists every page; GitHub returns at most the first 250 commits of a pull request.
    */
   async fetchCommits(owner: string, repo: string, pullNumber: number): Promise<PRCommit[]> {
     return this.withRetry(async () => {
       this.logger.info({ owner, repo, pullNumber }, 'Fetching PR commits');
 
-      const { data: commits } = await this.octokit.pulls.listCommits({
+      const pages = this.octokit.paginate.iterator('GET /repos/{owner}/{repo}/pulls/{pull_number}/commits', {
         owner,
         repo,
         pull_number: pullNumber,
+        per_page: 100,
       });
 
-      const prCommits = commits.map((commit) => ({
-        sha: commit.sha,
-        message: commit.commit.message,
-        author: commit.commit.author?.name || 'Unknown',
-        timestamp: commit.commit.author?.date || new Date().toISOString(),
-      }));
+      const prCommits: PRCommit[] = [];
+      for await (const { data } of pages) {
+        prCommits.push(...data.map((commit) => this.toCommit(commit)));
+      }
 
       this.logger.info({ owner, repo, pullNumber, commitCount: prCommits.length }, 'PR commits fetched successfully');
 
@@ -106,6 +192,151 @@ export class GitHubService {
     });
   }
 
+  /**
+   * Compare two commits: files changed and commits added from base to head
+   */
+  async compareCommits(owner: string, repo: string, base: string, head: string): Promise<CommitComparison> {
+    return this.withRetry(async () => {
+      this.logger.info({ owner, repo, base, head }, 'Comparing commits');
+
+      const { data } = await this.octokit.repos.compareCommitsWithBasehead({
+        owner,
+        repo,
+        basehead: `${base}...${head}`,
+      });
+
+      const files = data.files || [];
+      const diff: PRDiff = {
+        ...this.toDiff(files),
+        totalFiles: files.length,
+        totalCommits: data.ahead_by,
+        // The compare API lists at most 300 files and 250 commits and has no file total
+        partial: files.length >= MAX_COMPARED_FILES || data.commits.length < data.ahead_by,
+      };
+      await this.fillMissingPatches(owner, repo, diff.files, { base, head });
+
+      const comparison: CommitComparison = {
+        status: data.status,
+        aheadBy: data.ahead_by,
+        diff,
+        commits: data.commits.map((commit) => this.toCommit(commit)),
+      };
+
+      this.logger.info(
+        { owner, repo, base, head, status: comparison.status, fileCount: comparison.diff.files.length },
+        'Commits compared successfully'
+      );
+
+      return comparison;
+    });
+  }
+
+  /**
+   * Fetch PR metadata (used when the trigger is not a pull_request event)
+   */
+  async fetchPullRequest(owner: string, repo: string, pullNumber: number): Promise<PRDetails> {
+    return this.withRetry(async () => {
+      this.logger.info({ owner, repo, pullNumber }, 'Fetching PR details');
+
+      const { data: pr } = await this.octokit.pulls.get({
+        owner,
+        repo,
+        pull_number: pullNumber,
+      });
+
+      return {
+        number: pr.number,
+        title: pr.title,
+        body: pr.body,
+        state: pr.state,
+        headSha: pr.head.sha,
+        baseSha: pr.base.sha,
+        labels: pr.labels.map((l) => l.name),
+        author: pr.user?.login || 'unknown',
+        updatedAt: pr.updated_at,
+      };
+    });
+  }
+
+  /**
+   * Replace the PR description
+   */
+  async updatePullRequestBody(owner: string, repo: string, pullNumber: number, body: string): Promise<void> {
+    return this.withRetry(async () => {
+      this.logger.info({ owner, repo, pullNumber }, 'Updating PR description');
+
+      await this.octokit.pulls.update({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        body,
+      });
+
+      this.logger.info({ owner, repo, pullNumber }, 'PR description updated successfully');
+    });
+  }
+
+  /**
+   * Get a user's permission level on the repository
+   */
+  async getPermissionLevel(owner: string, repo: string, username: string): Promise<PermissionLevel> {
+    return this.withRetry(async () => {
+      try {
+        const { data } = await this.octokit.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+        this.logger.info({ owner, repo, username, permission: data.permission }, 'Fetched permission level');
+        return data.permission as PermissionLevel;
+      } catch (error) {
+        // Non-collaborators are reported as 404
+        if ((error as { status?: number }).status === 404) {
+          return 'none';
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * React to an issue/PR comment
+   */
+  async addReaction(owner: string, repo: string, commentId: number, content: ReactionContent): Promise<void> {
+    return this.withRetry(async () => {
+      await this.octokit.reactions.createForIssueComment({
+        owner,
+        repo,
+        comment_id: commentId,
+        content,
+      });
+
+      this.logger.info({ owner, repo, commentId, content }, 'Reaction added to comment');
+    });
+  }
+
+  /**
+   * Fetch a file's text content at a ref (returns null if the file does not exist)
+   */
+  async fetchFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string | null> {
+    return this.withRetry(async () => {
+      this.logger.info({ owner, repo, path, ref }, 'Fetching file content');
+
+      try {
+        const { data } = await this.octokit.repos.getContent({ owner, repo, path, ref });
+
+        if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+          this.logger.warn({ owner, repo, path, ref }, 'Path is not a file');
+          return null;
+        }
+
+        return Buffer.from(data.content, 'base64').toString('utf8');
+      } catch (error) {
+        if ((error as { status?: number }).status === 404) {
+          this.logger.info({ owner, repo, path, ref }, 'File not found');
+          return null;
+        }
+        throw error;
+      }
+    });
+  }
+
   /**
    * Post new comment on PR
    */
@@ -145,30 +376,231 @@ export class GitHubService {
   }
 
   /**
-   * Find existing bot comment on PR
+   * Publish a completed check run on a commit
+   * The Checks API accepts at most 50 annotations per request, so extra batches are sent as updates
    */
-  async findBotComment(owner: string, repo: string, pullNumber: number, botLogin: string): Promise<number | null> {
+  async createCheckRun(owner: string, repo: string, output: CheckRunOutput): Promise<number> {
+    const annotations = output.annotations || [];
+    const batches: CheckAnnotation[][] = [];
+    for (let i = 0; i < annotations.length; i += this.MAX_ANNOTATIONS_PER_REQUEST) {
+      batches.push(annotations.slice(i, i + this.MAX_ANNOTATIONS_PER_REQUEST));
+    }
+
+    const checkRunId = await this.withRetry(async () => {
+      this.logger.info({ owner, repo, headSha: output.headSha, conclusion: output.conclusion }, 'Creating check run');
+
+      const { data: checkRun } = await this.octokit.checks.create({
+        owner,
+        repo,
+        name: output.name,
+        head_sha: output.headSha,
+        status: 'completed',
+        conclusion: output.conclusion,
+        output: {
+          title: output.title,
+          summary: output.summary,
+          annotations: batches[0],
+        },
+      });
+
+      return checkRun.id;
+    });
+
+    for (const batch of batches.slice(1)) {
+      await this.withRetry(async () => {
+        await this.octokit.checks.update({
+          owner,
+          repo,
+          check_run_id: checkRunId,
+          output: {
+            title: output.title,
+            summary: output.summary,
+            annotations: batch,
+          },
+        });
+      });
+    }
+
+    this.logger.info({ owner, repo, checkRunId, annotations: annotations.length }, 'Check run created successfully');
+
+    return checkRunId;
+  }
+
+  /**
+   * Find the bot's summary comment on the PR by its hidden marker
+   */
+  async findSummaryComment(owner: string, repo: string, pullNumber: number): Promise<SummaryComment | null> {
+    return this.findMarkedComment(owner, repo, pullNumber, 'summary');
+  }
+
+  /**
+   * Find the bot's comment of a kind (summary or skip notice) on the PR by its hidden marker
+   * Scans every page of comments. Only bot accounts' comments count, and only the App's own once its login is
+   * known, so a user pasting the marker cannot have their comment overwritten.
+   */
+  async findMarkedComment(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    kind: CommentKind
+  ): Promise<SummaryComment | null> {
+    const { botLogin } = this;
+
     return this.withRetry(async () => {
-      this.logger.info({ owner, repo, pullNumber, botLogin }, 'Searching for existing bot comment');
+      this.logger.info({ owner, repo, pullNumber, botLogin, kind }, 'Searching for existing bot comment');
 
-      const { data: comments } = await this.octokit.issues.listComments({
+      const pages = this.octokit.paginate.iterator('GET /repos/{owner}/{repo}/issues/{issue_number}/comments', {
         owner,
         repo,
         issue_number: pullNumber,
+        per_page: 100,
       });
 
-      const botComment = comments.find((comment) => comment.user?.login === botLogin);
-
-      if (botComment) {
-        this.logger.info({ owner, repo, pullNumber, commentId: botComment.id }, 'Found existing bot comment');
-        return botComment.id;
+      for await (const { data: comments } of pages) {
+        for (const comment of comments) {
+          if (comment.user?.type !== 'Bot' || (botLogin && comment.user.login !== botLogin)) {
+            continue;
+          }
+
+          const marker = parseCommentMarker(comment.body, kind);
+          if (marker) {
+            this.logger.info({ owner, repo, pullNumber, commentId: comment.id, sha: marker.sha, kind }, 'Found bot comment');
+            return { id: comment.id, ...marker };
+          }
+        }
       }
 
-      this.logger.info({ owner, repo, pullNumber }, 'No existing bot comment found');
+      this.logger.info({ owner, repo, pullNumber, kind }, 'No existing bot comment found');
       return null;
     });
   }
 
+  /**
+   * Total line counts and per-file changes of a file list (pull request files or a comparison)
+   */
+  private toDiff(files: ChangedFile[]): Pick<PRDiff, 'additions' | 'deletions' | 'changes' | 'files'> {
+    const diff: Pick<PRDiff, 'additions' | 'deletions' | 'changes' | 'files'> = {
+      additions: 0,
+      deletions: 0,
+      changes: 0,
+      files: [],
+    };
+
+    for (const file of files) {
+      diff.additions += file.additions;
+      diff.deletions += file.deletions;
+      diff.changes += file.changes;
+
+      diff.files.push({
+        filename: file.filename,
+        status: file.status,
+        ...(file.previous_filename ? { previousFilename: file.previous_filename } : {}),
+        additions: file.additions,
+        deletions: file.deletions,
+        patch: file.patch,
+      });
+    }
+
+    return diff;
+  }
+
+  /**
+   * Fill in the patches GitHub leaves out of file listings (large and binary files)
+   * Reads the raw diff, which has every file GitHub can diff and marks binaries; when that is too large too,
+   * added files fall back to their contents at the head and the rest are flagged binary or left without a patch.
+   */
+  private async fillMissingPatches(
+    owner: string,
+    repo: string,
+    files: PRDiff['files'],
+    source: DiffSource
+  ): Promise<void> {
+    // A pure rename has neither a patch nor anything to show
+    const missing = files.filter((f) => !f.patch && !(f.status === 'renamed' && f.additions + f.deletions === 0));
+    if (missing.length === 0) {
+      return;
+    }
+
+    this.logger.info({ owner, repo, ...source, fileCount: missing.length }, 'Fetching patches missing from listing');
+
+    const raw = await this.fetchRawDiff(owner, repo, source);
+    if (raw) {
+      const parsed = parseUnifiedDiff(raw);
+      for (const file of missing) {
+        const entry = parsed.get(file.filename);
+        if (entry?.patch) {
+          file.patch = entry.patch;
+        }
+        if (entry?.binary) {
+          file.binary = true;
+        }
+      }
+      return;
+    }
+
+    const added = missing.filter((f) => f.status === 'added').slice(0, MAX_CONTENT_FALLBACKS);
+    for (const file of missing) {
+      if (added.includes(file)) {
+        const content = await this.fetchFileContent(owner, repo, file.filename, source.head).catch(() => null);
+        this.applyContent(file, content);
+      } else if (file.additions + file.deletions === 0 && file.status !== 'added') {
+        // GitHub counts no lines for a binary file; an added file without lines may just be empty
+        file.binary = true;
+      }
+    }
+  }
+
+  /**
+   * The raw unified diff, or null when GitHub refuses it (too large) or it cannot be fetched
+   */
+  private async fetchRawDiff(owner: string, repo: string, source: DiffSource): Promise<string | null> {
+    const mediaType = { format: 'diff' };
+
+    try {
+      const { data } =
+        'pullNumber' in source
+          ? await this.octokit.pulls.get({ owner, repo, pull_number: source.pullNumber, mediaType })
+          : await this.octokit.repos.compareCommitsWithBasehead({
+            owner,
+            repo,
+            basehead: `${source.base}...${source.head}`,
+            mediaType,
+          });
+
+      // The diff media type returns the body as a string
+      return data as unknown as string;
+    } catch (error) {
+      this.logger.warn({ error, owner, repo, ...source }, 'Raw diff unavailable - falling back to file contents');
+      return null;
+    }
+  }
+
+  /**
+   * Turn an added file's contents into a patch, or flag it binary (an empty file keeps no patch)
+   */
+  private applyContent(file: PRDiff['files'][number], content: string | null): void {
+    if (content === null || content === '') {
+      return;
+    }
+
+    if (content.includes('\0')) {
+      file.binary = true;
+      return;
+    }
+
+    const lines = content.replace(/\n$/, '').split('\n');
+    file.patch = [`@@ -0,0 +1,${lines.length} @@`, ...lines.map((line) => `+${line}`)].join('\n');
+  }
+
+  private toCommit(commit: ListedCommit): PRCommit {
+    return {
+      sha: commit.sha,
+      message: commit.commit.message,
+      author: commit.commit.author?.name || 'Unknown',
+      timestamp: commit.commit.author?.date || new Date().toISOString(),
+    };
+  }
+
   /**
    * Retry logic with exponential backoff for transient errors
    */
@@ -192,6 +624,7 @@ export class GitHubService {
         // Exponential backoff with jitter
         const delay = this.INITIAL_RETRY_DELAY * Math.pow(2, attempt) + Math.random() * 1000;
         this.logger.warn({ error, attempt, delay }, 'Retrying GitHub API request');
+        githubApiRetries.inc();
 
         await this.sleep(delay);
       }
@@ -230,3 +663,13 @@ export class GitHubService {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
+
+/**
+ * Login of the GitHub App's bot user (e.g. `my-app[bot]`), or null if the App has no slug
+ * `GET /app` only accepts the App's JWT, so this needs the App-level client (`app.auth()` without an
+ * installation id), not an installation client.
+ */
+export async function resolveBotLogin(appOctokit: Octokit): Promise<string | null> {
+  const { data: app } = await appOctokit.apps.getAuthenticated();
+  return app?.slug ? `${app.slug}[bot]` : null;
+}
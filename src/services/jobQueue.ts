@@ -0,0 +1,326 @@
+import Redis from 'ioredis';
+import { Logger } from 'probot';
+import { getCorrelationId } from '../utils/correlation';
+
+export interface Job<T> {
+  id: string;
+  payload: T;
+  // Number of times the job has been claimed by a worker
+  attempts: number;
+  enqueuedAt: number;
+  lastError?: string;
+  // Of the webhook delivery that enqueued the job; the worker runs the job under it
+  correlationId?: string;
+  // When the current lease runs out (epoch ms); set on a claimed job and moved on by extendLease
+  leaseExpiresAt?: number;
+}
+
+export interface DeadLetter<T> extends Job<T> {
+  failedAt: number;
+}
+
+export interface JobQueueConfig {
+  redis: Redis;
+  logger: Logger;
+  maxAttempts: number;
+  // Delay before the first retry; doubles on every further attempt
+  backoffSeconds: number;
+  // How long a claimed job may run before it is assumed lost and handed to another worker
+  visibilityTimeoutSeconds: number;
+}
+
+// Store the job and schedule it, unless a job with the same id is already waiting or running
+const ENQUEUE_SCRIPT = `
+if redis.call('SET', KEYS[1], ARGV[1], 'NX') then
+  redis.call('ZADD', KEYS[2], ARGV[2], ARGV[3])
+  return 1
+end
+return 0`;
+
+// Requeue jobs whose lease expired (crashed worker), then claim the next due job
+const CLAIM_SCRIPT = `
+local stalled = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+for _, id in ipairs(stalled) do
+  redis.call('ZREM', KEYS[2], id)
+  redis.call('ZADD', KEYS[1], ARGV[1], id)
+end
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 1)
+if #ids == 0 then
+  return false
+end
+redis.call('ZREM', KEYS[1], ids[1])
+redis.call('ZADD', KEYS[2], ARGV[2], ids[1])
+return ids[1]`;
+
+// Push a running job's lease back, unless it expired and another worker claimed the job since
+const EXTEND_LEASE_SCRIPT = `
+local lease = redis.call('ZSCORE', KEYS[1], ARGV[1])
+if lease and tonumber(lease) == tonumber(ARGV[2]) then
+  redis.call('ZADD', KEYS[1], ARGV[3], ARGV[1])
+  return 1
+end
+return 0`;
+
+// Release a claimed job, unless its lease expired and another worker claimed the job since; the scripts below
+// add what happens to the job record
+const RELEASE_LEASE = `
+local lease = redis.call('ZSCORE', KEYS[1], ARGV[1])
+if not lease or tonumber(lease) ~= tonumber(ARGV[2]) then
+  return 0
+end
+redis.call('ZREM', KEYS[1], ARGV[1])`;
+
+const COMPLETE_SCRIPT = `${RELEASE_LEASE}
+redis.call('DEL', KEYS[2])
+return 1`;
+
+const RETRY_SCRIPT = `${RELEASE_LEASE}
+redis.call('SET', KEYS[2], ARGV[3])
+redis.call('ZADD', KEYS[3], ARGV[4], ARGV[1])
+return 1`;
+
+const DEAD_LETTER_SCRIPT = `${RELEASE_LEASE}
+redis.call('DEL', KEYS[2])
+redis.call('LPUSH', KEYS[3], ARGV[3])
+return 1`;
+
+/**
+ * Durable Redis-backed job queue
+ * Jobs are deduplicated by id while waiting or running. A claimed job is leased to one worker, which
+ * renews the lease while the job runs; if the worker dies the lease expires and the job is claimed again.
+ * Jobs that exhaust their attempts, including a job whose lease keeps expiring because it crashes its worker,
+ * move to a dead-letter list, from which they can be inspected and replayed. Only the holder of the current
+ * lease can complete or fail a job.
+ */
+export class JobQueue<T> {
+  private redis: Redis;
+  private logger: Logger;
+  private maxAttempts: number;
+  private backoffSeconds: number;
+  private visibilityTimeoutSeconds: number;
+  // How often a worker renews a running job's lease: three chances before it would expire
+  readonly leaseRenewalMs: number;
+
+  // Keys
+  private readonly JOB_PREFIX = 'queue:job:';
+  private readonly WAITING_KEY = 'queue:waiting';
+  private readonly ACTIVE_KEY = 'queue:active';
+  private readonly DEAD_KEY = 'queue:dead';
+
+  constructor(config: JobQueueConfig) {
+    this.redis = config.redis;
+    this.logger = config.logger;
+    this.maxAttempts = config.maxAttempts;
+    this.backoffSeconds = config.backoffSeconds;
+    this.visibilityTimeoutSeconds = config.visibilityTimeoutSeconds;
+    this.leaseRenewalMs = (config.visibilityTimeoutSeconds * 1000) / 3;
+  }
+
+  /**
+   * Add a job, optionally delayed (returns false if a job with this id is already queued or running)
+   * The job keeps the caller's correlation ID.
+   */
+  async enqueue(id: string, payload: T, delaySeconds = 0): Promise<boolean> {
+    const job: Job<T> = { id, payload, attempts: 0, enqueuedAt: Date.now(), correlationId: getCorrelationId() };
+
+    const added = (await this.redis.eval(
+      ENQUEUE_SCRIPT,
+      2,
+      this.getJobKey(id),
+      this.WAITING_KEY,
+      JSON.stringify(job),
+      Date.now() + delaySeconds * 1000,
+      id
+    )) as number;
+
+    this.logger.info(
+      { jobId: id, delaySeconds, deduplicated: added === 0 },
+      added ? 'Job enqueued' : 'Job already queued'
+    );
+
+    return added === 1;
+  }
+
+  /**
+   * Lease the next due job to the caller, or null if none is due
+   */
+  async claim(): Promise<Job<T> | null> {
+    const now = Date.now();
+    const leaseExpiresAt = now + this.visibilityTimeoutSeconds * 1000;
+    const id = (await this.redis.eval(
+      CLAIM_SCRIPT,
+      2,
+      this.WAITING_KEY,
+      this.ACTIVE_KEY,
+      now,
+      leaseExpiresAt
+    )) as string | null;
+
+    if (!id) {
+      return null;
+    }
+
+    const data = await this.redis.get(this.getJobKey(id));
+    if (!data) {
+      // Record vanished (e.g. manual cleanup) - drop the orphaned id
+      await this.redis.zrem(this.ACTIVE_KEY, id);
+      return null;
+    }
+
+    const job = JSON.parse(data) as Job<T>;
+
+    // fail() dead-letters a job on its last attempt, so a job claimed with none left lost its lease on it
+    if (job.attempts >= this.maxAttempts) {
+      const lastError = job.lastError ?? 'Job lease expired on its last attempt';
+      await this.deadLetter({ ...job, leaseExpiresAt }, lastError);
+      return this.claim();
+    }
+
+    job.attempts++;
+    await this.redis.set(this.getJobKey(id), JSON.stringify(job));
+
+    return { ...job, leaseExpiresAt };
+  }
+
+  /**
+   * Renew a claimed job's lease for another visibility timeout
+   * Returns false when the lease was already lost: the job expired and may be running on another worker.
+   */
+  async extendLease(job: Job<T>): Promise<boolean> {
+    const leaseExpiresAt = Date.now() + this.visibilityTimeoutSeconds * 1000;
+    const extended = (await this.redis.eval(
+      EXTEND_LEASE_SCRIPT,
+      1,
+      this.ACTIVE_KEY,
+      job.id,
+      job.leaseExpiresAt ?? 0,
+      leaseExpiresAt
+    )) as number;
+
+    if (extended === 1) {
+      job.leaseExpiresAt = leaseExpiresAt;
+    }
+
+    return extended === 1;
+  }
+
+  /**
+   * Mark a claimed job as done
+   * Returns false when the caller no longer holds the lease; the job is left to the worker that does.
+   */
+  async complete(job: Job<T>): Promise<boolean> {
+    const completed = await this.release(COMPLETE_SCRIPT, job, [this.getJobKey(job.id)]);
+
+    if (completed) {
+      this.logger.info({ jobId: job.id, attempts: job.attempts }, 'Job completed');
+    }
+    return completed;
+  }
+
+  /**
+   * Record a failed attempt: retry with exponential backoff, or dead-letter once attempts run out
+   * Returns false when the caller no longer holds the lease; the job is left to the worker that does.
+   */
+  async fail(job: Job<T>, error: unknown): Promise<boolean> {
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts >= this.maxAttempts) {
+      return this.deadLetter(job, lastError);
+    }
+
+    const delay = this.backoffSeconds * 1000 * Math.pow(2, job.attempts - 1);
+    const retried = await this.release(
+      RETRY_SCRIPT,
+      job,
+      [this.getJobKey(job.id), this.WAITING_KEY],
+      [JSON.stringify({ ...job, lastError }), Date.now() + delay]
+    );
+
+    if (retried) {
+      this.logger.warn({ jobId: job.id, attempts: job.attempts, delay, lastError }, 'Job failed - retry scheduled');
+    }
+    return retried;
+  }
+
+  /**
+   * Dead-lettered jobs, most recent first
+   */
+  async listDeadLetters(offset = 0, limit = 50): Promise<DeadLetter<T>[]> {
+    const entries = await this.redis.lrange(this.DEAD_KEY, offset, offset + limit - 1);
+    return entries.map((e) => JSON.parse(e) as DeadLetter<T>);
+  }
+
+  /**
+   * Move a dead-lettered job back onto the queue with fresh attempts
+   */
+  async replayDeadLetter(id: string): Promise<boolean> {
+    const entries = await this.redis.lrange(this.DEAD_KEY, 0, -1);
+    const entry = entries.find((e) => (JSON.parse(e) as DeadLetter<T>).id === id);
+
+    if (!entry) {
+      return false;
+    }
+
+    const { payload } = JSON.parse(entry) as DeadLetter<T>;
+    if (!(await this.enqueue(id, payload))) {
+      return false;
+    }
+
+    await this.redis.lrem(this.DEAD_KEY, 1, entry);
+    this.logger.info({ jobId: id }, 'Dead-lettered job replayed');
+
+    return true;
+  }
+
+  /**
+   * Queue depth, for monitoring
+   */
+  async getCounts(): Promise<{ waiting: number; active: number; dead: number }> {
+    const [waiting, active, dead] = await Promise.all([
+      this.redis.zcard(this.WAITING_KEY),
+      this.redis.zcard(this.ACTIVE_KEY),
+      this.redis.llen(this.DEAD_KEY),
+    ]);
+
+    return { waiting, active, dead };
+  }
+
+  private async deadLetter(job: Job<T>, lastError: string): Promise<boolean> {
+    const dead: DeadLetter<T> = { ...job, lastError, failedAt: Date.now() };
+    const moved = await this.release(
+      DEAD_LETTER_SCRIPT,
+      job,
+      [this.getJobKey(job.id), this.DEAD_KEY],
+      [JSON.stringify(dead)]
+    );
+
+    if (moved) {
+      this.logger.error({ jobId: job.id, attempts: job.attempts, lastError }, 'Job moved to dead-letter list');
+    }
+    return moved;
+  }
+
+  /**
+   * Run a release script against the caller's lease (keys and arguments after the active set and job id)
+   */
+  private async release(script: string, job: Job<T>, keys: string[], args: (string | number)[] = []): Promise<boolean> {
+    const released = (await this.redis.eval(
+      script,
+      keys.length + 1,
+      this.ACTIVE_KEY,
+      ...keys,
+      job.id,
+      job.leaseExpiresAt ?? 0,
+      ...args
+    )) as number;
+
+    if (released !== 1) {
+      this.logger.warn({ jobId: job.id }, 'Job lease lost - leaving the job to its current worker');
+    }
+    return released === 1;
+  }
+
+  private getJobKey(id: string): string {
+    return `${this.JOB_PREFIX}${id}`;
+  }
+}
@@ -0,0 +1,139 @@
+import { Logger } from 'probot';
+import { Job, JobQueue } from './jobQueue';
+import { runWithCorrelationId } from '../utils/correlation';
+
+export interface JobWorkerConfig<T> {
+  queue: JobQueue<T>;
+  logger: Logger;
+  handle: (job: Job<T>) => Promise<void>;
+  // Jobs processed in parallel by this worker
+  concurrency: number;
+  // Idle wait between polls when the queue is empty
+  pollIntervalMs: number;
+}
+
+/**
+ * Pulls jobs from the queue and runs them, reporting success or failure back to the queue
+ */
+export class JobWorker<T> {
+  private queue: JobQueue<T>;
+  private logger: Logger;
+  private handle: (job: Job<T>) => Promise<void>;
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private running = false;
+  private loops: Promise<void>[] = [];
+
+  constructor(config: JobWorkerConfig<T>) {
+    this.queue = config.queue;
+    this.logger = config.logger;
+    this.handle = config.handle;
+    this.concurrency = config.concurrency;
+    this.pollIntervalMs = config.pollIntervalMs;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    for (let i = 0; i < this.concurrency; i++) {
+      this.loops.push(this.loop());
+    }
+    this.logger.info({ concurrency: this.concurrency }, 'Job worker started');
+  }
+
+  /**
+   * Stop claiming new jobs and wait for the ones in progress
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    await Promise.all(this.loops);
+    this.loops = [];
+    this.logger.info('Job worker stopped');
+  }
+
+  /**
+   * Claim and run a single job (returns false if none was due)
+   */
+  async runOnce(): Promise<boolean> {
+    const job = await this.queue.claim();
+    if (!job) {
+      return false;
+    }
+
+    // Continue the trace of the webhook delivery that queued the job
+    return runWithCorrelationId(job.correlationId, async () => {
+      this.logger.info({ jobId: job.id, attempt: job.attempts }, 'Processing job');
+
+      // Long runs (chunked summaries with retries and fallbacks) would otherwise outlive the lease and be
+      // claimed by a second worker
+      let leaseLost = false;
+      const heartbeat = setInterval(() => {
+        void this.renewLease(job).then((renewed) => {
+          leaseLost ||= !renewed;
+        });
+      }, this.queue.leaseRenewalMs);
+
+      let error: unknown;
+      let failed = false;
+      try {
+        await this.handle(job);
+      } catch (handleError) {
+        this.logger.error({ error: handleError, jobId: job.id }, 'Job failed');
+        error = handleError;
+        failed = true;
+      } finally {
+        clearInterval(heartbeat);
+      }
+
+      // The job may already be running on another worker, whose outcome is the one to record
+      if (leaseLost) {
+        this.logger.warn({ jobId: job.id }, 'Job lease lost - dropping its result');
+      } else if (failed) {
+        await this.queue.fail(job, error);
+      } else {
+        await this.queue.complete(job);
+      }
+
+      return true;
+    });
+  }
+
+  private async loop(): Promise<void> {
+    while (this.running) {
+      let processed = false;
+
+      try {
+        processed = await this.runOnce();
+      } catch (error) {
+        // Queue unavailable - back off and keep polling
+        this.logger.error({ error }, 'Failed to poll job queue');
+      }
+
+      if (!processed) {
+        await this.sleep(this.pollIntervalMs);
+      }
+    }
+  }
+
+  /**
+   * Returns false once the lease is lost; a failed renewal (e.g. Redis briefly unreachable) keeps the job
+   */
+  private async renewLease(job: Job<T>): Promise<boolean> {
+    try {
+      if (!(await this.queue.extendLease(job))) {
+        this.logger.warn({ jobId: job.id }, 'Job lease lost - another worker may be running it');
+        return false;
+      }
+    } catch (error) {
+      this.logger.error({ error, jobId: job.id }, 'Failed to renew job lease');
+    }
+    return true;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
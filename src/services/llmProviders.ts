@@ -0,0 +1,199 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import { LLMProvider, LLMProviderSettings } from '../types';
+import { FakeChatModel } from './fakeLlm';
+import { estimateTokens } from '../utils/tokens';
+import { correlatedFetch } from '../utils/correlation';
+
+/**
+ * Raw completion returned by a chat model
+ */
+export interface ChatCompletion {
+  content: string;
+  tokensUsed: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Minimal chat model interface the summarizer depends on
+ */
+export interface ChatModel {
+  readonly model: string;
+  invoke(prompt: string): Promise<ChatCompletion>;
+}
+
+export type ChatModelFactory = (settings: LLMProviderSettings) => ChatModel;
+
+const DEFAULT_TEMPERATURE = 0.3;
+
+interface LangChainClient {
+  invoke(
+    prompt: string
+  ): Promise<{ content: { toString(): string }; response_metadata?: unknown; usage_metadata?: unknown }>;
+}
+
+/**
+ * Usage as reported by the LangChain integrations: `usage_metadata` on newer versions,
+ * `tokenUsage` (OpenAI) or `usage` (Anthropic) in the response metadata on older ones
+ */
+interface LangChainUsage {
+  usage_metadata?: { input_tokens?: number; output_tokens?: number };
+  response_metadata?: {
+    tokenUsage?: { promptTokens?: number; completionTokens?: number };
+    usage?: { input_tokens?: number; output_tokens?: number };
+  };
+}
+
+/**
+ * Adapts a LangChain chat model to the ChatModel interface
+ */
+class LangChainChatModel implements ChatModel {
+  readonly model: string;
+  private client: LangChainClient;
+
+  constructor(model: string, client: LangChainClient) {
+    this.model = model;
+    this.client = client;
+  }
+
+  async invoke(prompt: string): Promise<ChatCompletion> {
+    const response = await this.client.invoke(prompt);
+    const content = response.content.toString();
+    const { usage_metadata: usage, response_metadata: metadata } = response as LangChainUsage;
+
+    // Estimate when the integration reports nothing, so usage and cost are never silently 0
+    const inputTokens =
+      usage?.input_tokens ??
+      metadata?.tokenUsage?.promptTokens ??
+      metadata?.usage?.input_tokens ??
+      estimateTokens(prompt);
+    const outputTokens =
+      usage?.output_tokens ??
+      metadata?.tokenUsage?.completionTokens ??
+      metadata?.usage?.output_tokens ??
+      estimateTokens(content);
+
+    return { content, tokensUsed: inputTokens + outputTokens, inputTokens, outputTokens };
+  }
+}
+
+/**
+ * Registry of LLM providers, selected by name from config
+ * Register additional providers before the first summarizer is created.
+ */
+export class ProviderRegistry {
+  private factories = new Map<LLMProvider, ChatModelFactory>();
+
+  register(name: LLMProvider, factory: ChatModelFactory): this {
+    this.factories.set(name, factory);
+    return this;
+  }
+
+  has(name: LLMProvider): boolean {
+    return this.factories.has(name);
+  }
+
+  names(): LLMProvider[] {
+    return [...this.factories.keys()];
+  }
+
+  /**
+   * Create a chat model for the configured provider
+   */
+  create(settings: LLMProviderSettings): ChatModel {
+    const factory = this.factories.get(settings.provider);
+    if (!factory) {
+      throw new Error(
+        `Unknown LLM provider '${settings.provider}' (registered: ${this.names().join(', ')})`
+      );
+    }
+
+    return factory(settings);
+  }
+}
+
+const createOpenAI: ChatModelFactory = (settings) => {
+  const model = settings.model || 'gpt-4o';
+
+  return new LangChainChatModel(
+    model,
+    new ChatOpenAI({
+      openAIApiKey: settings.apiKey,
+      modelName: model,
+      temperature: DEFAULT_TEMPERATURE,
+      configuration: { baseURL: settings.baseUrl, defaultHeaders: settings.headers, fetch: correlatedFetch },
+    })
+  );
+};
+
+const createAnthropic: ChatModelFactory = (settings) => {
+  const model = settings.model || 'claude-3-5-sonnet-20241022';
+
+  return new LangChainChatModel(
+    model,
+    new ChatAnthropic({
+      anthropicApiKey: settings.apiKey,
+      modelName: model,
+      temperature: DEFAULT_TEMPERATURE,
+      clientOptions: { baseURL: settings.baseUrl, defaultHeaders: settings.headers, fetch: correlatedFetch },
+    })
+  );
+};
+
+/**
+ * Azure OpenAI: `model` is the deployment name, `baseUrl` the deployments base path
+ * e.g. https://my-resource.openai.azure.com/openai/deployments
+ */
+const createAzureOpenAI: ChatModelFactory = (settings) => {
+  if (!settings.baseUrl || !settings.model) {
+    throw new Error('azure-openai requires a base URL and a deployment name as the model');
+  }
+
+  return new LangChainChatModel(
+    settings.model,
+    new ChatOpenAI({
+      azureOpenAIApiKey: settings.apiKey,
+      azureOpenAIBasePath: settings.baseUrl,
+      azureOpenAIApiDeploymentName: settings.model,
+      azureOpenAIApiVersion: settings.apiVersion || '2024-02-01',
+      temperature: DEFAULT_TEMPERATURE,
+      configuration: { defaultHeaders: settings.headers, fetch: correlatedFetch },
+    })
+  );
+};
+
+/**
+ * Any server implementing the OpenAI chat completions API (Ollama, vLLM, LiteLLM, ...)
+ * Local servers usually ignore the API key, but the client requires one to be set.
+ */
+const createOpenAICompatible: ChatModelFactory = (settings) => {
+  if (!settings.baseUrl || !settings.model) {
+    throw new Error('openai-compatible requires a base URL and a model name');
+  }
+
+  return new LangChainChatModel(
+    settings.model,
+    new ChatOpenAI({
+      openAIApiKey: settings.apiKey || 'not-needed',
+      modelName: settings.model,
+      temperature: DEFAULT_TEMPERATURE,
+      configuration: { baseURL: settings.baseUrl, defaultHeaders: settings.headers, fetch: correlatedFetch },
+    })
+  );
+};
+
+/**
+ * Offline deterministic provider for tests and local development - never calls the network
+ */
+const createFake: ChatModelFactory = (settings) => new FakeChatModel(settings.model || 'fake-llm', settings.fake);
+
+/**
+ * Default registry with the built-in providers
+ */
+export const providerRegistry = new ProviderRegistry()
+  .register('openai', createOpenAI)
+  .register('anthropic', createAnthropic)
+  .register('azure-openai', createAzureOpenAI)
+  .register('openai-compatible', createOpenAICompatible)
+  .register('fake', createFake);
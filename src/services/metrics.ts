@@ -0,0 +1,203 @@
+/**
+ * Process-wide metrics in the Prometheus text exposition format (version 0.0.4)
+ * Each process (webhook server, worker) keeps its own values; Prometheus sums them across targets.
+ */
+
+export type Labels = Record<string, string>;
+
+// Seconds; covers fast cached calls through slow map-reduce prompts
+export const DEFAULT_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120];
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+  reset(): void;
+}
+
+/**
+ * Monotonically increasing count, one series per label combination
+ */
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    private help: string
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = serializeLabels(labels);
+    const series = this.values.get(key) || { labels, value: 0 };
+    series.value += value;
+    this.values.set(key, series);
+  }
+
+  /**
+   * Current value of one series (0 if never incremented)
+   */
+  get(labels: Labels = {}): number {
+    return this.values.get(serializeLabels(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${serializeLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  // Per-bucket (non-cumulative) counts; the last slot is +Inf
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values in fixed buckets, one series per label combination
+ */
+export class Histogram implements Metric {
+  private values = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    private help: string,
+    private bucketBounds: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = serializeLabels(labels);
+    const series = this.values.get(key) || {
+      labels,
+      buckets: new Array<number>(this.bucketBounds.length + 1).fill(0),
+      sum: 0,
+      count: 0,
+    };
+
+    const index = this.bucketBounds.findIndex((bound) => value <= bound);
+    series.buckets[index === -1 ? this.bucketBounds.length : index]++;
+    series.sum += value;
+    series.count++;
+    this.values.set(key, series);
+  }
+
+  /**
+   * Observation count of one series (0 if never observed)
+   */
+  getCount(labels: Labels = {}): number {
+    return this.values.get(serializeLabels(labels))?.count ?? 0;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      let cumulative = 0;
+      [...this.bucketBounds.map(String), '+Inf'].forEach((le, i) => {
+        cumulative += buckets[i];
+        lines.push(`${this.name}_bucket${serializeLabels({ ...labels, le })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_sum${serializeLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${serializeLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Named collection of metrics rendered together for a scrape
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.add(new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.add(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * All metrics in the Prometheus text format
+   */
+  render(): string {
+    return `${[...this.metrics.values()].flatMap((metric) => metric.render()).join('\n')}\n`;
+  }
+
+  /**
+   * Zero every metric (tests)
+   */
+  reset(): void {
+    this.metrics.forEach((metric) => metric.reset());
+  }
+
+  private add<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric '${metric.name}' is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function serializeLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Default registry served at /metrics
+ */
+export const metrics = new MetricsRegistry();
+
+export const webhookEventsReceived = metrics.counter(
+  'pr_summarizer_webhook_events_received_total',
+  'Webhook events received, by event name and action'
+);
+
+export const summariesGenerated = metrics.counter(
+  'pr_summarizer_summaries_generated_total',
+  'Summaries generated by an LLM, by model'
+);
+
+export const summaryCacheLookups = metrics.counter(
+  'pr_summarizer_summary_cache_lookups_total',
+  'Summary cache lookups, by result (hit or miss)'
+);
+
+export const summariesSkipped = metrics.counter(
+  'pr_summarizer_summaries_skipped_total',
+  'Summary runs that ended without calling the LLM, by reason'
+);
+
+export const llmRequestDuration = metrics.histogram(
+  'pr_summarizer_llm_request_duration_seconds',
+  'LLM request latency, by provider, model and outcome'
+);
+
+export const llmTokensUsed = metrics.counter(
+  'pr_summarizer_llm_tokens_total',
+  'LLM tokens used, by model and direction (input or output)'
+);
+
+export const githubApiRetries = metrics.counter(
+  'pr_summarizer_github_api_retries_total',
+  'GitHub API requests retried after a transient error'
+);
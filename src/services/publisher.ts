@@ -0,0 +1,259 @@
+import { Logger } from 'probot';
+import { GitHubService, PRDetails, CheckAnnotation, CheckRunOutput } from './github';
+import { BudgetStatus, ConfigIssue, OutputMode, PRFileDiff, PRSummary, ScopedRateLimitStatus } from '../types';
+import {
+  formatSummaryAsMarkdown,
+  formatNeedsInputMessage,
+  formatInvalidConfigMessage,
+  formatRateLimitedMessage,
+  formatBudgetExceededMessage,
+  formatAnnotationLimitNote,
+  truncate,
+} from '../utils/formatter';
+import { withCommentMarker } from '../utils/commentMarker';
+import { upsertDescriptionSection } from '../utils/descriptionSection';
+
+export interface PublisherConfig {
+  github: GitHubService;
+  logger: Logger;
+  // True once a newer head SHA exists for the PR; checked right before every write
+  isSuperseded?: (pr: PRDetails) => Promise<boolean>;
+}
+
+/**
+ * Result of a pipeline run that should be shown on the PR
+ */
+export type SummaryOutcome =
+  | { status: 'summary'; summary: PRSummary; files?: PRFileDiff[] }
+  | { status: 'needs_input' }
+  | { status: 'invalid_config'; source: string; issues: ConfigIssue[] }
+  | { status: 'rate_limited'; limit: ScopedRateLimitStatus }
+  | { status: 'budget_exceeded'; budget: BudgetStatus };
+
+export const CHECK_RUN_NAME = 'PR Summary';
+
+// One Checks API request's worth, so a large PR does not need extra update calls or clutter the Files view
+const MAX_FILE_ANNOTATIONS = 50;
+
+// Outcomes that explain why no summary was produced; they never replace the last summary
+const SKIP_NOTICES: ReadonlySet<SummaryOutcome['status']> = new Set(['invalid_config', 'rate_limited', 'budget_exceeded']);
+
+export class SummaryPublisher {
+  private github: GitHubService;
+  private logger: Logger;
+  private isSuperseded?: (pr: PRDetails) => Promise<boolean>;
+
+  constructor(config: PublisherConfig) {
+    this.github = config.github;
+    this.logger = config.logger;
+    this.isSuperseded = config.isSuperseded;
+  }
+
+  /**
+   * Publish an outcome on the PR using the repository's output mode
+   * `[NEEDS_INPUT]` only gets a comment in pure comment mode; check modes report it as a neutral check.
+   * Skip notices leave the last summary in place: they are a check run in check modes, otherwise a separate
+   * notice comment that later skipped runs update.
+   */
+  async publish(owner: string, repo: string, pr: PRDetails, mode: OutputMode, outcome: SummaryOutcome): Promise<void> {
+    const useCheck = mode === 'check' || mode === 'both';
+    const useComment = mode === 'comment' || (mode === 'both' && outcome.status !== 'needs_input');
+
+    this.logger.info({ owner, repo, pullNumber: pr.number, mode, status: outcome.status }, 'Publishing PR outcome');
+
+    if (SKIP_NOTICES.has(outcome.status)) {
+      await this.publishNotice(owner, repo, pr, useCheck, outcome);
+      return;
+    }
+
+    if (mode === 'description') {
+      await this.updateDescription(owner, repo, pr, this.buildCommentBody(outcome));
+    }
+
+    if (useComment) {
+      await this.upsertComment(owner, repo, pr, this.buildCommentBody(outcome));
+    }
+
+    if (useCheck && !(await this.supersededBy(owner, repo, pr))) {
+      await this.github.createCheckRun(owner, repo, this.buildCheckRun(pr, outcome));
+    }
+  }
+
+  /**
+   * Report why a run produced no summary without touching the summary comment or description section
+   */
+  private async publishNotice(
+    owner: string,
+    repo: string,
+    pr: PRDetails,
+    useCheck: boolean,
+    outcome: SummaryOutcome
+  ): Promise<void> {
+    if (await this.supersededBy(owner, repo, pr)) {
+      return;
+    }
+
+    if (useCheck) {
+      await this.github.createCheckRun(owner, repo, this.buildCheckRun(pr, outcome));
+      return;
+    }
+
+    // One notice comment per PR, rewritten by every skipped run
+    const body = withCommentMarker(this.buildCommentBody(outcome), pr.headSha, 'notice');
+    const existing = await this.github.findMarkedComment(owner, repo, pr.number, 'notice');
+    if (existing) {
+      await this.github.updateComment(owner, repo, existing.id, body);
+    } else {
+      await this.github.postComment(owner, repo, pr.number, body);
+    }
+  }
+
+  /**
+   * Guard against an older run overwriting output for a newer head SHA
+   */
+  private async supersededBy(owner: string, repo: string, pr: PRDetails): Promise<boolean> {
+    if (!this.isSuperseded || !(await this.isSuperseded(pr))) {
+      return false;
+    }
+
+    this.logger.info({ owner, repo, pullNumber: pr.number, sha: pr.headSha }, 'Newer head SHA exists - not publishing');
+    return true;
+  }
+
+  /**
+   * Update the bot's marked summary comment on the PR, or post a new one
+   * The hidden marker records which head SHA the visible comment corresponds to
+   */
+  private async upsertComment(owner: string, repo: string, pr: PRDetails, body: string): Promise<void> {
+    const markedBody = withCommentMarker(body, pr.headSha);
+    const existing = await this.github.findSummaryComment(owner, repo, pr.number);
+
+    if (await this.supersededBy(owner, repo, pr)) {
+      return;
+    }
+
+    if (existing) {
+      await this.github.updateComment(owner, repo, existing.id, markedBody);
+    } else {
+      await this.github.postComment(owner, repo, pr.number, markedBody);
+    }
+  }
+
+  /**
+   * Write the outcome into the managed section of the PR description
+   * Re-reads the body first so edits made while the summary was generated are not overwritten
+   */
+  private async updateDescription(owner: string, repo: string, pr: PRDetails, content: string): Promise<void> {
+    const latest = await this.github.fetchPullRequest(owner, repo, pr.number);
+    const body = upsertDescriptionSection(latest.body, withCommentMarker(content, pr.headSha));
+
+    // The re-fetched PR says authoritatively whether this run is still for the head commit
+    if (latest.headSha !== pr.headSha || (await this.supersededBy(owner, repo, pr))) {
+      this.logger.info({ owner, repo, pullNumber: pr.number }, 'PR head moved on - not updating description');
+      return;
+    }
+
+    if (body === latest.body) {
+      this.logger.info({ owner, repo, pullNumber: pr.number }, 'PR description already up to date');
+      return;
+    }
+
+    await this.github.updatePullRequestBody(owner, repo, pr.number, body);
+  }
+
+  /**
+   * Render the comment body for an outcome
+   */
+  private buildCommentBody(outcome: SummaryOutcome): string {
+    switch (outcome.status) {
+      case 'summary':
+        return formatSummaryAsMarkdown(outcome.summary);
+      case 'needs_input':
+        return formatNeedsInputMessage();
+      case 'invalid_config':
+        return formatInvalidConfigMessage(outcome.source, outcome.issues);
+      case 'rate_limited':
+        return formatRateLimitedMessage(outcome.limit);
+      case 'budget_exceeded':
+        return formatBudgetExceededMessage(outcome.budget);
+    }
+  }
+
+  /**
+   * Render the check run for an outcome, tied to the PR head commit
+   */
+  private buildCheckRun(pr: PRDetails, outcome: SummaryOutcome): CheckRunOutput {
+    const base = { headSha: pr.headSha, name: CHECK_RUN_NAME };
+
+    switch (outcome.status) {
+      case 'summary': {
+        const annotations = this.buildFileAnnotations(outcome.files || [], outcome.summary);
+        const omitted = annotations.length - MAX_FILE_ANNOTATIONS;
+        const summary = formatSummaryAsMarkdown(outcome.summary);
+
+        return {
+          ...base,
+          conclusion: 'success',
+          title: truncate(outcome.summary.what, 200),
+          summary: omitted > 0 ? `${summary}\n\n${formatAnnotationLimitNote(omitted, MAX_FILE_ANNOTATIONS)}` : summary,
+          annotations: annotations.slice(0, MAX_FILE_ANNOTATIONS),
+        };
+      }
+      case 'needs_input':
+        return {
+          ...base,
+          conclusion: 'neutral',
+          title: 'Insufficient context to summarize',
+          summary: formatNeedsInputMessage(),
+        };
+      case 'invalid_config':
+        return {
+          ...base,
+          conclusion: 'neutral',
+          title: 'Invalid pr-summarizer configuration',
+          summary: formatInvalidConfigMessage(outcome.source, outcome.issues),
+        };
+      case 'rate_limited':
+        return {
+          ...base,
+          conclusion: 'neutral',
+          title: 'Skipped - rate limit reached',
+          summary: formatRateLimitedMessage(outcome.limit),
+        };
+      case 'budget_exceeded':
+        return {
+          ...base,
+          conclusion: 'neutral',
+          title: 'Skipped - monthly LLM budget reached',
+          summary: formatBudgetExceededMessage(outcome.budget),
+        };
+    }
+  }
+
+  /**
+   * A warning on each changed file the summary did not analyse; analysed files need no annotation
+   * Removed files are skipped - annotations must point at paths in the head commit
+   */
+  private buildFileAnnotations(files: PRFileDiff[], summary: PRSummary): CheckAnnotation[] {
+    const skipped = new Set(summary.coverage?.skippedFiles || []);
+    const filtered = new Map((summary.coverage?.filteredFiles || []).map((f) => [f.filename, f.reason]));
+
+    return files
+      .filter((file) => file.status !== 'removed' && (filtered.has(file.filename) || skipped.has(file.filename)))
+      .map((file) => {
+        const counts = file.additions !== undefined ? ` (+${file.additions} / -${file.deletions ?? 0})` : '';
+        const reason = filtered.get(file.filename);
+
+        return {
+          path: file.filename,
+          start_line: 1,
+          end_line: 1,
+          annotation_level: 'warning' as const,
+          title: 'Not analysed',
+          message: reason
+            ? `This file${counts} was filtered out of the AI summary (${reason}).`
+            : `This file${counts} was not included in the AI summary (no textual diff or over budget).`,
+        };
+      });
+  }
+}
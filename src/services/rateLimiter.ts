@@ -0,0 +1,190 @@
+import Redis from 'ioredis';
+import { Logger } from 'probot';
+import { AppConfig } from '../config';
+import { RateLimitDecision, RateLimitScope, ScopedRateLimitStatus } from '../types';
+
+// Sliding-window log over every scope at once: prune entries older than the window, then record the
+// request in all scopes only if none is exhausted, so rejected requests never consume quota.
+// Returns the 1-based index of the first exhausted scope (0 if allowed), then count and oldest per scope.
+const CHECK_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limited = 0
+local scopes = {}
+for i, key in ipairs(KEYS) do
+  redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+  local count = redis.call('ZCARD', key)
+  local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+  if limited == 0 and count >= tonumber(ARGV[3 + i]) then
+    limited = i
+  end
+  scopes[i * 2 - 1] = count
+  scopes[i * 2] = oldest[2] or tostring(now)
+end
+if limited == 0 then
+  for _, key in ipairs(KEYS) do
+    redis.call('ZADD', key, now, ARGV[3])
+    redis.call('PEXPIRE', key, window)
+  end
+end
+return {limited, unpack(scopes)}`;
+
+/**
+ * What a summarization request is counted against
+ */
+export interface RateLimitSubject {
+  installationId: number;
+  owner: string;
+  repo: string;
+  // PR author login
+  author: string;
+}
+
+export interface RateLimiterConfig {
+  redis: Redis;
+  logger: Logger;
+  windowSeconds: number;
+  // Requests allowed per window in each scope; 0 disables that scope
+  quotas: Record<RateLimitScope, number>;
+}
+
+/**
+ * Distributed sliding-window rate limiter with separate installation, repository and PR author quotas
+ * A request is allowed only if every scope has capacity; `reset` is when the oldest request in a scope
+ * leaves the window and frees a slot.
+ */
+export class RateLimiter {
+  private redis: Redis;
+  private logger: Logger;
+  private windowSeconds: number;
+  private quotas: Record<RateLimitScope, number>;
+
+  private readonly RATE_LIMIT_PREFIX = 'ratelimit:';
+
+  constructor(config: RateLimiterConfig) {
+    this.redis = config.redis;
+    this.logger = config.logger;
+    this.windowSeconds = config.windowSeconds;
+    this.quotas = config.quotas;
+  }
+
+  /**
+   * Count a request against every enabled scope, unless one of them is exhausted
+   * Allows the request if Redis is unavailable
+   */
+  async check(subject: RateLimitSubject): Promise<RateLimitDecision> {
+    const scopes = this.getEnabledScopes();
+    const now = Date.now();
+    const windowMs = this.windowSeconds * 1000;
+
+    if (scopes.length === 0) {
+      return { isLimited: false, scopes: [] };
+    }
+
+    try {
+      const result = (await this.redis.eval(
+        CHECK_SCRIPT,
+        scopes.length,
+        ...scopes.map((scope) => this.getKey(scope, this.getSubjectId(scope, subject))),
+        now,
+        windowMs,
+        `${now}:${Math.random().toString(36).substring(2)}`,
+        ...scopes.map((scope) => this.quotas[scope])
+      )) as (number | string)[];
+
+      const limitedIndex = Number(result[0]);
+      const statuses: ScopedRateLimitStatus[] = scopes.map((scope, i) => {
+        const limit = this.quotas[scope];
+        const used = Number(result[1 + i * 2]) + (limitedIndex === 0 ? 1 : 0);
+        const oldest = Number(result[2 + i * 2]);
+
+        return {
+          scope,
+          limit,
+          remaining: Math.max(0, limit - used),
+          reset: oldest + windowMs,
+          isLimited: limitedIndex === i + 1,
+        };
+      });
+
+      const decision: RateLimitDecision = {
+        isLimited: limitedIndex > 0,
+        limitedBy: limitedIndex > 0 ? statuses[limitedIndex - 1] : undefined,
+        scopes: statuses,
+      };
+
+      this.logger.info(
+        { ...subject, isLimited: decision.isLimited, limitedBy: decision.limitedBy?.scope },
+        'Rate limit check'
+      );
+
+      return decision;
+    } catch (error) {
+      this.logger.error({ error, ...subject }, 'Failed to check rate limit');
+
+      // Fail open - allow request if Redis unavailable
+      return {
+        isLimited: false,
+        scopes: scopes.map((scope) => ({
+          scope,
+          limit: this.quotas[scope],
+          remaining: this.quotas[scope],
+          reset: now + windowMs,
+          isLimited: false,
+        })),
+      };
+    }
+  }
+
+  /**
+   * Clear the recorded requests of one scope (admin override)
+   * `id` is the installation id, `owner/repo`, or the author login
+   */
+  async reset(scope: RateLimitScope, id: string): Promise<void> {
+    try {
+      await this.redis.del(this.getKey(scope, id));
+      this.logger.info({ scope, id }, 'Rate limit reset');
+    } catch (error) {
+      this.logger.error({ error, scope, id }, 'Failed to reset rate limit');
+      throw error;
+    }
+  }
+
+  private getEnabledScopes(): RateLimitScope[] {
+    return (['installation', 'repo', 'author'] as const).filter((scope) => this.quotas[scope] > 0);
+  }
+
+  private getSubjectId(scope: RateLimitScope, subject: RateLimitSubject): string {
+    switch (scope) {
+      case 'installation':
+        return String(subject.installationId);
+      case 'repo':
+        return `${subject.owner}/${subject.repo}`;
+      case 'author':
+        return subject.author;
+    }
+  }
+
+  /**
+   * Generate rate limit key
+   */
+  private getKey(scope: RateLimitScope, id: string): string {
+    return `${this.RATE_LIMIT_PREFIX}${scope}:${id}`;
+  }
+}
+
+/**
+ * Rate limiter using the configured window and quotas
+ */
+export function createRateLimiter(config: AppConfig, redis: Redis, logger: Logger): RateLimiter {
+  return new RateLimiter({
+    redis,
+    logger,
+    windowSeconds: config.rateLimiting.windowSeconds,
+    quotas: {
+      installation: config.rateLimiting.installationMaxRequests,
+      repo: config.rateLimiting.maxRequests,
+      author: config.rateLimiting.authorMaxRequests,
+    },
+  });
+}
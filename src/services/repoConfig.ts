@@ -0,0 +1,157 @@
+import Joi from 'joi';
+import { parse as parseYaml } from 'yaml';
+import { Logger } from 'probot';
+import { AppConfig } from '../config';
+import { BotConfig, ConfigIssue } from '../types';
+import { GitHubService } from './github';
+import { CacheService } from './cache';
+
+export interface RepoConfigServiceConfig {
+  github: GitHubService;
+  cache: CacheService;
+  logger: Logger;
+  defaults: BotConfig;
+}
+
+/**
+ * Raised when a config file exists but does not match the schema
+ */
+export class InvalidRepoConfigError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: ConfigIssue[]
+  ) {
+    super(`Invalid configuration in ${source}: ${issues.map((i) => `${i.key}: ${i.message}`).join('; ')}`);
+    this.name = 'InvalidRepoConfigError';
+  }
+}
+
+export const REPO_CONFIG_PATH = '.github/pr-summarizer.yml';
+
+// Org-wide defaults live in the conventional `<owner>/.github` repository
+const ORG_CONFIG_REPO = '.github';
+
+const botConfigSchema = Joi.object<Partial<BotConfig>>({
+  enabled: Joi.boolean(),
+  autoSummarizeOn: Joi.array()
+    .items(Joi.string().valid('opened', 'synchronize', 'reopened'))
+    .unique(),
+  ignoreLabels: Joi.array().items(Joi.string().min(1)),
+  maxDiffSize: Joi.number().integer().positive(),
+  output: Joi.string().valid('comment', 'check', 'both', 'description'),
+  incremental: Joi.boolean(),
+  includeFiles: Joi.array().items(Joi.string().min(1)),
+  excludeFiles: Joi.array().items(Joi.string().min(1)),
+}).unknown(false);
+
+/**
+ * Build app-level bot defaults from environment config
+ */
+export function getDefaultBotConfig(config: AppConfig): BotConfig {
+  return {
+    enabled: true,
+    autoSummarizeOn: ['opened', 'synchronize', 'reopened'],
+    ignoreLabels: [],
+    maxDiffSize: config.processing.maxDiffSizeLines,
+    output: 'comment',
+    incremental: config.processing.incrementalSummaries,
+    includeFiles: [],
+    excludeFiles: [],
+  };
+}
+
+/**
+ * Parse and schema-validate a raw `.github/pr-summarizer.yml` document
+ * Throws InvalidRepoConfigError naming every offending key
+ */
+export function parseBotConfig(raw: string, source: string): Partial<BotConfig> {
+  let parsed: unknown;
+
+  try {
+    parsed = parseYaml(raw);
+  } catch (error) {
+    throw new InvalidRepoConfigError(source, [
+      { key: '(file)', message: `invalid YAML - ${(error as Error).message}` },
+    ]);
+  }
+
+  // An empty file means "use defaults"
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+
+  const result = validateBotConfig(parsed);
+  if (result.error) {
+    throw new InvalidRepoConfigError(source, toConfigIssues(result.error));
+  }
+
+  return result.value;
+}
+
+/**
+ * Schema issues in a bot config object, e.g. the app-level defaults built from environment config
+ */
+export function findBotConfigIssues(config: unknown): ConfigIssue[] {
+  const { error } = validateBotConfig(config);
+  return error ? toConfigIssues(error) : [];
+}
+
+function validateBotConfig(config: unknown): Joi.ValidationResult<Partial<BotConfig>> {
+  return botConfigSchema.validate(config, { abortEarly: false, convert: false });
+}
+
+function toConfigIssues(error: Joi.ValidationError): ConfigIssue[] {
+  return error.details.map((detail) => ({
+    key: detail.path.length > 0 ? detail.path.join('.') : '(file)',
+    message: detail.message,
+  }));
+}
+
+export class RepoConfigService {
+  private github: GitHubService;
+  private cache: CacheService;
+  private logger: Logger;
+  private defaults: BotConfig;
+
+  constructor(config: RepoConfigServiceConfig) {
+    this.github = config.github;
+    this.cache = config.cache;
+    this.logger = config.logger;
+    this.defaults = config.defaults;
+  }
+
+  /**
+   * Resolve bot config for a repository at a ref
+   * Precedence: repo file > org `.github` repo file > app defaults
+   */
+  async load(owner: string, repo: string, ref: string): Promise<BotConfig> {
+    const cached = await this.cache.getRepoConfig(owner, repo, ref);
+    if (cached) {
+      this.logger.info({ owner, repo, ref }, 'Using cached repository config');
+      return cached;
+    }
+
+    const orgConfig = repo === ORG_CONFIG_REPO ? {} : await this.loadLayer(owner, ORG_CONFIG_REPO);
+    const repoConfig = await this.loadLayer(owner, repo, ref);
+
+    const resolved: BotConfig = { ...this.defaults, ...orgConfig, ...repoConfig };
+
+    this.logger.info({ owner, repo, ref, config: resolved }, 'Resolved repository config');
+    await this.cache.cacheRepoConfig(owner, repo, ref, resolved);
+
+    return resolved;
+  }
+
+  /**
+   * Fetch and validate one config layer (missing file = empty layer)
+   */
+  private async loadLayer(owner: string, repo: string, ref?: string): Promise<Partial<BotConfig>> {
+    const raw = await this.github.fetchFileContent(owner, repo, REPO_CONFIG_PATH, ref);
+
+    if (raw === null) {
+      return {};
+    }
+
+    return parseBotConfig(raw, `${owner}/${repo}/${REPO_CONFIG_PATH}`);
+  }
+}
@@ -1,51 +1,102 @@
-import { ChatOpenAI } from '@langchain/openai';
-import { ChatAnthropic } from '@langchain/anthropic';
+import { createHash } from 'crypto';
 import { Logger } from 'probot';
-import { PRSummary, PRContext, LLMProvider, LLMResponse } from '../types';
+import { AppConfig } from '../config';
+import {
+  PRSummary,
+  PRContext,
+  LLMProviderSettings,
+  LLMResponse,
+  FileExplanation,
+  SummaryCoverage,
+  TokenUsage,
+} from '../types';
+import { ChatCompletion, ChatModel, ProviderRegistry, providerRegistry } from './llmProviders';
+import { CircuitBreaker, InMemoryBreakerStore } from './circuitBreaker';
+import { llmRequestDuration, llmTokensUsed } from './metrics';
+import { chunkDiff, DiffChunk, hasFullDiff } from '../utils/diffChunker';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+// Response schema shared by the single-pass, map and reduce prompts
+const SUMMARY_RESPONSE_FORMAT = `Provide a JSON response with this exact structure:
+{
+  "what": "Brief description of WHAT changed (1-2 sentences, technical)",
+  "why": "Explanation of WHY this change was made (business/technical rationale)",
+  "impact": "Description of the IMPACT (what systems/features are affected, any breaking changes)",
+  "notes": "Optional additional notes (testing considerations, deployment notes, etc.)"
+}
+
+Requirements:
+- Be concise and technical
+- Focus on facts from the code, commits, and description
+- If information is unclear, state "Not specified in PR" rather than guessing
+- Identify breaking changes or deployment requirements in impact
+- Keep each field under 200 words`;
+
+// How files are introduced in the diffs of the single-pass and map prompts (see formatFileHeader)
+const DIFF_FORMAT = `Each file in the diff starts with a "--- path" line. Its status follows in parentheses \
+unless it was simply modified: added, removed, renamed or copied from another path, or binary. Files whose diff \
+is too large to include show their added and removed line counts instead - treat these as significant changes.`;
 
-export interface SummarizerConfig {
-  provider: LLMProvider;
-  apiKey: string;
-  model?: string;
+// Part of every summary cache key: bump when the prompts or response format change so cached
+// summaries produced by the old prompts are no longer reused
+export const PROMPT_VERSION = 2;
+
+export interface SummarizerConfig extends LLMProviderSettings {
   logger: Logger;
+  // Tried in order when the primary provider fails or its circuit breaker is open
+  fallbacks?: LLMProviderSettings[];
+  // Defaults to the built-in provider registry
+  registry?: ProviderRegistry;
+  // Defaults to a process-local breaker; pass a Redis-backed one to share state between instances
+  breaker?: CircuitBreaker;
+}
+
+/**
+ * A provider in the fallback chain; `breakerKey` identifies its circuit breaker (provider+model)
+ */
+interface ProviderSlot {
+  provider: string;
+  llm: ChatModel;
+  breakerKey: string;
+}
+
+interface LLMResult<T> {
+  result: T;
+  tokensUsed: number;
+  inputTokens: number;
+  outputTokens: number;
+  model: string;
+  // Produced by a fallback rather than the primary provider
+  fallback: boolean;
 }
 
 export class SummarizerService {
-  private llm: ChatOpenAI | ChatAnthropic;
+  private providers: ProviderSlot[];
   private logger: Logger;
   private readonly MAX_RETRIES = 2;
   private readonly INITIAL_RETRY_DELAY = 2000;
-  private circuitBreakerFailures = 0;
-  private readonly CIRCUIT_BREAKER_THRESHOLD = 5;
-  private circuitBreakerResetTime = 0;
+  private breaker: CircuitBreaker;
+  private readonly MAX_PROMPT_DIFF_CHARS = 8000;
+  private readonly MAX_CHUNKS = 12;
+  private readonly MAP_CONCURRENCY = 3;
 
   constructor(config: SummarizerConfig) {
-    this.logger = config.logger;
-
-    if (config.provider === 'openai') {
-      this.llm = new ChatOpenAI({
-        openAIApiKey: config.apiKey,
-        modelName: config.model || 'gpt-4o',
-        temperature: 0.3,
-      });
-    } else {
-      this.llm = new ChatAnthropic({
-        anthropicApiKey: config.apiKey,
-        modelName: config.model || 'claude-3-5-sonnet-20241022',
-        temperature: 0.3,
-      });
-    }
+    const { logger, fallbacks = [], registry = providerRegistry, breaker, ...settings } = config;
+
+    this.logger = logger;
+    this.providers = [settings, ...fallbacks].map((s) => {
+      const llm = registry.create(s);
+      return { provider: s.provider, llm, breakerKey: `${s.provider}:${llm.model}` };
+    });
+    this.breaker =
+      breaker ||
+      new CircuitBreaker({ store: new InMemoryBreakerStore(), logger, failureThreshold: 5, cooldownSeconds: 60 });
   }
 
   /**
    * Generate PR summary from context
    */
   async summarize(context: PRContext): Promise<LLMResponse> {
-    // Check circuit breaker
-    if (this.isCircuitOpen()) {
-      throw new Error('Circuit breaker is open - too many recent LLM failures');
-    }
-
     // Check for insufficient context
     if (this.hasInsufficientContext(context)) {
       return {
@@ -57,51 +108,240 @@ export class SummarizerService {
         },
         tokensUsed: 0,
         model: 'none',
+        usage: [],
       };
     }
 
+    // Diffs that don't fit one prompt are summarized per chunk, then merged
+    if (context.files && context.diff.length > this.MAX_PROMPT_DIFF_CHARS) {
+      return this.summarizeChunked(context, context.files);
+    }
+
     const prompt = this.buildPrompt(context);
+    const logContext = { owner: context.owner, repo: context.repo, pullNumber: context.pullNumber };
 
-    return this.withRetry(async () => {
-      try {
-        this.logger.info({ owner: context.owner, repo: context.repo, pullNumber: context.pullNumber }, 'Generating PR summary');
+    this.logger.info(logContext, 'Generating PR summary');
+    const call = await this.invokeLLM(prompt, (content) => this.parseResponse(content));
+    const { result: summary, tokensUsed, model, fallback } = call;
+    this.logger.info({ ...logContext, model, fallback }, 'PR summary generated successfully');
 
-        const response = await this.llm.invoke(prompt);
-        const content = response.content.toString();
+    if (fallback) {
+      summary.fallback = { model, primaryModel: this.primaryModel };
+    }
 
-        // Parse JSON response
-        const summary = this.parseResponse(content);
+    if (context.files) {
+      const skippedFiles = context.files.filter((f) => !hasFullDiff(f)).map((f) => f.filename);
+      summary.coverage = this.buildCoverage(context, context.files.length - skippedFiles.length, skippedFiles);
+    }
 
-        this.logger.info(
-          { owner: context.owner, repo: context.repo, pullNumber: context.pullNumber },
-          'PR summary generated successfully'
-        );
+    return {
+      summary,
+      tokensUsed,
+      model,
+      usage: this.collectUsage([call]),
+    };
+  }
 
-        // Reset circuit breaker on success
-        this.circuitBreakerFailures = 0;
+  /**
+   * Map-reduce summarization: summarize diff chunks independently, then merge
+   */
+  private async summarizeChunked(context: PRContext, files: NonNullable<PRContext['files']>): Promise<LLMResponse> {
+    const { chunks, coveredFiles, skippedFiles } = chunkDiff(files, this.MAX_PROMPT_DIFF_CHARS, this.MAX_CHUNKS);
+    const logContext = { owner: context.owner, repo: context.repo, pullNumber: context.pullNumber };
 
-        // Extract token usage safely
-        const metadata = response.response_metadata as { estimatedTokenUsage?: { total?: number } } | undefined;
-        const tokensUsed = metadata?.estimatedTokenUsage?.total || 0;
+    this.logger.info(
+      { ...logContext, chunks: chunks.length, skipped: skippedFiles.length },
+      'Generating chunked PR summary'
+    );
 
-        return {
-          summary,
-          tokensUsed,
-          model: this.llm instanceof ChatOpenAI ? 'gpt-4o' : 'claude-3-5-sonnet',
-        };
-      } catch (error) {
-        this.circuitBreakerFailures++;
-        this.logger.error({ error, failures: this.circuitBreakerFailures }, 'LLM summary generation failed');
+    const partials = await mapWithConcurrency(chunks, this.MAP_CONCURRENCY, (chunk, index) =>
+      this.invokeLLM(this.buildChunkPrompt(context, chunk, index, chunks.length), (content) =>
+        this.parseResponse(content)
+      )
+    );
 
-        // Open circuit breaker if threshold exceeded
-        if (this.circuitBreakerFailures >= this.CIRCUIT_BREAKER_THRESHOLD) {
-          this.circuitBreakerResetTime = Date.now() + 60000; // 1 minute
-          this.logger.warn('Circuit breaker opened - too many LLM failures');
-        }
+    const reducePrompt = this.buildReducePrompt(context, partials.map((p) => p.result));
+    const reduced = await this.invokeLLM(reducePrompt, (content) => this.parseResponse(content));
+
+    const coverage = this.buildCoverage(context, coveredFiles.length, skippedFiles);
+
+    // Chunks may have been served by different providers if one failed part-way through
+    const calls = [...partials, reduced];
+    const model = [...new Set(calls.map((c) => c.model))].join(', ');
+    const summary: PRSummary = { ...reduced.result, coverage };
+
+    if (calls.some((c) => c.fallback)) {
+      summary.fallback = { model, primaryModel: this.primaryModel };
+    }
+
+    this.logger.info({ ...logContext, coverage, model }, 'Chunked PR summary generated successfully');
+
+    return {
+      summary,
+      tokensUsed: calls.reduce((sum, c) => sum + c.tokensUsed, 0),
+      model,
+      usage: this.collectUsage(calls),
+    };
+  }
+
+  /**
+   * Which changed files the summary covers; files removed by the file filter count as not analysed
+   */
+  private buildCoverage(context: PRContext, filesCovered: number, skippedFiles: string[]): SummaryCoverage {
+    const filteredFiles = context.filteredFiles || [];
+
+    // Files GitHub did not list count as changed but not covered
+    const listed = (context.files?.length ?? 0) + filteredFiles.length;
+
+    return {
+      filesTotal: Math.max(listed, context.partial?.totalFiles ?? 0),
+      filesCovered,
+      skippedFiles,
+      ...(filteredFiles.length > 0 ? { filteredFiles } : {}),
+      ...(context.partial ? { partial: context.partial } : {}),
+    };
+  }
+
+  /**
+   * Explain the changes made to a single file (for the `explain <file>` command)
+   */
+  async explainFile(context: PRContext, filename: string, patch: string): Promise<FileExplanation> {
+    const prompt = this.buildExplainPrompt(context, filename, patch);
+
+    this.logger.info(
+      { owner: context.owner, repo: context.repo, pullNumber: context.pullNumber, filename },
+      'Explaining file'
+    );
+    const call = await this.invokeLLM(prompt, (content) => content.trim());
+
+    return {
+      filename,
+      explanation: call.result,
+      tokensUsed: call.tokensUsed,
+      model: call.model,
+      usage: this.collectUsage([call]),
+    };
+  }
+
+  /**
+   * Sum token usage per model across LLM calls
+   */
+  private collectUsage(calls: LLMResult<unknown>[]): TokenUsage[] {
+    const byModel = new Map<string, TokenUsage>();
+
+    for (const call of calls) {
+      const usage = byModel.get(call.model) || { model: call.model, inputTokens: 0, outputTokens: 0 };
+      usage.inputTokens += call.inputTokens;
+      usage.outputTokens += call.outputTokens;
+      byModel.set(call.model, usage);
+    }
+
+    return [...byModel.values()];
+  }
+
+  /**
+   * Summary cache key: a hash of the normalized diff, description, commit messages, filtered files, partial
+   * data, the model and the prompt version. A rebase or force push that leaves the content unchanged keeps the
+   * same key.
+   */
+  getCacheKey(context: PRContext): string {
+    const hash = createHash('sha256');
+    const parts = [
+      `v${PROMPT_VERSION}`,
+      this.primaryModel,
+      normalizeDiff(context.diff),
+      (context.description || '').trim(),
+      ...context.commits.map((c) => c.message.trim()),
+      // Filtered files appear in the cached summary's coverage
+      ...(context.filteredFiles || []).map((f) => `${f.filename}:${f.reason}`),
+      JSON.stringify(context.partial ?? null),
+    ];
+
+    for (const part of parts) {
+      hash.update(part).update('\0');
+    }
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * Circuit breaker keys (provider+model) of the provider chain, primary first
+   */
+  get breakerKeys(): string[] {
+    return this.providers.map((provider) => provider.breakerKey);
+  }
 
-        throw error;
+  private get primaryModel(): string {
+    return this.providers[0].llm.model;
+  }
+
+  /**
+   * Invoke the provider chain: each provider gets its own retries, and a provider whose
+   * retries are exhausted or whose circuit breaker is open falls through to the next
+   */
+  private async invokeLLM<T>(prompt: string, parse: (content: string) => T): Promise<LLMResult<T>> {
+    let lastError: unknown = null;
+
+    for (const [index, provider] of this.providers.entries()) {
+      if (!(await this.breaker.canRequest(provider.breakerKey))) {
+        this.logger.warn({ model: provider.llm.model }, 'Circuit breaker open - skipping provider');
+        continue;
       }
-    });
+
+      try {
+        const response = await this.withRetry(() => this.invokeProvider(provider, prompt, parse));
+        return { ...response, model: provider.llm.model, fallback: index > 0 };
+      } catch (error) {
+        lastError = error;
+        if (index < this.providers.length - 1) {
+          this.logger.warn({ error, model: provider.llm.model }, 'LLM provider failed - trying next provider');
+        }
+      }
+    }
+
+    throw lastError || new Error('Circuit breaker is open - too many recent LLM failures');
+  }
+
+  /**
+   * Invoke a single provider, tracking its circuit breaker state
+   */
+  private async invokeProvider<T>(
+    provider: ProviderSlot,
+    prompt: string,
+    parse: (content: string) => T
+  ): Promise<{ result: T; tokensUsed: number; inputTokens: number; outputTokens: number }> {
+    try {
+      const { content, tokensUsed, inputTokens, outputTokens } = await this.timedInvoke(provider, prompt);
+      const result = parse(content);
+
+      await this.breaker.recordSuccess(provider.breakerKey);
+
+      return { result, tokensUsed, inputTokens, outputTokens };
+    } catch (error) {
+      this.logger.error({ error, model: provider.llm.model }, 'LLM request failed');
+      await this.breaker.recordFailure(provider.breakerKey);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Send a prompt, recording its latency and token usage
+   */
+  private async timedInvoke(provider: ProviderSlot, prompt: string): Promise<ChatCompletion> {
+    const labels = { provider: provider.provider, model: provider.llm.model };
+    const startedAt = Date.now();
+
+    try {
+      const completion = await provider.llm.invoke(prompt);
+      llmRequestDuration.observe({ ...labels, outcome: 'success' }, (Date.now() - startedAt) / 1000);
+      llmTokensUsed.inc({ model: labels.model, direction: 'input' }, completion.inputTokens);
+      llmTokensUsed.inc({ model: labels.model, direction: 'output' }, completion.outputTokens);
+      return completion;
+    } catch (error) {
+      llmRequestDuration.observe({ ...labels, outcome: 'error' }, (Date.now() - startedAt) / 1000);
+      throw error;
+    }
   }
 
   /**
@@ -136,27 +376,109 @@ PR Information:
 - Repository: ${context.owner}/${context.repo}
 - PR #${context.pullNumber}
 ${context.description ? `- Description: ${context.description}` : ''}
+${this.describeIncrementalScope(context)}
 
 Commits:
 ${commitMessages}
 
+${DIFF_FORMAT}
+
 Diff (truncated):
-${context.diff.substring(0, 8000)}
+${context.diff.substring(0, this.MAX_PROMPT_DIFF_CHARS)}
 
-Provide a JSON response with this exact structure:
-{
-  "what": "Brief description of WHAT changed (1-2 sentences, technical)",
-  "why": "Explanation of WHY this change was made (business/technical rationale)",
-  "impact": "Description of the IMPACT (what systems/features are affected, any breaking changes)",
-  "notes": "Optional additional notes (testing considerations, deployment notes, etc.)"
-}
+${SUMMARY_RESPONSE_FORMAT}`;
+  }
+
+  /**
+   * Build prompt for one chunk of a large diff (map step)
+   */
+  private buildChunkPrompt(context: PRContext, chunk: DiffChunk, index: number, total: number): string {
+    const commitMessages = context.commits.map((c) => `- ${c.message}`).join('\n');
+
+    return `You are a code review assistant. This pull request is too large to review at once.
+You are given part ${index + 1} of ${total} of its diff. Summarize ONLY the changes in this part, in JSON format.
+
+PR Information:
+- Repository: ${context.owner}/${context.repo}
+- PR #${context.pullNumber}
+${context.description ? `- Description: ${context.description}` : ''}
+${this.describeIncrementalScope(context)}
+
+Commits:
+${commitMessages}
+
+Files in this part: ${chunk.files.join(', ')}
+
+${DIFF_FORMAT}
+
+Diff (part ${index + 1} of ${total}):
+${chunk.diff}
+
+${SUMMARY_RESPONSE_FORMAT}`;
+  }
+
+  /**
+   * Build prompt merging per-chunk summaries into one (reduce step)
+   */
+  private buildReducePrompt(context: PRContext, partials: PRSummary[]): string {
+    const commitMessages = context.commits.map((c) => `- ${c.message}`).join('\n');
+    const partialSummaries = partials.map((p, i) => `Part ${i + 1}:\n${JSON.stringify(p)}`).join('\n\n');
+
+    return `You are a code review assistant. A large pull request was summarized in ${partials.length} parts.
+Merge the partial summaries below into a single summary of the whole pull request, in JSON format.
+Remove repetition and keep the most important points.
+
+PR Information:
+- Repository: ${context.owner}/${context.repo}
+- PR #${context.pullNumber}
+${context.description ? `- Description: ${context.description}` : ''}
+${this.describeIncrementalScope(context)}
+
+Commits:
+${commitMessages}
+
+Partial summaries:
+${partialSummaries}
+
+${SUMMARY_RESPONSE_FORMAT}`;
+  }
+
+  /**
+   * Prompt line telling the model an incremental run only shows the commits pushed since the last summary
+   */
+  private describeIncrementalScope(context: PRContext): string {
+    if (!context.previousSha) {
+      return '';
+    }
+
+    return (
+      `- Incremental update: the commits and diff below are only what was pushed since ${context.previousSha}, ` +
+      'which was already summarized. Summarize just these new changes.'
+    );
+  }
+
+  /**
+   * Build prompt for single-file explanation
+   */
+  private buildExplainPrompt(context: PRContext, filename: string, patch: string): string {
+    return `You are a code review assistant. Explain the changes made to one file in a pull request.
+
+PR Information:
+- Repository: ${context.owner}/${context.repo}
+- PR #${context.pullNumber}
+${context.description ? `- Description: ${context.description}` : ''}
+
+File: ${filename}
+
+Diff (truncated):
+${patch.substring(0, this.MAX_PROMPT_DIFF_CHARS)}
 
 Requirements:
-- Be concise and technical
-- Focus on facts from the code, commits, and description
-- If information is unclear, state "Not specified in PR" rather than guessing
-- Identify breaking changes or deployment requirements in impact
-- Keep each field under 200 words`;
+- Respond in GitHub-flavored markdown, without a top-level heading
+- Describe what changed in this file and why it likely changed, based only on the diff and description
+- Call out risky changes (behaviour changes, removed checks, migrations)
+- If the diff does not make the intent clear, say so rather than guessing
+- Keep the explanation under 250 words`;
   }
 
   /**
@@ -175,28 +497,14 @@ Requirements:
         throw new Error('Missing required fields in LLM response');
       }
 
-      return parsed;
+      // Only keep fields the model is asked for (coverage is computed, never model-supplied)
+      return { what: parsed.what, why: parsed.why, impact: parsed.impact, notes: parsed.notes };
     } catch (error) {
       this.logger.error({ error, content }, 'Failed to parse LLM response');
       throw new Error('Invalid JSON response from LLM');
     }
   }
 
-  /**
-   * Check if circuit breaker is open
-   */
-  private isCircuitOpen(): boolean {
-    if (this.circuitBreakerFailures >= this.CIRCUIT_BREAKER_THRESHOLD) {
-      if (Date.now() < this.circuitBreakerResetTime) {
-        return true;
-      }
-      // Reset circuit breaker after timeout
-      this.circuitBreakerFailures = 0;
-      this.circuitBreakerResetTime = 0;
-    }
-    return false;
-  }
-
   /**
    * Retry logic with exponential backoff
    */
@@ -260,3 +568,36 @@ Requirements:
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
+
+/**
+ * Strip what a rebase changes without changing the content: line endings, trailing whitespace and
+ * hunk line numbers
+ */
+function normalizeDiff(diff: string): string {
+  return diff
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/, '@@').trimEnd())
+    .join('\n');
+}
+
+/**
+ * Create a summarizer for the configured LLM provider
+ */
+export function createSummarizerService(
+  config: AppConfig,
+  logger: Logger,
+  breaker?: CircuitBreaker
+): SummarizerService {
+  return new SummarizerService({
+    provider: config.llm.provider,
+    apiKey: config.llm.apiKey,
+    model: config.llm.model,
+    baseUrl: config.llm.baseUrl,
+    headers: config.llm.headers,
+    apiVersion: config.llm.apiVersion,
+    fake: config.llm.fake,
+    fallbacks: config.llm.fallbacks,
+    breaker,
+    logger,
+  });
+}
@@ -7,6 +7,79 @@ export interface PRSummary {
   why: string;
   impact: string;
   notes?: string;
+  coverage?: SummaryCoverage;
+  // Set when a fallback provider produced the summary
+  fallback?: SummaryFallback;
+  // Changes pushed since the previous summary, shown alongside the earlier overall summary
+  sinceLastReview?: SummaryUpdate;
+}
+
+export interface SummaryUpdate {
+  // Previously summarized head commit and the new head
+  fromSha: string;
+  toSha: string;
+  commitCount: number;
+  what: string;
+  impact: string;
+  notes?: string;
+}
+
+/**
+ * The summary last published on a PR, the starting point for the next incremental update
+ */
+export interface SummaryRecord {
+  // Head commit the published summary describes
+  sha: string;
+  // Last full summary of the PR and the head commit it was generated for
+  overall: PRSummary;
+  overallSha: string;
+  // Incremental updates published since the overall summary was generated
+  incrementalRuns: number;
+}
+
+export interface SummaryFallback {
+  model: string;
+  primaryModel: string;
+}
+
+export interface SummaryCoverage {
+  filesTotal: number;
+  filesCovered: number;
+  skippedFiles: string[];
+  // Lockfiles, generated and vendored files and repo exclusions, never sent to the LLM
+  filteredFiles?: FilteredFile[];
+  // Set when GitHub's listing limits hid part of the PR
+  partial?: PartialData;
+}
+
+/**
+ * How much of a PR GitHub listed, against its real size (files stop at 3000, commits at 250)
+ */
+export interface PartialData {
+  files: number;
+  totalFiles: number;
+  commits: number;
+  totalCommits: number;
+}
+
+export type FileFilterReason = 'lockfile' | 'generated' | 'vendored' | 'excluded';
+
+export interface FilteredFile {
+  filename: string;
+  reason: FileFilterReason;
+}
+
+export interface PRFileDiff {
+  filename: string;
+  // GitHub's file status: added, removed, modified, renamed, copied, changed or unchanged
+  status?: string;
+  // Path before a rename or copy
+  previousFilename?: string;
+  additions?: number;
+  deletions?: number;
+  patch?: string;
+  // Binary files never have a patch
+  binary?: boolean;
 }
 
 export interface PRContext {
@@ -15,18 +88,38 @@ export interface PRContext {
   pullNumber: number;
   sha: string;
   diff: string;
+  files?: PRFileDiff[];
   commits: Array<{
     sha: string;
     message: string;
   }>;
   description?: string;
+  // Set for an incremental run: the diff and commits only cover what was pushed since this commit
+  previousSha?: string;
+  // Changed files left out of `files` and `diff` by the file filter
+  filteredFiles?: FilteredFile[];
+  // Set when `files` and `commits` are only part of the PR
+  partial?: PartialData;
 }
 
+export type OutputMode = 'comment' | 'check' | 'both' | 'description';
+
 export interface BotConfig {
   enabled: boolean;
   autoSummarizeOn: Array<'opened' | 'synchronize' | 'reopened'>;
   ignoreLabels: string[];
   maxDiffSize: number;
+  output: OutputMode;
+  // Summarize only the new commits on `synchronize`, keeping the earlier overall summary
+  incremental: boolean;
+  // Globs always sent to the LLM, and globs filtered out on top of the built-in patterns
+  includeFiles: string[];
+  excludeFiles: string[];
+}
+
+export interface ConfigIssue {
+  key: string;
+  message: string;
 }
 
 export interface AuditLogEntry {
@@ -38,6 +131,28 @@ export interface AuditLogEntry {
   details?: Record<string, unknown>;
 }
 
+/**
+ * Audit log filters; all optional and combined with AND
+ */
+export interface AuditLogQuery {
+  // Epoch ms, inclusive
+  from?: number;
+  to?: number;
+  // owner/name, matched against the entry's resource
+  repo?: string;
+  actor?: string;
+  action?: string;
+  // Opaque position returned as `nextCursor` by the previous page
+  cursor?: string;
+  limit?: number;
+}
+
+export interface AuditLogPage {
+  // Newest first
+  entries: AuditLogEntry[];
+  nextCursor: string | null;
+}
+
 export interface RateLimitStatus {
   limit: number;
   remaining: number;
@@ -45,10 +160,106 @@ export interface RateLimitStatus {
   isLimited: boolean;
 }
 
-export type LLMProvider = 'openai' | 'anthropic';
+/**
+ * Who a quota applies to: the GitHub App installation, the repository, or the PR author
+ */
+export type RateLimitScope = 'installation' | 'repo' | 'author';
+
+export interface ScopedRateLimitStatus extends RateLimitStatus {
+  scope: RateLimitScope;
+}
+
+export interface RateLimitDecision {
+  isLimited: boolean;
+  // First exhausted quota, when the request was rejected
+  limitedBy?: ScopedRateLimitStatus;
+  scopes: ScopedRateLimitStatus[];
+}
+
+/**
+ * Name of a provider registered in the LLM provider registry
+ * Built-in: 'openai', 'anthropic', 'azure-openai', 'openai-compatible', 'fake'
+ */
+export type LLMProvider = string;
+
+/**
+ * Connection settings for one LLM provider
+ */
+export interface LLMProviderSettings {
+  provider: LLMProvider;
+  apiKey?: string;
+  model?: string;
+  // Overrides the vendor's default endpoint (required for azure-openai and openai-compatible)
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  // Azure OpenAI API version
+  apiVersion?: string;
+  // Behaviour of the offline 'fake' provider
+  fake?: FakeLLMOptions;
+}
+
+export type FakeLLMFailure = 'rate_limit' | 'timeout' | 'malformed';
+
+export interface FakeLLMOptions {
+  // Directory of `<diff hash>.json` responses, returned verbatim when present
+  fixturesDir?: string;
+  latencyMs?: number;
+  failure?: FakeLLMFailure;
+  // Number of calls that fail before responses succeed (default: every call)
+  failTimes?: number;
+}
+
+/**
+ * Tokens consumed on one model, for cost accounting
+ */
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Where an installation stands against its monthly budget: at `soft` summaries use the
+ * economy model, at `hard` they stop until the next month
+ */
+export type BudgetLevel = 'ok' | 'soft' | 'hard';
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  // UTC month, YYYY-MM
+  month: string;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface MonthlyUsage {
+  month: string;
+  tokens: number;
+  costUsd: number;
+  // Keyed by owner/repo
+  repos: Record<string, { tokens: number; costUsd: number }>;
+}
 
 export interface LLMResponse {
   summary: PRSummary;
   tokensUsed: number;
   model: string;
+  // Per model, since chunks may be served by different providers
+  usage: TokenUsage[];
+}
+
+export interface FileExplanation {
+  filename: string;
+  explanation: string;
+  tokensUsed: number;
+  model: string;
+  usage: TokenUsage[];
 }
@@ -0,0 +1,72 @@
+/**
+ * Mention that addresses the bot in PR comments
+ */
+export const COMMAND_MENTION = '@pr-summarizer';
+
+export type BotCommand =
+  | { name: 'summarize'; force: boolean }
+  | { name: 'regenerate' }
+  | { name: 'explain'; file: string }
+  | { name: 'help' }
+  | { name: 'unknown'; raw: string };
+
+/**
+ * Supported commands with usage text (drives the help reply)
+ */
+export const SUPPORTED_COMMANDS: Array<{ usage: string; description: string }> = [
+  { usage: 'summarize', description: 'Generate the summary (reuses a cached summary of identical changes)' },
+  { usage: 'summarize --force', description: 'Generate a fresh summary, ignoring any cached one' },
+  { usage: 'regenerate', description: 'Alias for `summarize --force`' },
+  { usage: 'explain <file>', description: 'Explain the changes made to a single file in this PR' },
+  { usage: 'help', description: 'Show this list of commands' },
+];
+
+/**
+ * Parse the first line of a comment that mentions the bot into a command
+ * Returns null when the comment does not address the bot
+ */
+export function parseCommand(body: string): BotCommand | null {
+  if (!body) {
+    return null;
+  }
+
+  const mention = COMMAND_MENTION.toLowerCase();
+  const line = body
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .find((l) => l.toLowerCase().startsWith(mention));
+
+  if (!line) {
+    return null;
+  }
+
+  const rest = line.substring(mention.length);
+
+  // Must be a whole-word mention (not `@pr-summarizer-other`)
+  if (rest.length > 0 && !/^\s/.test(rest)) {
+    return null;
+  }
+
+  const args = rest.trim().split(/\s+/).filter(Boolean);
+  const [name, ...params] = args;
+
+  switch (name?.toLowerCase()) {
+    case undefined:
+    case 'help':
+      return { name: 'help' };
+    case 'summarize':
+      if (params.length === 0 || (params.length === 1 && params[0] === '--force')) {
+        return { name: 'summarize', force: params.length === 1 };
+      }
+      return { name: 'unknown', raw: args.join(' ') };
+    case 'regenerate':
+      return params.length === 0 ? { name: 'regenerate' } : { name: 'unknown', raw: args.join(' ') };
+    case 'explain':
+      if (params.length === 1) {
+        return { name: 'explain', file: params[0].replace(/^`|`$/g, '') };
+      }
+      return { name: 'unknown', raw: args.join(' ') };
+    default:
+      return { name: 'unknown', raw: args.join(' ') };
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Hidden HTML markers identifying the bot's comments: the summary comment and the skip notice comment
+ * Bump MARKER_VERSION when the comment layout changes incompatibly.
+ */
+export const MARKER_VERSION = 1;
+
+export type CommentKind = 'summary' | 'notice';
+
+export interface CommentMarker {
+  version: number;
+  sha: string;
+}
+
+const MARKER_PATTERNS: Record<CommentKind, RegExp> = {
+  summary: /<!--\s*pr-summarizer:summary\s+v=(\d+)\s+sha=([0-9a-f]+)\s*-->/i,
+  notice: /<!--\s*pr-summarizer:notice\s+v=(\d+)\s+sha=([0-9a-f]+)\s*-->/i,
+};
+
+/**
+ * Build the marker embedded at the top of the summary (or notice) comment
+ */
+export function formatCommentMarker(sha: string, kind: CommentKind = 'summary'): string {
+  return `<!-- pr-summarizer:${kind} v=${MARKER_VERSION} sha=${sha} -->`;
+}
+
+/**
+ * Prefix a comment body with the marker for the given head SHA
+ */
+export function withCommentMarker(body: string, sha: string, kind: CommentKind = 'summary'): string {
+  return `${formatCommentMarker(sha, kind)}\n${body}`;
+}
+
+/**
+ * Extract the marker from a comment body (null if absent)
+ */
+export function parseCommentMarker(
+  body: string | undefined | null,
+  kind: CommentKind = 'summary'
+): CommentMarker | null {
+  if (!body) {
+    return null;
+  }
+
+  const match = body.match(MARKER_PATTERNS[kind]);
+  if (!match) {
+    return null;
+  }
+
+  return { version: parseInt(match[1], 10), sha: match[2] };
+}
@@ -0,0 +1,70 @@
+/**
+ * Correlation IDs
+ * One ID per webhook delivery (seeded from X-GitHub-Delivery), carried through async context into
+ * logs, audit entries, queued jobs and outbound LLM requests so a webhook can be traced end to end.
+ */
+
+import { randomUUID } from 'crypto';
+import { getId, withId } from 'correlation-id';
+import { Logger } from 'probot';
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+const LOG_METHODS = new Set(['trace', 'debug', 'info', 'warn', 'error', 'fatal']);
+
+/**
+ * The correlation ID of the current async context, if any
+ */
+export function getCorrelationId(): string | undefined {
+  return getId();
+}
+
+/**
+ * The current correlation ID, or a new one outside any correlation scope
+ */
+export function currentCorrelationId(): string {
+  return getId() || randomUUID();
+}
+
+/**
+ * Run work in a correlation scope; a new ID is generated when none is given
+ */
+export function runWithCorrelationId<T>(id: string | undefined, work: () => T): T {
+  return withId(id || randomUUID(), work);
+}
+
+/**
+ * Logger that adds the current correlation ID to every line
+ * Shared services are created once at startup, so the ID is looked up per call instead of bound once.
+ */
+export function withCorrelationId(logger: Logger): Logger {
+  return new Proxy(logger, {
+    get(target, property, receiver): unknown {
+      if (property === 'child') {
+        return (...args: Parameters<Logger['child']>) => withCorrelationId(target.child(...args));
+      }
+
+      const id = getId();
+      if (id && typeof property === 'string' && LOG_METHODS.has(property)) {
+        const child = target.child({ correlationId: id });
+        return child[property as 'info'].bind(child);
+      }
+
+      return Reflect.get(target, property, receiver);
+    },
+  });
+}
+
+/**
+ * fetch that sends the current correlation ID as a header, for the LLM SDK clients
+ */
+export function correlatedFetch(input: Parameters<typeof fetch>[0], init: RequestInit = {}): Promise<Response> {
+  const id = getId();
+  if (!id) {
+    return fetch(input, init);
+  }
+
+  const headers = new Headers(init.headers);
+  headers.set(CORRELATION_ID_HEADER, id);
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,49 @@
+/**
+ * Markers delimiting the bot-managed section of a PR description
+ */
+export const DESCRIPTION_START = '<!-- pr-summarizer:start -->';
+export const DESCRIPTION_END = '<!-- pr-summarizer:end -->';
+
+/**
+ * Locate the managed section; a start marker without an end marker runs to the end of the body
+ */
+function findSection(body: string): { start: number; end: number } | null {
+  const start = body.indexOf(DESCRIPTION_START);
+  if (start === -1) {
+    return null;
+  }
+
+  const endMarker = body.indexOf(DESCRIPTION_END, start);
+  const end = endMarker === -1 ? body.length : endMarker + DESCRIPTION_END.length;
+
+  return { start, end };
+}
+
+/**
+ * Insert or replace the managed section, preserving everything the author wrote outside it
+ */
+export function upsertDescriptionSection(body: string | null | undefined, content: string): string {
+  const current = body || '';
+  const block = `${DESCRIPTION_START}\n${content}\n${DESCRIPTION_END}`;
+  const section = findSection(current);
+
+  if (section) {
+    return current.substring(0, section.start) + block + current.substring(section.end);
+  }
+
+  return current.trim() ? `${current.trimEnd()}\n\n${block}` : block;
+}
+
+/**
+ * Remove the managed section so the bot never summarizes its own previous output
+ */
+export function stripDescriptionSection(body: string | null | undefined): string {
+  const current = body || '';
+  const section = findSection(current);
+
+  if (!section) {
+    return current;
+  }
+
+  return (current.substring(0, section.start) + current.substring(section.end)).trim();
+}
@@ -0,0 +1,162 @@
+import { PRFileDiff } from '../types';
+
+export interface DiffChunk {
+  files: string[];
+  diff: string;
+}
+
+export interface ChunkedDiff {
+  chunks: DiffChunk[];
+  coveredFiles: string[];
+  skippedFiles: string[];
+}
+
+const TRUNCATION_MARKER = '\n... (hunk truncated)';
+
+interface DiffSegment {
+  filename: string;
+  text: string;
+}
+
+/**
+ * The line introducing a file in a prompt diff: its path, then its status unless it was simply modified
+ * e.g. `--- src/new.ts (renamed from src/old.ts)` or `--- logo.png (binary, added)`
+ */
+export function formatFileHeader(file: PRFileDiff): string {
+  const notes: string[] = file.binary ? ['binary'] : [];
+
+  if (file.previousFilename && (file.status === 'renamed' || file.status === 'copied')) {
+    notes.push(`${file.status} from ${file.previousFilename}`);
+  } else if (file.status && file.status !== 'modified') {
+    notes.push(file.status);
+  }
+
+  return notes.length > 0 ? `--- ${file.filename} (${notes.join(', ')})` : `--- ${file.filename}`;
+}
+
+/**
+ * A file's header and patch, or a note saying why there is no patch, so every changed file reaches the prompt
+ */
+export function formatFileDiff(file: PRFileDiff): string {
+  return `${formatFileHeader(file)}\n${file.patch || describeMissingPatch(file)}`;
+}
+
+/**
+ * Whether the prompt sees the whole change: a patch, or a binary file, pure rename or empty new file that has none
+ */
+export function hasFullDiff(file: PRFileDiff): boolean {
+  return !!file.patch || !!file.binary || isPureRename(file) || isEmptyFile(file);
+}
+
+function isPureRename(file: PRFileDiff): boolean {
+  return file.status === 'renamed' && !file.additions && !file.deletions;
+}
+
+// GitHub counts no lines for binary files either, so only one that was not flagged binary is known to be empty
+function isEmptyFile(file: PRFileDiff): boolean {
+  return file.status === 'added' && !file.binary && !file.additions && !file.deletions;
+}
+
+/**
+ * Split PR file patches into prompt-sized chunks
+ * Files are packed whole where possible; oversized files are split on hunk boundaries.
+ * Files whose diff is unavailable (too large even for the raw diff) are sent as a header only and, like files
+ * beyond maxChunks, reported as skipped.
+ */
+export function chunkDiff(files: PRFileDiff[], maxChunkSize: number, maxChunks: number): ChunkedDiff {
+  const chunks: DiffChunk[] = [];
+  const noPatch = new Set<string>();
+  let current: DiffChunk = { files: [], diff: '' };
+
+  for (const file of files) {
+    if (!hasFullDiff(file)) {
+      noPatch.add(file.filename);
+    }
+
+    for (const segment of splitFilePatch(file, maxChunkSize)) {
+      if (current.diff && current.diff.length + 2 + segment.text.length > maxChunkSize) {
+        chunks.push(current);
+        current = { files: [], diff: '' };
+      }
+
+      current.diff += (current.diff ? '\n\n' : '') + segment.text;
+      if (!current.files.includes(segment.filename)) {
+        current.files.push(segment.filename);
+      }
+    }
+  }
+
+  if (current.diff) {
+    chunks.push(current);
+  }
+
+  const kept = chunks.slice(0, maxChunks);
+  const droppedFiles = new Set(chunks.slice(maxChunks).flatMap((c) => c.files));
+
+  // A file split across a kept and a dropped chunk was only partially seen - count it as skipped
+  const coveredFiles = [...new Set(kept.flatMap((c) => c.files))].filter(
+    (f) => !droppedFiles.has(f) && !noPatch.has(f)
+  );
+
+  return {
+    chunks: kept,
+    coveredFiles,
+    skippedFiles: [...new Set([...noPatch, ...droppedFiles])],
+  };
+}
+
+/**
+ * Note standing in for a missing patch
+ */
+function describeMissingPatch(file: PRFileDiff): string {
+  if (file.binary) {
+    return '(binary file - no text diff)';
+  }
+
+  if (isEmptyFile(file)) {
+    return '(empty file)';
+  }
+
+  if (isPureRename(file)) {
+    return '(renamed without changes)';
+  }
+
+  return `(diff not available: +${file.additions ?? 0} / -${file.deletions ?? 0} lines)`;
+}
+
+/**
+ * Split one file's patch into segments no larger than maxSize, on hunk boundaries
+ */
+function splitFilePatch(file: PRFileDiff, maxSize: number): DiffSegment[] {
+  const { filename, patch } = file;
+  const whole = formatFileDiff(file);
+
+  if (!patch || whole.length <= maxSize) {
+    return [{ filename, text: whole }];
+  }
+
+  const header = `${formatFileHeader(file)}\n`;
+  const hunks = patch.split(/\n(?=@@)/);
+  const budget = maxSize - header.length;
+  const segments: DiffSegment[] = [];
+  let body = '';
+
+  for (const rawHunk of hunks) {
+    // A single hunk larger than the budget is truncated rather than dropped
+    const hunk =
+      rawHunk.length > budget ? rawHunk.substring(0, budget - TRUNCATION_MARKER.length) + TRUNCATION_MARKER : rawHunk;
+
+    if (body && body.length + 1 + hunk.length > budget) {
+      segments.push({ filename, text: header + body });
+      body = '';
+    }
+
+    body += (body ? '\n' : '') + hunk;
+  }
+
+  if (body) {
+    segments.push({ filename, text: header + body });
+  }
+
+  return segments;
+}
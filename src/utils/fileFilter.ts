@@ -0,0 +1,190 @@
+import { FilteredFile, FileFilterReason } from '../types';
+
+/**
+ * What decides which changed files are sent to the LLM
+ */
+export interface FileFilterRules {
+  // Globs that are always analysed, even when another rule would filter them
+  include: string[];
+  // Globs filtered out in addition to the built-in patterns
+  exclude: string[];
+  // Contents of the repository's root .gitattributes (linguist-generated / linguist-vendored)
+  gitattributes?: string | null;
+}
+
+export interface ClassifiedFiles<T> {
+  analysed: T[];
+  filtered: FilteredFile[];
+}
+
+type LinguistAttribute = 'generated' | 'vendored';
+
+interface BuiltInRule {
+  reason: FileFilterReason;
+  // A .gitattributes `linguist-<attribute>=false` opts matching files back in
+  attribute: LinguistAttribute;
+  patterns: string[];
+}
+
+interface AttributeRule {
+  pattern: RegExp;
+  attribute: LinguistAttribute;
+  value: boolean;
+}
+
+// Files that cost prompt budget without telling a reviewer anything
+const BUILT_IN_RULES: BuiltInRule[] = [
+  {
+    reason: 'lockfile',
+    attribute: 'generated',
+    patterns: [
+      'package-lock.json',
+      'npm-shrinkwrap.json',
+      'yarn.lock',
+      'pnpm-lock.yaml',
+      'bun.lockb',
+      'Gemfile.lock',
+      'Cargo.lock',
+      'composer.lock',
+      'poetry.lock',
+      'Pipfile.lock',
+      'go.sum',
+      'packages.lock.json',
+    ],
+  },
+  {
+    reason: 'generated',
+    attribute: 'generated',
+    patterns: [
+      '**/dist/**',
+      '*.min.js',
+      '*.min.css',
+      '*.map',
+      '__snapshots__/',
+      '*.snap',
+      '*.pb.go',
+      '*_pb2.py',
+      '*_pb.js',
+      '*_pb.d.ts',
+    ],
+  },
+  {
+    reason: 'vendored',
+    attribute: 'vendored',
+    patterns: ['**/vendor/**', '**/node_modules/**'],
+  },
+];
+
+const LINGUIST_ATTRIBUTE = /^([-!])?linguist-(generated|vendored)(?:=(\w+))?$/;
+
+/**
+ * Split changed files into those to analyse and those filtered out, with the reason
+ * Precedence: `include` globs, then `exclude` globs, then .gitattributes, then the built-in patterns.
+ */
+export function classifyFiles<T extends { filename: string }>(files: T[], rules: FileFilterRules): ClassifiedFiles<T> {
+  const include = rules.include.map(globToRegExp);
+  const exclude = rules.exclude.map(globToRegExp);
+  const attributes = parseGitAttributes(rules.gitattributes);
+  const builtIns = BUILT_IN_RULES.map((rule) => ({ ...rule, regexps: rule.patterns.map(globToRegExp) }));
+
+  const result: ClassifiedFiles<T> = { analysed: [], filtered: [] };
+
+  for (const file of files) {
+    const path = file.filename;
+    let reason: FileFilterReason | null = null;
+
+    if (!include.some((pattern) => pattern.test(path))) {
+      const marked = resolveAttributes(attributes, path);
+
+      if (exclude.some((pattern) => pattern.test(path))) {
+        reason = 'excluded';
+      } else if (marked.generated || marked.vendored) {
+        reason = marked.generated ? 'generated' : 'vendored';
+      } else {
+        const builtIn = builtIns.find(
+          (rule) => marked[rule.attribute] !== false && rule.regexps.some((pattern) => pattern.test(path))
+        );
+        reason = builtIn?.reason ?? null;
+      }
+    }
+
+    if (reason) {
+      result.filtered.push({ filename: path, reason });
+    } else {
+      result.analysed.push(file);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compile a gitignore-style glob to a regular expression over repository paths
+ * `*` and `?` stay within a path segment and `**` spans segments. A glob without a slash matches the file
+ * name at any depth; one with a slash is anchored at the root. A trailing slash matches a whole directory.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const directory = glob.endsWith('/');
+  let pattern = directory ? glob.slice(0, -1) : glob;
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '') + (directory ? '/**' : '');
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` matches zero or more directories; any other `**` matches everything
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`);
+}
+
+/**
+ * Read the linguist-generated and linguist-vendored lines of a .gitattributes file
+ */
+function parseGitAttributes(content: string | null | undefined): AttributeRule[] {
+  const rules: AttributeRule[] = [];
+
+  for (const line of (content || '').split(/\r?\n/)) {
+    const [pattern, ...attributes] = line.trim().split(/\s+/);
+    if (!pattern || pattern.startsWith('#')) {
+      continue;
+    }
+
+    for (const attribute of attributes) {
+      const match = attribute.match(LINGUIST_ATTRIBUTE);
+      if (match) {
+        const value = !match[1] && match[3] !== 'false';
+        rules.push({ pattern: globToRegExp(pattern), attribute: match[2] as LinguistAttribute, value });
+      }
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Linguist attributes set for a path; as in git, the last matching line wins
+ */
+function resolveAttributes(rules: AttributeRule[], path: string): Partial<Record<LinguistAttribute, boolean>> {
+  const resolved: Partial<Record<LinguistAttribute, boolean>> = {};
+
+  for (const rule of rules) {
+    if (rule.pattern.test(path)) {
+      resolved[rule.attribute] = rule.value;
+    }
+  }
+
+  return resolved;
+}
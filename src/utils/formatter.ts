@@ -1,12 +1,27 @@
-import { PRSummary } from '../types';
+import {
+  PRSummary,
+  ConfigIssue,
+  FileExplanation,
+  SummaryCoverage,
+  ScopedRateLimitStatus,
+  BudgetStatus,
+  SummaryUpdate,
+  PartialData,
+  FilteredFile,
+} from '../types';
+import { COMMAND_MENTION, SUPPORTED_COMMANDS } from './commands';
 
 /**
  * Format PR summary as markdown comment
  */
 export function formatSummaryAsMarkdown(summary: PRSummary): string {
-  const sections: string[] = [
-    '## 🤖 AI-Generated PR Summary',
-    '',
+  const sections: string[] = ['## 🤖 AI-Generated PR Summary', ''];
+
+  if (summary.sinceLastReview) {
+    sections.push(formatSummaryUpdate(summary.sinceLastReview), '');
+  }
+
+  sections.push(
     '### What Changed',
     summary.what,
     '',
@@ -14,22 +29,100 @@ export function formatSummaryAsMarkdown(summary: PRSummary): string {
     summary.why,
     '',
     '### Impact',
-    summary.impact,
-  ];
+    summary.impact
+  );
 
   if (summary.notes) {
     sections.push('', '### Additional Notes', summary.notes);
   }
 
-  sections.push(
-    '',
-    '---',
-    '_This summary was automatically generated by AI. Please review for accuracy._'
-  );
+  if (summary.coverage) {
+    sections.push('', formatCoverage(summary.coverage));
+  }
+
+  sections.push('', '---');
+
+  if (summary.fallback) {
+    sections.push(
+      `_Generated by fallback model \`${summary.fallback.model}\` because \`${summary.fallback.primaryModel}\` ` +
+        'was unavailable._'
+    );
+  }
+
+  sections.push('_This summary was automatically generated by AI. Please review for accuracy._');
 
   return sections.join('\n');
 }
 
+/**
+ * Format the changes pushed since the previous summary
+ */
+export function formatSummaryUpdate(update: SummaryUpdate): string {
+  const commits = update.commitCount === 1 ? '1 new commit' : `${update.commitCount} new commits`;
+  const range = `\`${update.fromSha.substring(0, 7)}\`..\`${update.toSha.substring(0, 7)}\``;
+  const lines = [
+    '### 🔄 Since Last Review',
+    `_${commits} (${range})_`,
+    '',
+    update.what,
+    '',
+    `**Impact:** ${update.impact}`,
+  ];
+
+  if (update.notes) {
+    lines.push('', update.notes);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format which files the summary is based on
+ */
+export function formatCoverage(coverage: SummaryCoverage): string {
+  const lines = [`📁 _Summary covers ${coverage.filesCovered} of ${coverage.filesTotal} changed files._`];
+  const filtered = coverage.filteredFiles || [];
+  const notAnalysed = coverage.skippedFiles.length + filtered.length;
+
+  if (coverage.partial) {
+    lines.push('', formatPartialData(coverage.partial));
+  }
+
+  if (notAnalysed === 0) {
+    return lines.join('\n');
+  }
+
+  return [
+    ...lines,
+    '',
+    '<details>',
+    `<summary>Not analysed (${notAnalysed})</summary>`,
+    '',
+    ...coverage.skippedFiles.map((f) => `- \`${f}\``),
+    ...filtered.map((f) => `- \`${f.filename}\` (${f.reason})`),
+    '',
+    '</details>',
+  ].join('\n');
+}
+
+/**
+ * Note under a check run summary when some files not analysed got no annotation
+ */
+export function formatAnnotationLimitNote(omitted: number, limit: number): string {
+  return `_Annotations are limited to ${limit} files; ${omitted} more not analysed are only listed above._`;
+}
+
+/**
+ * Format a warning that GitHub's listing limits left part of the PR out of the summary
+ */
+export function formatPartialData(partial: PartialData): string {
+  return (
+    `⚠️ _Partial data: GitHub lists at most 3,000 files and 250 commits per pull request. This summary is ` +
+    `based on ${partial.files} of ${partial.totalFiles} files and ${partial.commits} of ${partial.totalCommits} ` +
+    'commits._'
+  );
+}
+
 /**
  * Format [NEEDS_INPUT] message for user
  */
@@ -48,12 +141,165 @@ To get an AI-generated summary, please:
 Once you've added more context, trigger a new summary by:
 - Pushing a new commit
 - Closing and reopening the PR
-- Adding a comment with \`@bot summarize\` (if enabled)
+- Adding a comment with \`${COMMAND_MENTION} summarize\`
 
 ---
 _This is an automated message from the PR Summarizer Bot._`;
 }
 
+/**
+ * Format invalid repository config message listing each offending key
+ */
+export function formatInvalidConfigMessage(source: string, issues: ConfigIssue[]): string {
+  const issueLines = issues.map((issue) => `- \`${issue.key}\`: ${issue.message}`);
+
+  return [
+    '## 🤖 AI-Generated PR Summary',
+    '',
+    `⚠️ **Unable to generate summary - invalid configuration in \`${source}\`**`,
+    '',
+    'The following keys need attention:',
+    '',
+    ...issueLines,
+    '',
+    'Supported keys are `enabled`, `autoSummarizeOn` (`opened`, `synchronize`, `reopened`), `ignoreLabels`,',
+    '`maxDiffSize`, `output` (`comment`, `check`, `both`, `description`), `incremental`, `includeFiles` and',
+    '`excludeFiles`.',
+    '',
+    '---',
+    '_This is an automated message from the PR Summarizer Bot._',
+  ].join('\n');
+}
+
+const RATE_LIMIT_SCOPE_LABELS: Record<ScopedRateLimitStatus['scope'], string> = {
+  installation: 'this installation',
+  repo: 'this repository',
+  author: 'this PR author',
+};
+
+/**
+ * Format notice for a summary skipped because a rate limit quota is exhausted
+ */
+export function formatRateLimitedMessage(status: ScopedRateLimitStatus): string {
+  return [
+    '## 🤖 AI-Generated PR Summary',
+    '',
+    '⏳ **Summary skipped - rate limit reached**',
+    '',
+    `The limit of ${status.limit} requests for ${RATE_LIMIT_SCOPE_LABELS[status.scope]} has been used up.`,
+    `Capacity frees up at ${new Date(status.reset).toISOString()}; after that, push a new commit or comment`,
+    `\`${COMMAND_MENTION} summarize\` to generate the summary.`,
+    '',
+    '---',
+    '_This is an automated message from the PR Summarizer Bot._',
+  ].join('\n');
+}
+
+/**
+ * Format reply for an `explain <file>` command rejected by a rate limit quota
+ */
+export function formatExplainRateLimitedMessage(status: ScopedRateLimitStatus): string {
+  return (
+    `⏳ The limit of ${status.limit} requests for ${RATE_LIMIT_SCOPE_LABELS[status.scope]} has been used up. ` +
+    `Try again after ${new Date(status.reset).toISOString()}.`
+  );
+}
+
+/**
+ * Format notice for a summary skipped because the installation's monthly LLM budget is used up
+ */
+export function formatBudgetExceededMessage(budget: BudgetStatus): string {
+  return [
+    '## 🤖 AI-Generated PR Summary',
+    '',
+    '💸 **Summary skipped - monthly LLM budget reached**',
+    '',
+    `This installation has used ${budget.tokens.toLocaleString('en-US')} tokens` +
+      ` (about $${budget.costUsd.toFixed(2)}) in ${budget.month}, reaching its monthly limit.`,
+    'Summaries resume at the start of next month, or once an administrator raises the budget.',
+    '',
+    '---',
+    '_This is an automated message from the PR Summarizer Bot._',
+  ].join('\n');
+}
+
+/**
+ * Format reply for an `explain <file>` command rejected by the monthly LLM budget
+ */
+export function formatExplainBudgetExceededMessage(budget: BudgetStatus): string {
+  return `💸 This installation has reached its LLM budget for ${budget.month}. Explanations resume next month.`;
+}
+
+/**
+ * Format help reply listing supported comment commands
+ */
+export function formatCommandHelpMessage(unknownCommand?: string): string {
+  const lines: string[] = [];
+
+  if (unknownCommand) {
+    lines.push(`❓ Unknown command \`${unknownCommand}\`.`, '');
+  }
+
+  lines.push(
+    'Supported commands:',
+    '',
+    ...SUPPORTED_COMMANDS.map((c) => `- \`${COMMAND_MENTION} ${c.usage}\` - ${c.description}`),
+    '',
+    '---',
+    '_This is an automated message from the PR Summarizer Bot._'
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Format reply for commenters without write access
+ */
+export function formatPermissionDeniedMessage(username: string): string {
+  return `@${username} only collaborators with write access can run \`${COMMAND_MENTION}\` commands.`;
+}
+
+/**
+ * Format reply for a `summarize` command that joined a summary already queued for the same commit
+ */
+export function formatCommandMergedMessage(sha: string): string {
+  return (
+    `A summary of \`${sha.substring(0, 7)}\` is already queued, so this command was merged into it. ` +
+    `Use \`${COMMAND_MENTION} summarize --force\` to regenerate the summary from scratch.`
+  );
+}
+
+/**
+ * Format reply for the `explain <file>` command
+ */
+export function formatFileExplanation(explanation: FileExplanation): string {
+  return [
+    `### 🤖 Changes in \`${explanation.filename}\``,
+    '',
+    explanation.explanation,
+    '',
+    '---',
+    '_This explanation was automatically generated by AI. Please review for accuracy._',
+  ].join('\n');
+}
+
+/**
+ * Format reply when `explain <file>` names a file not changed in the PR
+ */
+export function formatFileNotInDiffMessage(filename: string): string {
+  return `\`${filename}\` is not among the files changed in this PR (or has no textual diff to explain).`;
+}
+
+/**
+ * Format reply for an explain request on a file the repository's file filter keeps away from the LLM
+ */
+export function formatFileFilteredMessage(file: FilteredFile): string {
+  return (
+    `\`${file.filename}\` is filtered out of AI summaries for this repository (${file.reason}), so it is not ` +
+    'explained either. Add it to `includeFiles` in `.github/pr-summarizer.yml` to change that.'
+  );
+}
+
 /**
  * Truncate text to max length with ellipsis
  */
@@ -0,0 +1,13 @@
+/**
+ * Token counting helpers
+ */
+
+// Rough average for English prose and code across common tokenizers
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the token count of a text, for providers that do not report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
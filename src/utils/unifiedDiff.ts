@@ -0,0 +1,60 @@
+/**
+ * A file's section of a raw `git diff`, in the shape GitHub uses for `patch`
+ */
+export interface RawFileDiff {
+  // Hunks from the first `@@` line; absent for binary files and changes without content (renames, modes)
+  patch?: string;
+  binary: boolean;
+}
+
+const FILE_HEADER = /^diff --git /m;
+
+/**
+ * Split a raw unified diff (the `application/vnd.github.diff` media type) into per-file patches, keyed by
+ * the file's path after the change
+ */
+export function parseUnifiedDiff(raw: string): Map<string, RawFileDiff> {
+  const files = new Map<string, RawFileDiff>();
+
+  for (const section of raw.split(FILE_HEADER).slice(1)) {
+    const lines = section.split('\n');
+    const filename = newPath(lines);
+    if (!filename) {
+      continue;
+    }
+
+    const binary = lines.some((line) => line.startsWith('Binary files ') || line === 'GIT binary patch');
+    const firstHunk = lines.findIndex((line) => line.startsWith('@@'));
+    const patch = !binary && firstHunk >= 0 ? lines.slice(firstHunk).join('\n').replace(/\n+$/, '') : undefined;
+
+    files.set(filename, { patch, binary });
+  }
+
+  return files;
+}
+
+/**
+ * Path of the file after the change, from the `+++`, `rename to` or `diff --git` line (in that order)
+ */
+function newPath(lines: string[]): string | null {
+  const added = lines.find((line) => line.startsWith('+++ '));
+  if (added && added !== '+++ /dev/null') {
+    return added.slice(4).replace(/^b\//, '');
+  }
+
+  const removed = lines.find((line) => line.startsWith('--- '));
+  if (added && removed) {
+    return removed.slice(4).replace(/^a\//, '');
+  }
+
+  const renamed = lines.find((line) => line.startsWith('rename to '));
+  if (renamed) {
+    return renamed.slice('rename to '.length);
+  }
+
+  // `a/<path> b/<path>`: without a rename both halves are the same path
+  const header = lines[0];
+  const half = (header.length - 1) / 2;
+  const path = header.slice(half + 3);
+  return header.startsWith('a/') && header.slice(2, half) === path ? path : null;
+}
@@ -0,0 +1,98 @@
+/**
+ * PR Summarizer Bot - Job Worker Entry Point
+ * Runs queued summarization jobs; start one or more alongside the webhook server
+ *
+ * Usage:
+ *   node lib/worker.js                  run the worker
+ *   node lib/worker.js dead-letters     list permanently failed jobs
+ *   node lib/worker.js replay <jobId>   requeue a dead-lettered job
+ *   node lib/worker.js audit-export <jsonl|csv> [from] [to] > audit.csv
+ *                                       write audit entries in a date range (ISO dates) to stdout
+ */
+
+import pino from 'pino';
+import { Logger, Probot } from 'probot';
+import { loadConfig } from './config';
+import { ServiceContainer } from './services/container';
+import { resolveBotLogin } from './services/github';
+import { createJobWorker } from './handlers/jobs';
+import { createProbeServer } from './handlers/health';
+import { AUDIT_EXPORT_FORMATS, AuditExportFormat, exportAuditLogs } from './services/auditExport';
+
+// Created before the config is loaded, so config errors are logged like everything else
+const log: Logger = pino({ level: process.env.LOG_LEVEL || 'info', serializers: { error: pino.stdSerializers.err } });
+
+async function main(args: string[]): Promise<void> {
+  const config = loadConfig();
+  const probot = new Probot({
+    appId: config.github.appId,
+    privateKey: config.github.privateKey,
+    log,
+  });
+  const services = new ServiceContainer({
+    config,
+    logger: probot.log,
+    resolveBotLogin: async () => resolveBotLogin((await probot.auth()) as never),
+  });
+
+  const [command, ...params] = args;
+
+  if (command === 'dead-letters') {
+    const deadLetters = await services.queue.listDeadLetters();
+    process.stdout.write(`${JSON.stringify(deadLetters, null, 2)}\n`);
+    await services.shutdown();
+    return;
+  }
+
+  if (command === 'replay') {
+    const jobId = params[0];
+    const replayed = jobId ? await services.queue.replayDeadLetter(jobId) : false;
+    probot.log.info({ jobId, replayed }, replayed ? 'Job replayed' : 'Dead-lettered job not found');
+    await services.shutdown();
+    process.exitCode = replayed ? 0 : 1;
+    return;
+  }
+
+  if (command === 'audit-export') {
+    const format = params[0] as AuditExportFormat;
+    const [from, to] = params.slice(1).map((date) => Date.parse(date));
+    if (!AUDIT_EXPORT_FORMATS.includes(format) || Number.isNaN(from) || Number.isNaN(to)) {
+      throw new Error('Usage: audit-export <jsonl|csv> [from] [to] (ISO 8601 dates)');
+    }
+
+    for await (const chunk of exportAuditLogs(services.cache, { from, to }, format)) {
+      if (!process.stdout.write(chunk)) {
+        await new Promise((resolve) => process.stdout.once('drain', resolve));
+      }
+    }
+    await services.shutdown();
+    return;
+  }
+
+  const worker = createJobWorker(
+    services,
+    probot.log,
+    async (installationId) => (await probot.auth(installationId)) as never
+  );
+  worker.start();
+
+  // The worker has no Probot server, so it serves its own probes and metrics
+  const probeServer = config.server.metricsPort ? createProbeServer(services, probot.log) : null;
+  probeServer?.listen(config.server.metricsPort, () =>
+    probot.log.info({ port: config.server.metricsPort }, 'Serving /healthz, /readyz and /metrics')
+  );
+
+  process.once('SIGTERM', () => {
+    probot.log.info('Received SIGTERM');
+    probeServer?.close();
+    void worker
+      .stop()
+      .then(() => services.shutdown())
+      .then(() => process.exit(0));
+  });
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  log.fatal({ error }, 'Worker failed');
+  process.exit(1);
+});